@@ -0,0 +1,76 @@
+/**
+ * Benchmark cold vs. warm quote latency
+ *
+ * The first quote builds the Wormhole SDK, route resolvers and chain contexts;
+ * later quotes reuse them from the shared WormholeContext. The quote cache is
+ * turned off so every iteration queries the routes.
+ *
+ * Usage: pnpm benchmark:quotes [iterations]
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import {
+  BridgeService,
+  TokenRegistry,
+  getErrorMessage,
+  resetWormholeContexts,
+  type QuoteRequest,
+} from '../src/lib/wormhole-sdk';
+
+const NETWORK = 'Mainnet';
+const TOKEN_LIST = path.join(__dirname, '../src/app/lib/token-lists/mainnet.tokenlist.json');
+const SAMPLE_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+
+async function main() {
+  const iterations = Number(process.argv[2] ?? 5);
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error(`Invalid iteration count '${process.argv[2]}'`);
+  }
+
+  const registry = new TokenRegistry({ network: NETWORK });
+  registry.addList(JSON.parse(await readFile(TOKEN_LIST, 'utf8')));
+  const usdc = registry.getTokenBySymbol(8453, 'USDC');
+  if (!usdc) throw new Error('USDC on Base is missing from the token list');
+
+  const request: QuoteRequest = {
+    sourceChain: 'Base',
+    destChain: 'Arbitrum',
+    token: usdc,
+    amount: '100',
+    senderAddress: SAMPLE_ADDRESS,
+    recipientAddress: SAMPLE_ADDRESS,
+  };
+
+  resetWormholeContexts();
+  const bridge = new BridgeService({ network: NETWORK }, { quoteCache: null });
+
+  console.log(`Quoting ${request.amount} USDC ${request.sourceChain} → ${request.destChain}, ${iterations} runs...`);
+  const timings: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    const start = performance.now();
+    let outcome: string;
+    try {
+      const quotes = await bridge.getAllQuotes(request);
+      outcome = `${quotes.length} routes`;
+    } catch (error) {
+      outcome = `failed: ${getErrorMessage(error)}`;
+    }
+    const elapsed = performance.now() - start;
+    timings.push(elapsed);
+    console.log(`  ${i === 0 ? 'cold' : 'warm'} #${i + 1}: ${elapsed.toFixed(0)}ms (${outcome})`);
+  }
+
+  const [cold, ...warm] = timings;
+  console.log(`Cold: ${cold.toFixed(0)}ms`);
+  if (warm.length > 0) {
+    const average = warm.reduce((sum, t) => sum + t, 0) / warm.length;
+    console.log(`Warm: ${average.toFixed(0)}ms average over ${warm.length} runs`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
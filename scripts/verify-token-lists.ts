@@ -0,0 +1,42 @@
+/**
+ * Verify the bundled token lists on-chain
+ *
+ * Checks that every listed address holds a token and that its decimals match
+ * the list. Exits with status 1 when any token fails.
+ *
+ * Usage: pnpm verify:tokens [Mainnet|Testnet|Devnet]
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { SUPPORTED_NETWORKS, TokenRegistry, type Network } from '../src/lib/wormhole-sdk';
+
+const TOKEN_LIST_DIR = path.join(__dirname, '../src/app/lib/token-lists');
+
+async function main() {
+  const network = (process.argv[2] ?? 'Mainnet') as Network;
+  if (!SUPPORTED_NETWORKS.includes(network)) {
+    throw new Error(`Unknown network '${network}', expected one of: ${SUPPORTED_NETWORKS.join(', ')}`);
+  }
+
+  const file = path.join(TOKEN_LIST_DIR, `${network.toLowerCase()}.tokenlist.json`);
+  const registry = new TokenRegistry({ network });
+  const tokens = registry.addList(JSON.parse(await readFile(file, 'utf8')));
+  console.log(`Verifying ${tokens.length} ${network} tokens from ${path.basename(file)}...`);
+
+  const results = await registry.verifyTokens();
+  const failed = results.filter((result) => !result.valid);
+
+  for (const { token, issues } of failed) {
+    console.log(`✗ ${token.symbol} (${token.chainId}) ${token.address}`);
+    issues.forEach((issue) => console.log(`    ${issue}`));
+  }
+  console.log(`${results.length - failed.length}/${results.length} tokens verified`);
+
+  if (failed.length > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import {
+  BridgeService,
+  InvalidRequestError,
+  getQuoteTokens,
+  sortQuotesByUsdCost,
+  WormholeError,
+  WormholeErrorCode,
+  toWormholeError,
+  validateQuoteRequest,
+} from '@/lib/wormhole-sdk';
+import { createLogger } from '../../lib/logger';
+import { NETWORK } from '../../lib/network';
+import { getCachedUsdPrice, prices } from '../../lib/prices';
+import { RPC_URLS } from '../../lib/rpc';
+
+/**
+ * HTTP status for each error code - anything not listed is a 500
+ */
+const ERROR_STATUS: Partial<Record<WormholeErrorCode, number>> = {
+  [WormholeErrorCode.INVALID_REQUEST]: 400,
+  [WormholeErrorCode.INVALID_AMOUNT]: 400,
+  [WormholeErrorCode.INVALID_ADDRESS]: 400,
+  [WormholeErrorCode.INVALID_TOKEN_ADDRESS]: 400,
+  [WormholeErrorCode.CHAIN_NOT_SUPPORTED]: 400,
+  [WormholeErrorCode.CHAIN_NOT_FOUND]: 400,
+  [WormholeErrorCode.NO_ROUTES_FOUND]: 404,
+  [WormholeErrorCode.ROUTE_VALIDATION_FAILED]: 422,
+  [WormholeErrorCode.QUOTE_FAILED]: 422,
+};
+
+/**
+ * Serialize an error for the response body, leaving out stack traces and
+ * wrapped exceptions
+ */
+function toErrorBody(error: WormholeError) {
+  const details = { ...error.details };
+  delete details.originalError;
+  delete details.stack;
+
+  return {
+    name: error.name,
+    code: error.code,
+    message: error.message,
+    ...(Object.keys(details).length > 0 && { details }),
+  };
+}
+
+// Shared across requests so the SDK is only initialized once per server instance
+const bridge = new BridgeService({ network: NETWORK, rpcUrls: RPC_URLS }, { prices });
+const logger = createLogger('api:quote');
+
+/**
+ * POST /api/quote
+ *
+ * Accepts a QuoteRequest JSON body (amount in base units) and returns a
+ * BridgeQuote for every available route, cheapest first by USD cost when every
+ * token has a price. Failed routes are included last with `success: false`
+ * and the reason in `error`.
+ *
+ * Amounts outside VALIDATION.MIN/MAX_TRANSFER_AMOUNT_USD are rejected with a
+ * 400. Tokens without a price (every testnet token, and any the price API does
+ * not list) skip that check rather than failing - a price outage must not take
+ * quoting down with it.
+ */
+export async function POST(request: Request) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new InvalidRequestError('Request body must be valid JSON');
+    }
+
+    const quoteRequest = validateQuoteRequest(body, NETWORK);
+    const quotes = await bridge.getAllQuotes(quoteRequest);
+    await prices.getUsdPrices(quotes.filter((quote) => quote.success).flatMap(getQuoteTokens));
+
+    return NextResponse.json({ quotes: sortQuotesByUsdCost(quotes, getCachedUsdPrice) });
+  } catch (error) {
+    const wormholeError = toWormholeError(error);
+    const status = ERROR_STATUS[wormholeError.code] ?? 500;
+    if (status >= 500) {
+      logger.error('Quote request failed', wormholeError);
+    }
+    return NextResponse.json({ error: toErrorBody(wormholeError) }, { status });
+  }
+}
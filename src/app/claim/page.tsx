@@ -0,0 +1,15 @@
+import Navbar from '../components/Navbar';
+import ClaimTransfer from '../components/ClaimTransfer';
+
+export default function ClaimPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0f0f1e] via-[#1a1a2e] to-[#16213e]">
+      <Navbar />
+      <main className="flex items-center justify-center min-h-[calc(100vh-80px)] p-4">
+        <div className="w-full max-w-2xl mx-auto p-6">
+          <ClaimTransfer />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import type { AllowanceMode } from '@/lib/wormhole-sdk';
+
+interface AllowanceModeSelectorProps {
+  value: AllowanceMode;
+  onChange: (mode: AllowanceMode) => void;
+  tokenSymbol: string;
+  disabled?: boolean;
+}
+
+const OPTIONS: { mode: AllowanceMode; label: string; description: string }[] = [
+  { mode: 'exact', label: 'Exact amount', description: 'Approve only this transfer. Later transfers ask again.' },
+  { mode: 'unlimited', label: 'Unlimited', description: 'No approval next time. Revoke it when you are done.' },
+];
+
+export default function AllowanceModeSelector({
+  value,
+  onChange,
+  tokenSymbol,
+  disabled = false,
+}: AllowanceModeSelectorProps) {
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-300">{tokenSymbol} approval</h3>
+      <div className="grid grid-cols-2 gap-2">
+        {OPTIONS.map((option) => (
+          <button
+            key={option.mode}
+            onClick={() => onChange(option.mode)}
+            disabled={disabled}
+            className={`p-2 rounded-lg border text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              value === option.mode
+                ? 'border-indigo-500 bg-indigo-600/20'
+                : 'border-gray-700 bg-[#1e1e2e] hover:bg-[#333347]'
+            }`}
+          >
+            <span className="block text-sm font-medium text-white">{option.label}</span>
+            <span className="block text-xs text-gray-400">{option.description}</span>
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        If the route&apos;s contract needs an allowance, you&apos;ll confirm an approval before the transfer.
+      </p>
+    </div>
+  );
+}
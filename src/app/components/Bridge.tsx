@@ -1,15 +1,67 @@
 'use client';
 
-import { useState } from 'react';
-import { useAccount, useBalance, useReadContract, useWalletClient } from 'wagmi';
+import { useEffect, useRef, useState } from 'react';
+import { useAccount, useBalance, useReadContract, useSwitchChain, useWalletClient } from 'wagmi';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
 import { formatUnits } from 'viem';
 import ChainSelector from './ChainSelector';
 import TokenSelector from './TokenSelector';
-import { TOKENS } from '../lib/tokens';
-import { CHAINS, type ChainId } from '../lib/chains';
-import { createWormholeSigner, getTransferQuote, getQuotesForAllRoutes, initiateTransfer } from '../lib/wormhole';
-import { formatRoutes } from '../lib/route-helpers';
+import { TOKENS, tokenRegistry } from '../lib/tokens';
+import { CHAINS, DEFAULT_DEST_CHAIN, DEFAULT_SOURCE_CHAIN, type ChainId } from '../lib/chains';
+import { NETWORK } from '../lib/network';
+import {
+  createWormholeSigner,
+  getTokenBalance,
+  getTransferQuote,
+  getQuotesForAllRoutes,
+  initiateTransfer,
+  type RouteQuote,
+  type SwapConstraints,
+} from '../lib/wormhole';
+import { useSolanaWallet } from '../lib/solana-wallet';
+import { assertCanAffordTransfer, getMaxTransferAmount } from '../lib/preflight';
+import { approveTransfer, needsApproval } from '../lib/approvals';
+import { bridgeLogger } from '../lib/logger';
+import { formatRoutes, getTransferSteps, toRelayFee, type FormatRoutesOptions } from '../lib/route-helpers';
+import { assertAmountWithinLimits, getCachedUsdPrice, loadRoutePrices } from '../lib/prices';
 import RouteSelector, { type RouteOption } from './RouteSelector';
+import ClaimTransfer from './ClaimTransfer';
+import RecipientInput from './RecipientInput';
+import NativeGasSelector from './NativeGasSelector';
+import ErrorNotice from './ErrorNotice';
+import AllowanceModeSelector from './AllowanceModeSelector';
+import SwapSettings from './SwapSettings';
+import DestinationTokenSelector from './DestinationTokenSelector';
+import RevokeAllowances from './RevokeAllowances';
+import { transferHistory, watchTransfer } from '../lib/transfer-history';
+import {
+  QuoteExpiredError,
+  DEFAULT_DEADLINE_MINUTES,
+  FEES,
+  RecoveryAction,
+  ROUTE_SCORING,
+  createSolanaSigner,
+  getAddressError,
+  getErrorRecovery,
+  getQuoteTimeRemaining,
+  getSwapDetails,
+  isRouteType,
+  toTransferReceipt,
+  type AllowanceMode,
+  type DestinationToken,
+  type ErrorRecovery,
+  type RouteScorePreset,
+  type RouteType,
+  type TokenCounterpart,
+  type TransferProgress,
+  type TransferReceipt,
+} from '@/lib/wormhole-sdk';
+
+// The app's token list knows symbols the SDK's does not
+function withAppSymbol({ token, kind }: DestinationToken): DestinationToken {
+  const symbol = tokenRegistry.getToken(token.chainId, token.address)?.symbol ?? token.symbol;
+  return { token: { ...token, symbol }, kind };
+}
 
 const ERC20_ABI = [
   {
@@ -22,32 +74,120 @@ const ERC20_ABI = [
 ] as const;
 
 export default function Bridge() {
-  const [sourceChain, setSourceChain] = useState<ChainId>(8453); // Base
-  const [destChain, setDestChain] = useState<ChainId>(1); // Ethereum
-  const [sourceToken, setSourceToken] = useState('ETH');
+  const [sourceChain, setSourceChain] = useState<ChainId>(DEFAULT_SOURCE_CHAIN);
+  const [destChain, setDestChain] = useState<ChainId>(DEFAULT_DEST_CHAIN);
+  const [sourceToken, setSourceToken] = useState(Object.keys(TOKENS[DEFAULT_SOURCE_CHAIN] ?? {})[0] ?? '');
   const [amount, setAmount] = useState('');
   const [isTransferring, setIsTransferring] = useState(false);
   const [transferStatus, setTransferStatus] = useState<string | React.ReactNode>('');
+  const [error, setError] = useState<ErrorRecovery | null>(null);
   const [quote, setQuote] = useState<any>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [availableRoutes, setAvailableRoutes] = useState<RouteOption[]>([]);
   const [selectedRoute, setSelectedRoute] = useState<RouteOption | null>(null);
-  const [routeData, setRouteData] = useState<any>(null); // Store route, transferRequest, wh
+  const [routePreset, setRoutePreset] = useState<RouteScorePreset>('balanced');
+  // Swap mode - receive another token, within a slippage limit and deadline
+  const [swapMode, setSwapMode] = useState(false);
+  const [destToken, setDestToken] = useState('');
+  const [slippageBps, setSlippageBps] = useState<number>(FEES.DEFAULT_SLIPPAGE_BPS);
+  const [deadlineMinutes, setDeadlineMinutes] = useState(DEFAULT_DEADLINE_MINUTES);
+  // Route quotes of the preview, with the transfer request and SDK instance they were quoted for, the
+  // tokens the routes can deliver, the one they deliver for this request and the swap limits they were held to
+  const [routeData, setRouteData] = useState<{
+    routeQuotes: RouteQuote[];
+    transferRequest: any;
+    wh: any;
+    destinationTokens: DestinationToken[];
+    destinationToken?: DestinationToken;
+    constraints: SwapConstraints;
+  } | null>(null);
+  const [transferProgress, setTransferProgress] = useState<TransferProgress | null>(null);
+  const [lastReceipt, setLastReceipt] = useState<TransferReceipt | null>(null);
+  const [solanaBalance, setSolanaBalance] = useState<bigint | null>(null);
+  const [customRecipient, setCustomRecipient] = useState('');
+  const [nativeGas, setNativeGas] = useState(0);
+  const [allowanceMode, setAllowanceMode] = useState<AllowanceMode>('exact');
+  // Whether the selected route needs an approval first - null until the allowance is known
+  const [approvalNeeded, setApprovalNeeded] = useState<boolean | null>(null);
+  const [showAllowances, setShowAllowances] = useState(false);
+  const [isRequoting, setIsRequoting] = useState(false);
+  const [counterparts, setCounterparts] = useState<TokenCounterpart[] | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const unwatchTransferRef = useRef<(() => void) | null>(null);
+  const requoteTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const requoteIdRef = useRef(0);
+
+  // Stop following transfer status and pending re-quotes when the component unmounts -
+  // the transfer is still tracked, so its saved status stays current
+  useEffect(
+    () => () => {
+      unwatchTransferRef.current?.();
+      if (requoteTimerRef.current) clearTimeout(requoteTimerRef.current);
+    },
+    []
+  );
 
   const { address, isConnected } = useAccount();
   const { data: walletClient } = useWalletClient();
+  const { switchChainAsync } = useSwitchChain();
+  const { openConnectModal } = useConnectModal();
+  const solanaWallet = useSolanaWallet();
   const sourceTokens = TOKENS[sourceChain] || {};
   const selectedTokenInfo = sourceTokens[sourceToken as keyof typeof sourceTokens];
+  // The chosen destination token, or the first on the destination chain after a chain change
+  const destTokens = TOKENS[destChain] || {};
+  const destTokenSymbol = destToken in destTokens ? destToken : (Object.keys(destTokens)[0] ?? '');
+  const destTokenInfo = destTokens[destTokenSymbol];
+
+  // Slippage and deadline for new swap-mode quotes - the deadline counts from now, so call this once per
+  // preview and keep the result with its quotes
+  const getSwapConstraints = (): SwapConstraints =>
+    swapMode ? { slippage: slippageBps, deadline: Date.now() + deadlineMinutes * 60 * 1000 } : {};
+
+  // How route quotes are formatted - scored with the selected preset's weights, priced with the prices fetched
+  const getRouteFormatOptions = (
+    preset: RouteScorePreset = routePreset,
+    destinationToken = routeData?.destinationToken
+  ): FormatRoutesOptions => ({
+    chain: CHAINS[sourceChain].name,
+    destChain: CHAINS[destChain].name,
+    token: selectedTokenInfo,
+    destinationToken: destinationToken?.token,
+    weights: ROUTE_SCORING.PRESETS[preset],
+    getUsdPrice: getCachedUsdPrice,
+  });
+
+  // Route options for the current quotes
+  const formatRouteOptions = (
+    routeQuotes: RouteQuote[],
+    preset: RouteScorePreset = routePreset,
+    destinationToken = routeData?.destinationToken
+  ) => formatRoutes(routeQuotes, getRouteFormatOptions(preset, destinationToken));
 
   // Check if it's a native token (using the special address)
   const isNativeToken = selectedTokenInfo?.address === '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
 
+  // Each side of the transfer uses the wallet for its platform
+  const sourceIsSolana = CHAINS[sourceChain].platform === 'Solana';
+  const destIsSolana = CHAINS[destChain].platform === 'Solana';
+  const senderAddress = sourceIsSolana ? solanaWallet.address : address;
+  const walletRecipient = destIsSolana ? solanaWallet.address : address;
+
+  // A custom recipient (e.g. a multisig) replaces the connected wallet on the destination chain
+  const customRecipientAddress = customRecipient.trim();
+  const recipientAddress = customRecipientAddress || walletRecipient;
+  const recipientError = customRecipientAddress
+    ? getAddressError(customRecipientAddress, CHAINS[destChain].name)
+    : null;
+  const walletsReady =
+    !!senderAddress && !!recipientAddress && !recipientError && (sourceIsSolana || !!walletClient);
+
   // Get native token balance
   const { data: nativeBalance } = useBalance({
     address,
     chainId: sourceChain,
     query: {
-      enabled: isConnected && isNativeToken,
+      enabled: isConnected && isNativeToken && !sourceIsSolana,
     },
   });
 
@@ -59,12 +199,91 @@ export default function Bridge() {
     args: address ? [address] : undefined,
     chainId: sourceChain,
     query: {
-      enabled: isConnected && !isNativeToken && !!address && !!selectedTokenInfo,
+      enabled: isConnected && !isNativeToken && !sourceIsSolana && !!address && !!selectedTokenInfo,
     },
   });
 
+  // wagmi only covers EVM chains - Solana balances come from the Wormhole SDK
+  useEffect(() => {
+    if (!sourceIsSolana || !solanaWallet.address || !selectedTokenInfo) {
+      setSolanaBalance(null);
+      return;
+    }
+
+    let cancelled = false;
+    getTokenBalance('Solana', solanaWallet.address, selectedTokenInfo.address)
+      .then((value) => !cancelled && setSolanaBalance(value))
+      .catch((error) => bridgeLogger.error('Solana balance error', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceIsSolana, solanaWallet.address, selectedTokenInfo]);
+
+  // Tick once a second while a quote is shown, for the expiry countdown
+  useEffect(() => {
+    if (!showPreview || !quote) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [showPreview, quote]);
+
+  const quoteTimeRemaining = quote ? getQuoteTimeRemaining(quote, now) : Infinity;
+  // Swap terms of the selected quote (Mayan routes), undefined for like-for-like routes
+  const receivedToken = routeData?.destinationToken?.token;
+  const swapDetails = quote ? getSwapDetails(quote, receivedToken ?? selectedTokenInfo) : undefined;
+  const receivedSymbol =
+    swapDetails?.minReceived.token.symbol ?? receivedToken?.symbol ?? (swapMode ? destTokenSymbol : sourceToken);
+  const isQuoteStale = quoteTimeRemaining === 0;
+  // Relay fees are often paid in the native token, or in another token on swap routes
+  const relayFee = quote && selectedTokenInfo ? toRelayFee(quote.relayFee, getRouteFormatOptions()) : undefined;
+
+  // What the selected token arrives as on the destination chain
+  useEffect(() => {
+    setCounterparts(null);
+    if (!selectedTokenInfo) return;
+
+    let cancelled = false;
+    tokenRegistry
+      .getCounterparts(selectedTokenInfo, [CHAINS[destChain].name])
+      .then((result) => !cancelled && setCounterparts(result))
+      .catch((error) => bridgeLogger.error('Token counterpart lookup error', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTokenInfo, destChain]);
+
+  // Check the allowance of the selected route's contract, for the transaction steps
+  useEffect(() => {
+    setApprovalNeeded(null);
+    if (!showPreview || !selectedRoute || !isRouteType(selectedRoute.type) || !selectedTokenInfo || !senderAddress) {
+      return;
+    }
+
+    let cancelled = false;
+    needsApproval({
+      chain: CHAINS[sourceChain].name,
+      token: selectedTokenInfo,
+      amount,
+      routeType: selectedRoute.type,
+      owner: senderAddress,
+    })
+      .then((value) => !cancelled && setApprovalNeeded(value))
+      .catch((error) => bridgeLogger.error('Allowance check error', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showPreview, selectedRoute, selectedTokenInfo, senderAddress, sourceChain, amount]);
+
   // Calculate the actual balance
-  const balance = isNativeToken
+  const balance = sourceIsSolana
+    ? solanaBalance !== null && selectedTokenInfo
+      ? parseFloat(formatUnits(solanaBalance, selectedTokenInfo.decimals))
+      : 0
+    : isNativeToken
     ? nativeBalance
       ? parseFloat(formatUnits(nativeBalance.value, nativeBalance.decimals))
       : 0
@@ -72,49 +291,59 @@ export default function Bridge() {
     ? parseFloat(formatUnits(erc20Balance as bigint, selectedTokenInfo.decimals))
     : 0;
 
-  console.log('[Bridge] Balance calculation:', {
-    isNativeToken,
-    nativeBalance,
-    erc20Balance,
-    selectedTokenInfo,
-    balance,
-    balanceType: typeof balance,
-  });
-
   const handleSwapChains = () => {
     const temp = sourceChain;
     setSourceChain(destChain);
     setDestChain(temp);
   };
 
-  const handleSetMax = () => {
-    console.log('[Bridge] handleSetMax called, balance:', balance, typeof balance);
-    const safeBalance = balance ?? 0;
-    console.log('[Bridge] safeBalance:', safeBalance);
-    setAmount(safeBalance.toString());
+  const handleSetMax = async () => {
+    if (!isNativeToken || !selectedTokenInfo || !senderAddress) {
+      setAmount((balance ?? 0).toString());
+      return;
+    }
+
+    // Keep enough of the native token back to pay for the transfer's gas
+    try {
+      setAmount(await getMaxTransferAmount(CHAINS[sourceChain].name, selectedTokenInfo, senderAddress));
+    } catch (error) {
+      bridgeLogger.error('Max amount error', error);
+      setError(getErrorRecovery(error, { chain: CHAINS[sourceChain].name }));
+    }
   };
 
-  const handlePreviewTransaction = async () => {
-    if (!isConnected || !address || !walletClient || !amount) {
-      setTransferStatus('Please connect wallet and enter amount');
+  // Quote every route for a transfer delivering `destTokenAddress`, or the routes' first destination token
+  const loadPreview = async (destTokenAddress?: string) => {
+    if (recipientError) {
+      setTransferStatus(`Invalid recipient: ${recipientError}`);
+      return;
+    }
+
+    if (!walletsReady || !senderAddress || !recipientAddress || !amount) {
+      setTransferStatus(
+        sourceIsSolana || destIsSolana
+          ? 'Please connect your EVM and Solana wallets and enter amount'
+          : 'Please connect wallet and enter amount'
+      );
       return;
     }
 
     try {
       setIsTransferring(true);
+      setError(null);
       setTransferStatus('Getting route quote...');
 
       // Get chain names for Wormhole SDK (map chain IDs to names)
       const sourceChainName = CHAINS[sourceChain].name;
       const destChainName = CHAINS[destChain].name;
 
-      console.log('[Bridge] Starting transfer:', {
+      bridgeLogger.debug('Starting transfer', {
         sourceChainName,
         destChainName,
         sourceToken,
         amount,
-        amountType: typeof amount,
-        address,
+        senderAddress,
+        recipientAddress,
       });
 
       // Get token address from selected token
@@ -124,78 +353,146 @@ export default function Bridge() {
         return;
       }
 
-      console.log('[Bridge] Token address:', tokenAddress);
+      // Amounts worth under the minimum or over the maximum in USD are refused before quoting
+      await assertAmountWithinLimits(selectedTokenInfo, amount);
 
       // Get all available routes
-      console.log('[Bridge] Calling getTransferQuote with amount:', amount, typeof amount);
-      const { route, transferRequest, wh, allRoutes } = await getTransferQuote({
+      const { route, transferRequest, wh, allRoutes, ...destinations } = await getTransferQuote({
         sourceChain: sourceChainName,
         destChain: destChainName,
         tokenAddress: tokenAddress,
         amount: amount,
-        sourceAddress: address,
-        destAddress: address, // Using same address for destination
+        sourceAddress: senderAddress,
+        destAddress: recipientAddress,
+        destTokenAddress,
       });
+      const destinationTokens = destinations.destinationTokens.map(withAppSymbol);
+      const destinationToken = destinations.destinationToken && withAppSymbol(destinations.destinationToken);
 
-      console.log('[Bridge] Routes received:', allRoutes?.length || 0);
+      bridgeLogger.debug(`Routes received: ${allRoutes?.length || 0}`);
       setTransferStatus('Getting quotes for all routes...');
 
-      // Get quotes for all routes
-      const allQuotes = await getQuotesForAllRoutes({
+      // Get quotes for all routes - failed routes are kept with the reason
+      const constraints = getSwapConstraints();
+      const routeQuotes = await getQuotesForAllRoutes({
         allRoutes: allRoutes || [route],
         transferRequest,
         amount,
+        nativeGas,
+        constraints,
       });
 
-      console.log('[Bridge] Quotes received:', allQuotes.length);
+      bridgeLogger.debug(`Quotes received: ${routeQuotes.filter((routeQuote) => routeQuote.quote).length}`);
 
-      // Format routes for UI
-      const formattedRoutes = formatRoutes(allRoutes || [route], allQuotes);
+      // Format routes for UI, compared by USD cost when every token has a price
+      await loadRoutePrices(routeQuotes, getRouteFormatOptions(routePreset, destinationToken));
+      const formattedRoutes = formatRouteOptions(routeQuotes, routePreset, destinationToken);
       setAvailableRoutes(formattedRoutes);
 
-      // Select the first route by default (cheapest or fastest based on your preference)
-      const defaultRoute = formattedRoutes[0];
-      setSelectedRoute(defaultRoute);
-
       // Store route data for transfer
-      setRouteData({ allRoutes, transferRequest, wh, allQuotes });
+      setRouteData({ routeQuotes, transferRequest, wh, destinationTokens, destinationToken, constraints });
 
-      // Get quote for the default selected route
-      const defaultQuote = allQuotes[0];
-      if (!defaultQuote || !defaultQuote.success) {
-        setTransferStatus('Failed to get quote');
+      // Select the best-scored route by default, or the only one that could be quoted
+      const defaultRoute = formattedRoutes.find((r) => r.isBest) ?? formattedRoutes.find((r) => !r.error);
+      const defaultQuote = routeQuotes.find((routeQuote) => routeQuote.key === defaultRoute?.type)?.quote;
+      if (!defaultRoute || !defaultQuote) {
+        setTransferStatus(`Failed to get quote${routeQuotes[0]?.error ? `: ${routeQuotes[0].error}` : ''}`);
+        setIsTransferring(false);
         return;
       }
+      setSelectedRoute(defaultRoute);
 
-      console.log('[Bridge] Default quote:', defaultQuote);
+      bridgeLogger.debug('Default quote', defaultQuote);
 
       // Store quote and show preview with route info
       setQuote({
         ...defaultQuote,
-        routeType: route.constructor.name,
+        routeType: defaultRoute.type,
       });
       setShowPreview(true);
       setTransferStatus('Review the transaction details and select a route');
       setIsTransferring(false);
 
-      // TODO: Add transfer tracking and completion
-      // This would involve monitoring the attestation and completing on dest chain
-
     } catch (error: any) {
-      console.error('[Bridge] Transfer error:', error);
-      console.error('[Bridge] Error stack:', error.stack);
-      setTransferStatus(`Error: ${error.message || 'Transfer failed'}`);
+      bridgeLogger.error('Quote error', error);
+      setError(getErrorRecovery(error, { stage: 'quote', chain: CHAINS[sourceChain].name, amount }));
+      setTransferStatus('');
       setIsTransferring(false);
     }
   };
 
+  // Re-quote every route of the current preview (expired quotes are fetched again)
+  const handlePreviewTransaction = () => loadPreview(swapMode ? destTokenInfo?.address : undefined);
+
+  // Re-quote every route to deliver another of the destination tokens
+  const handleDestinationTokenChange = ({ token }: DestinationToken) => loadPreview(token.address);
+
+  const refreshQuotes = async (nativeGasValue: number = nativeGas): Promise<boolean> => {
+    if (!routeData) return false;
+
+    const requoteId = ++requoteIdRef.current;
+    setIsRequoting(true);
+
+    try {
+      const routeQuotes = await getQuotesForAllRoutes({
+        allRoutes: routeData.routeQuotes.map((routeQuote) => routeQuote.route),
+        transferRequest: routeData.transferRequest,
+        amount,
+        nativeGas: nativeGasValue,
+        constraints: routeData.constraints,
+      });
+      // A newer re-quote was started while this one was in flight
+      if (requoteId !== requoteIdRef.current) return false;
+
+      await loadRoutePrices(routeQuotes, getRouteFormatOptions());
+      if (requoteId !== requoteIdRef.current) return false;
+      setAvailableRoutes(formatRouteOptions(routeQuotes));
+      setRouteData({ ...routeData, routeQuotes });
+
+      const routeType = selectedRoute?.type ?? quote?.routeType;
+      const updated = routeQuotes.find((routeQuote) => routeQuote.key === routeType);
+      if (!updated?.quote) {
+        setTransferStatus(`Failed to get an updated quote${updated?.error ? `: ${updated.error}` : ''}`);
+        return false;
+      }
+
+      setQuote({ ...updated.quote, routeType });
+      return true;
+    } catch (error: any) {
+      bridgeLogger.error('Re-quote error', error);
+      setError(getErrorRecovery(error, { stage: 'quote', chain: CHAINS[sourceChain].name, amount }));
+      setTransferStatus('');
+      return false;
+    } finally {
+      if (requoteId === requoteIdRef.current) setIsRequoting(false);
+    }
+  };
+
+  // Re-quote once the user settles on a native gas drop-off
+  const handleNativeGasChange = (value: number) => {
+    setNativeGas(value);
+    if (!routeData) return;
+
+    if (requoteTimerRef.current) clearTimeout(requoteTimerRef.current);
+    requoteTimerRef.current = setTimeout(() => refreshQuotes(value), 400);
+  };
+
+  const handleRefreshQuote = async () => {
+    setError(null);
+    setTransferStatus('Refreshing quote...');
+    if (await refreshQuotes()) {
+      setTransferStatus('Review the updated quote and confirm');
+    }
+  };
+
   const handleConfirmTransfer = async () => {
-    if (!isConnected || !address || !walletClient || !quote) {
+    if (!walletsReady || !senderAddress || !recipientAddress || !selectedTokenInfo || !quote) {
       return;
     }
 
     try {
       setIsTransferring(true);
+      setError(null);
       // Keep preview visible during transfer
       setTransferStatus('Preparing transaction...');
 
@@ -208,59 +505,137 @@ export default function Bridge() {
       const sourceChainName = CHAINS[sourceChain].name;
 
       // Get the selected route object from routeData
-      const routeIndex = availableRoutes.findIndex(r => r.type === selectedRoute.type);
-      const route = routeData.allRoutes[routeIndex];
+      const routeQuote = routeData.routeQuotes.find((candidate) => candidate.key === selectedRoute.type);
+      if (!routeQuote?.quote) {
+        setTransferStatus(`${selectedRoute.name} is unavailable${routeQuote?.error ? `: ${routeQuote.error}` : ''}`);
+        setIsTransferring(false);
+        return;
+      }
+      const { route } = routeQuote;
       const { transferRequest, wh } = routeData;
 
-      console.log('[Bridge] Using selected route:', selectedRoute.name);
+      bridgeLogger.debug(`Using selected route: ${selectedRoute.name}`);
+
+      // Check balance, allowance and gas before the wallet pops up
+      setTransferStatus('Checking balance and gas...');
+      const preflight = await assertCanAffordTransfer({
+        chain: sourceChainName,
+        token: selectedTokenInfo,
+        amount,
+        senderAddress,
+        routeType: selectedRoute.type as RouteType,
+        quote,
+      });
 
       // Create signer
       setTransferStatus('Waiting for wallet approval...');
-      const signer = await createWormholeSigner(walletClient, wh, sourceChainName);
+      const signer = sourceIsSolana && solanaWallet.wallet
+        ? await createSolanaSigner(solanaWallet.wallet, wh)
+        : await createWormholeSigner(walletClient!, wh, sourceChainName);
+
+      // Approve the route's contract as its own step, so the route does not approve inside initiate
+      if (preflight.approval) {
+        setTransferStatus('Step 1/2: Waiting for token approval...');
+        await approveTransfer({
+          chain: sourceChainName,
+          token: selectedTokenInfo,
+          amount,
+          routeType: selectedRoute.type as RouteType,
+          mode: allowanceMode,
+          signer,
+          onProgress: (progress) => setTransferStatus(`Step 1/2: ${progress.message}`),
+        });
+      }
 
       // Initiate the transfer
-      setTransferStatus('Step 1/2: Approving token...');
+      setTransferStatus(preflight.approval ? 'Step 2/2: Sending transfer...' : 'Sending transfer...');
       const receipt = await initiateTransfer({
         route,
         transferRequest,
         signer,
         wh,
-        destAddress: address,
+        destAddress: recipientAddress,
         amount: amount,
+        nativeGas: selectedRoute.isAutomatic ? nativeGas : 0,
+        quote,
+        constraints: routeData.constraints,
       });
 
-      console.log('[Bridge] Transfer initiated:', receipt);
-
-      // Extract transaction hash from receipt
-      // For routes with approval (like CCTP), the actual bridge tx is the last item
-      // For manual routes without approval, there's only one transaction
-      const originTxs = receipt?.originTxs || [];
-      const txHash = originTxs.length > 0
-        ? originTxs[originTxs.length - 1]?.txid
-        : (receipt?.txid || receipt?.hash || 'unknown');
-      console.log('[Bridge] Extracted tx hash:', txHash, 'from', originTxs.length, 'transactions');
+      bridgeLogger.debug('Transfer initiated', receipt);
 
-      // Build Wormhole scanner URL
-      const wormholeUrl = `https://wormholescan.io/#/tx/${txHash}?network=Mainnet`;
+      const transferReceipt = toTransferReceipt(receipt, selectedRoute.type as RouteType, NETWORK);
+      bridgeLogger.debug('Extracted tx hash', {
+        txHash: transferReceipt.txHash,
+        originTxs: transferReceipt.originTxs.length,
+      });
+      setLastReceipt(transferReceipt);
+      await transferHistory.save(transferReceipt, { amount, tokenSymbol: sourceToken });
 
       setTransferStatus(
         <span>
           Transfer initiated! 🎉<br/>
-          <a href={wormholeUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:text-indigo-300 underline">
+          <a href={transferReceipt.wormholeScanUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:text-indigo-300 underline">
             View on Wormhole Scanner →
           </a>
         </span>
       );
+
+      // Track the transfer until it completes (or is ready to claim) - failures are logged by watchTransfer
+      unwatchTransferRef.current?.();
+      const { done, unwatch } = watchTransfer(transferReceipt, setTransferProgress);
+      unwatchTransferRef.current = unwatch;
+      done.catch(() => setTransferProgress(null));
+
       setQuote(null);
 
     } catch (error: any) {
-      console.error('[Bridge] Transfer error:', error);
-      setTransferStatus(`Error: ${error.message || 'Transfer failed'}`);
+      if (error instanceof QuoteExpiredError) {
+        // Nothing was signed - show the new price and let the user confirm again
+        const refreshed = await refreshQuotes();
+        setTransferStatus(
+          refreshed ? 'Your quote expired. Review the updated quote and confirm again.' : error.message
+        );
+        return;
+      }
+
+      bridgeLogger.error('Transfer error', error);
+      setError(
+        getErrorRecovery(error, {
+          stage: 'transfer',
+          routeName: selectedRoute?.name,
+          chain: CHAINS[sourceChain].name,
+          token: sourceToken,
+          amount,
+        })
+      );
+      setTransferStatus('');
     } finally {
       setIsTransferring(false);
     }
   };
 
+  // Recovery actions the error notice can offer from this screen
+  const errorActions: Partial<Record<RecoveryAction, () => void>> = {
+    [RecoveryAction.RETRY]: showPreview ? handleConfirmTransfer : handlePreviewTransaction,
+    [RecoveryAction.REFRESH_QUOTE]: showPreview ? handleRefreshQuote : handlePreviewTransaction,
+    [RecoveryAction.CONNECT_WALLET]:
+      (sourceIsSolana || destIsSolana) && !solanaWallet.isConnected
+        ? () => {
+            solanaWallet
+              .connect()
+              .then(() => setError(null))
+              .catch((error) => setError(getErrorRecovery(error)));
+          }
+        : openConnectModal,
+    [RecoveryAction.SWITCH_NETWORK]: sourceIsSolana
+      ? undefined
+      : () => {
+          switchChainAsync({ chainId: sourceChain })
+            .then(() => setError(null))
+            .catch((error) => setError(getErrorRecovery(error)));
+        },
+  };
+
   return (
     <div className="w-full max-w-2xl mx-auto p-6">
       <div className="bg-[#1e1e2e] rounded-2xl border border-gray-700 p-6 shadow-2xl">
@@ -312,6 +687,15 @@ export default function Bridge() {
           />
         </div>
 
+        {/* Recipient Section */}
+        <RecipientInput
+          destChain={destChain}
+          value={customRecipient}
+          onChange={setCustomRecipient}
+          connectedAddress={walletRecipient}
+          disabled={showPreview}
+        />
+
         {/* Token and Amount Section */}
         <div className="bg-[#2a2a3e] rounded-lg p-4 mb-4 border border-gray-700">
           <div className="flex items-center justify-between mb-3">
@@ -327,6 +711,25 @@ export default function Bridge() {
             />
           </div>
 
+          {counterparts && (
+            <div className="mb-4 text-xs space-y-1">
+              {counterparts.length === 0 && (
+                <p className="text-orange-400">
+                  {sourceToken} has no Wormhole-wrapped version on {CHAINS[destChain].name} yet - Token Bridge routes may be unavailable
+                </p>
+              )}
+              {counterparts.map((counterpart) => (
+                <p key={counterpart.kind} className="text-gray-400">
+                  {counterpart.kind === 'CCTP'
+                    ? `Arrives as native ${sourceToken} on ${counterpart.chain} via CCTP`
+                    : `Arrives as ${
+                        tokenRegistry.getToken(destChain, counterpart.address)?.symbol ?? `Wormhole-wrapped ${sourceToken}`
+                      } on ${counterpart.chain} via Token Bridge`}
+                </p>
+              ))}
+            </div>
+          )}
+
           <div className="bg-[#1e1e2e] rounded-lg p-4 border border-gray-700">
             <input
               type="text"
@@ -341,18 +744,47 @@ export default function Bridge() {
             <button
               onClick={handleSetMax}
               className="px-4 py-1.5 bg-indigo-600/20 hover:bg-indigo-600/30 text-indigo-400 rounded-lg text-sm font-medium transition-colors"
-              disabled={!isConnected || balance === 0}
+              disabled={!senderAddress || balance === 0}
             >
               MAX
             </button>
           </div>
+
+          {/* Swap Mode */}
+          <div className="mt-4 pt-4 border-t border-gray-700 space-y-3">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={swapMode}
+                onChange={(e) => setSwapMode(e.target.checked)}
+                disabled={showPreview}
+              />
+              Swap to another token on {CHAINS[destChain].name}
+            </label>
+
+            {swapMode && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-400 text-sm">Receive</span>
+                  <TokenSelector chainId={destChain} selectedToken={destTokenSymbol} onTokenChange={setDestToken} />
+                </div>
+                <SwapSettings
+                  slippageBps={slippageBps}
+                  onSlippageChange={setSlippageBps}
+                  deadlineMinutes={deadlineMinutes}
+                  onDeadlineChange={setDeadlineMinutes}
+                  disabled={showPreview}
+                />
+              </>
+            )}
+          </div>
         </div>
 
         {/* Preview Transaction Button */}
         {!showPreview && (
           <button
             onClick={handlePreviewTransaction}
-            disabled={!isConnected || !amount || isTransferring}
+            disabled={!walletsReady || !amount || isTransferring}
             className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-semibold text-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isTransferring ? 'GETTING QUOTE...' : 'PREVIEW TRANSACTION'}
@@ -369,22 +801,85 @@ export default function Bridge() {
                   routes={availableRoutes}
                   selectedRoute={selectedRoute}
                   onSelectRoute={(route) => {
+                    // Update quote when route changes - routes that could not be quoted cannot be selected
+                    const routeQuote = routeData?.routeQuotes.find((candidate) => candidate.key === route.type);
+                    if (!routeQuote?.quote) return;
+
                     setSelectedRoute(route);
-                    // Update quote when route changes
-                    const routeIndex = availableRoutes.findIndex(r => r.type === route.type);
-                    if (routeIndex >= 0 && routeData?.allQuotes[routeIndex]) {
-                      setQuote({
-                        ...routeData.allQuotes[routeIndex],
-                        routeType: route.type,
-                      });
-                    }
+                    setQuote({
+                      ...routeQuote.quote,
+                      routeType: route.type,
+                    });
                   }}
+                  preset={routePreset}
+                  onPresetChange={(preset) => {
+                    setRoutePreset(preset);
+                    if (routeData) setAvailableRoutes(formatRouteOptions(routeData.routeQuotes, preset));
+                  }}
+                />
+              </div>
+            )}
+
+            {/* Destination Token (when the routes can deliver more than one) */}
+            {routeData && routeData.destinationTokens.length > 1 && (
+              <div className="bg-[#2a2a3e] border border-gray-700 rounded-lg p-4">
+                <DestinationTokenSelector
+                  tokens={routeData.destinationTokens}
+                  selectedAddress={routeData.destinationToken?.token.address}
+                  onSelect={handleDestinationTokenChange}
+                  destChainName={CHAINS[destChain].name}
+                  isQuoting={isTransferring}
+                  disabled={isTransferring || isRequoting}
+                />
+              </div>
+            )}
+
+            {/* Native Gas Drop-off (automatic routes only) */}
+            {selectedRoute?.isAutomatic && !selectedRoute.isSwap && (
+              <div className="bg-[#2a2a3e] border border-gray-700 rounded-lg p-4">
+                <NativeGasSelector
+                  value={nativeGas}
+                  onChange={handleNativeGasChange}
+                  nativeCurrency={CHAINS[destChain].nativeCurrency}
+                  destChainName={CHAINS[destChain].name}
+                  isQuoting={isRequoting}
+                  disabled={isTransferring}
+                />
+              </div>
+            )}
+
+            {/* Allowance Mode (ERC-20 tokens on EVM chains) */}
+            {!sourceIsSolana && !isNativeToken && (
+              <div className="bg-[#2a2a3e] border border-gray-700 rounded-lg p-4">
+                <AllowanceModeSelector
+                  value={allowanceMode}
+                  onChange={setAllowanceMode}
+                  tokenSymbol={sourceToken}
+                  disabled={isTransferring}
                 />
               </div>
             )}
 
             <div className="bg-[#2a2a3e] border border-gray-700 rounded-lg p-4">
-              <h3 className="text-lg font-semibold text-white mb-4">Transaction Preview</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-white">Transaction Preview</h3>
+                {isQuoteStale ? (
+                  <button
+                    onClick={handleRefreshQuote}
+                    disabled={isRequoting || isTransferring}
+                    className="text-xs text-orange-400 hover:text-orange-300 disabled:opacity-50"
+                  >
+                    {isRequoting ? 'Refreshing...' : 'Quote expired - refresh'}
+                  </button>
+                ) : (
+                  Number.isFinite(quoteTimeRemaining) && (
+                    <span className="text-xs text-gray-400">
+                      Quote expires in {Math.floor(quoteTimeRemaining / 60000)}:
+                      {String(Math.floor((quoteTimeRemaining % 60000) / 1000)).padStart(2, '0')}
+                    </span>
+                  )
+                )}
+              </div>
 
               {/* Route Type Badge */}
               <div className="mb-4">
@@ -393,6 +888,8 @@ export default function Bridge() {
                   {quote.routeType === 'CCTPRoute' && '⚡ Fast CCTP Route (Manual)'}
                   {quote.routeType === 'AutomaticTokenBridgeRoute' && 'Token Bridge (Automatic)'}
                   {quote.routeType === 'TokenBridgeRoute' && 'Token Bridge (Manual)'}
+                  {quote.routeType === 'MayanRouteSWIFT' && '🔄 Mayan Swift (Swap)'}
+                  {quote.routeType === 'MayanRouteMCTP' && '🔄 Mayan MCTP (Swap)'}
                   {!quote.routeType && 'Standard Route'}
                 </span>
               </div>
@@ -408,14 +905,53 @@ export default function Bridge() {
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-400">You receive:</span>
                   <span className="text-white font-medium">
-                    {(parseFloat(quote.destinationToken.amount.amount) / Math.pow(10, quote.destinationToken.amount.decimals)).toFixed(6)} {sourceToken}
+                    {(parseFloat(quote.destinationToken.amount.amount) / Math.pow(10, quote.destinationToken.amount.decimals)).toFixed(6)} {receivedSymbol}
                   </span>
                 </div>
-                {quote.relayFee && (
+                {(swapDetails || swapMode) && (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">Minimum received:</span>
+                      <span className="text-white font-medium">
+                        {/* Routes that do not swap deliver the quoted amount exactly */}
+                        {(() => {
+                          const minReceived = swapDetails?.minReceived.amount ?? quote.destinationToken.amount;
+                          return (parseFloat(minReceived.amount) / Math.pow(10, minReceived.decimals)).toFixed(6);
+                        })()}{' '}
+                        {receivedSymbol}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">Max slippage:</span>
+                      <span className="text-white font-medium">
+                        {(swapDetails?.slippageBps ?? slippageBps) / 100}%
+                      </span>
+                    </div>
+                    {swapDetails?.deadline && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-400">Refunded if not filled by:</span>
+                        <span className="text-white font-medium">{new Date(swapDetails.deadline).toLocaleTimeString()}</span>
+                      </div>
+                    )}
+                  </>
+                )}
+                <div className="flex justify-between text-sm gap-4">
+                  <span className="text-gray-400">Recipient:</span>
+                  <span className="text-white font-medium truncate">{recipientAddress}</span>
+                </div>
+                {relayFee && (
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-400">Relay fee:</span>
                     <span className="text-orange-400 font-medium">
-                      {(parseFloat(quote.relayFee.amount.amount) / Math.pow(10, quote.relayFee.amount.decimals)).toFixed(6)} {sourceToken}
+                      {(parseFloat(relayFee.amount.amount) / Math.pow(10, relayFee.amount.decimals)).toFixed(6)} {relayFee.token.symbol}
+                    </span>
+                  </div>
+                )}
+                {quote.destinationNativeGas && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Native gas received:</span>
+                    <span className="text-green-400 font-medium">
+                      {(parseFloat(quote.destinationNativeGas.amount) / Math.pow(10, quote.destinationNativeGas.decimals)).toFixed(6)} {CHAINS[destChain].nativeCurrency}
                     </span>
                   </div>
                 )}
@@ -442,35 +978,31 @@ export default function Bridge() {
               <div className="border-t border-gray-700 pt-4 space-y-2">
                 <h4 className="text-sm font-semibold text-gray-300 mb-2">Transaction Steps:</h4>
                 <div className="space-y-2 text-sm">
-                  <div className="flex items-start gap-2">
-                    <span className="text-indigo-400 font-bold">1.</span>
-                    <span className="text-gray-300">
-                      Approve {sourceToken} spending on {CHAINS[sourceChain].name}
-                    </span>
-                  </div>
-                  <div className="flex items-start gap-2">
-                    <span className="text-indigo-400 font-bold">2.</span>
-                    <span className="text-gray-300">
-                      Lock {amount} {sourceToken} in Token Bridge on {CHAINS[sourceChain].name}
-                    </span>
-                  </div>
-                  <div className="flex items-start gap-2">
-                    <span className="text-indigo-400 font-bold">3.</span>
-                    <span className="text-gray-300">
-                      Wormhole relays tokens to {CHAINS[destChain].name}
-                    </span>
-                  </div>
+                  {getTransferSteps({
+                    routeType: quote.routeType,
+                    sourceChain: CHAINS[sourceChain].name,
+                    destChain: CHAINS[destChain].name,
+                    amount,
+                    tokenSymbol: sourceToken,
+                    receivedSymbol,
+                    needsApproval: approvalNeeded,
+                  }).map((step, index) => (
+                    <div key={step} className="flex items-start gap-2">
+                      <span className="text-indigo-400 font-bold">{index + 1}.</span>
+                      <span className="text-gray-300">{step}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
 
             {/* Confirm Button */}
             <button
-              onClick={handleConfirmTransfer}
-              disabled={isTransferring}
+              onClick={isQuoteStale ? handleRefreshQuote : handleConfirmTransfer}
+              disabled={isTransferring || isRequoting}
               className="w-full py-4 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold text-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isTransferring ? 'CONFIRMING TRANSFER...' : 'CONFIRM TRANSFER'}
+              {isTransferring ? 'CONFIRMING TRANSFER...' : isQuoteStale ? 'REFRESH QUOTE' : 'CONFIRM TRANSFER'}
             </button>
 
             {/* Cancel Button */}
@@ -479,6 +1011,7 @@ export default function Bridge() {
                 setShowPreview(false);
                 setQuote(null);
                 setTransferStatus('');
+                setError(null);
               }}
               disabled={isTransferring}
               className="w-full py-2 bg-[#2a2a3e] hover:bg-[#333347] text-gray-300 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
@@ -488,10 +1021,62 @@ export default function Bridge() {
           </div>
         )}
 
+        {/* Error */}
+        {error && (
+          <div className="mt-4">
+            <ErrorNotice error={error} actions={errorActions} disabled={isTransferring || isRequoting} />
+          </div>
+        )}
+
         {/* Transfer Status */}
         {transferStatus && (
           <div className="mt-4 p-3 bg-[#2a2a3e] border border-gray-700 rounded-lg">
             <p className="text-sm text-gray-300">{transferStatus}</p>
+
+            {/* Transfer Progress */}
+            {transferProgress && (
+              <div className="mt-3 space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-gray-400">{transferProgress.message}</span>
+                  <span className="text-gray-400">{transferProgress.percentage ?? 0}%</span>
+                </div>
+                <div className="w-full h-2 bg-[#1e1e2e] rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500 transition-all"
+                    style={{ width: `${transferProgress.percentage ?? 0}%` }}
+                  />
+                </div>
+                {!!transferProgress.estimatedTimeRemaining && (
+                  <p className="text-xs text-gray-500">
+                    About {Math.ceil(transferProgress.estimatedTimeRemaining / 60000)} min remaining
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Manual Claim */}
+        {lastReceipt?.route.requiresManualClaim && (
+          <div className="mt-4">
+            <ClaimTransfer key={lastReceipt.txHash} receipt={lastReceipt} />
+          </div>
+        )}
+
+        {/* Token Allowances (ERC-20 tokens on EVM chains) */}
+        {!sourceIsSolana && !isNativeToken && address && selectedTokenInfo && (
+          <div className="mt-4">
+            <button
+              onClick={() => setShowAllowances(!showAllowances)}
+              className="text-sm text-indigo-400 hover:text-indigo-300"
+            >
+              {showAllowances ? 'Hide' : 'Manage'} {sourceToken} allowances
+            </button>
+            {showAllowances && (
+              <div className="mt-2">
+                <RevokeAllowances chainId={sourceChain} token={selectedTokenInfo} owner={address} />
+              </div>
+            )}
           </div>
         )}
 
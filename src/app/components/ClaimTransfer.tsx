@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount, useSwitchChain } from 'wagmi';
+import { getWalletClient } from 'wagmi/actions';
+import ChainSelector from './ChainSelector';
+import ErrorNotice from './ErrorNotice';
+import { CHAINS, DEFAULT_SOURCE_CHAIN, type ChainId } from '../lib/chains';
+import { bridgeLogger } from '../lib/logger';
+import { NETWORK } from '../lib/network';
+import { RPC_URLS } from '../lib/rpc';
+import { createWormholeSigner } from '../lib/wormhole';
+import { config } from '../wagmi';
+import { transferHistory } from '../lib/transfer-history';
+import { useSolanaWallet } from '../lib/solana-wallet';
+import {
+  RouteType,
+  TransferService,
+  CHAIN_PLATFORMS,
+  ChainNotSupportedError,
+  RecoveryAction,
+  TransferStatusEnum,
+  WalletNotConnectedError,
+  createSolanaSigner,
+  getBlockExplorerUrl,
+  getErrorRecovery,
+  getEvmChainId,
+  type ErrorRecovery,
+  type TransferProgress,
+  type TransferReceipt,
+} from '@/lib/wormhole-sdk';
+
+const transferService = new TransferService({ network: NETWORK, rpcUrls: RPC_URLS });
+const logger = bridgeLogger.child('claim');
+
+const MANUAL_ROUTES = [
+  { type: RouteType.CCTP_MANUAL, label: 'CCTP (Manual)' },
+  { type: RouteType.TOKEN_BRIDGE_MANUAL, label: 'Token Bridge (Manual)' },
+];
+
+interface ClaimTransferProps {
+  // Receipt of a transfer just made - when omitted the user enters the origin tx hash
+  receipt?: TransferReceipt;
+  onClaimed?: (destinationTxHash?: string) => void;
+}
+
+export default function ClaimTransfer({ receipt, onClaimed }: ClaimTransferProps) {
+  const [sourceChain, setSourceChain] = useState<ChainId>(DEFAULT_SOURCE_CHAIN);
+  const [txHash, setTxHash] = useState('');
+  const [routeType, setRouteType] = useState<RouteType>(RouteType.CCTP_MANUAL);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const [error, setError] = useState<ErrorRecovery | null>(null);
+  const [claimTxUrl, setClaimTxUrl] = useState('');
+
+  const { isConnected } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+  const solanaWallet = useSolanaWallet();
+
+  const handleClaim = async () => {
+    try {
+      setIsClaiming(true);
+      setError(null);
+      setClaimTxUrl('');
+
+      // Find the transfer from its origin tx hash if we don't already have a receipt
+      const claimReceipt = receipt ?? await transferService.resumeTransfer({
+        chain: CHAINS[sourceChain].name,
+        txHash: txHash.trim(),
+        routeType,
+      });
+
+      const destChain = claimReceipt.destChain;
+      const destPlatform = destChain ? CHAIN_PLATFORMS[destChain] : undefined;
+      if (!destChain || !destPlatform) {
+        throw new ChainNotSupportedError(destChain ?? 'unknown', { receipt: claimReceipt });
+      }
+
+      // Redeeming happens on the destination chain - check the wallet can sign there up front
+      const destChainId = destPlatform === 'Solana' ? undefined : getEvmChainId(destChain, NETWORK);
+      if (destPlatform === 'Solana') {
+        if (!solanaWallet.wallet || !solanaWallet.isConnected) {
+          throw new WalletNotConnectedError({ chain: destChain });
+        }
+      } else if (!destChainId) {
+        throw new ChainNotSupportedError(destChain, { network: NETWORK });
+      }
+
+      // ...but only switch the wallet once the attestation is ready and there is something to sign
+      const getSigner = async () => {
+        if (!destChainId) {
+          return createSolanaSigner(solanaWallet.wallet!, await transferService.getWormhole());
+        }
+        setProgress({ status: TransferStatusEnum.CLAIMING, message: `Switching wallet to ${destChain}...` });
+        await switchChainAsync({ chainId: destChainId });
+        const walletClient = await getWalletClient(config, { chainId: destChainId });
+        return createWormholeSigner(walletClient, null, destChain);
+      };
+
+      const destTxHash = await transferService.claimOnDestination(claimReceipt, getSigner, setProgress);
+      // No hash when the transfer had already been claimed elsewhere
+      if (destTxHash) setClaimTxUrl(getBlockExplorerUrl(destTxHash, destChain, NETWORK));
+
+      await transferHistory.save(claimReceipt, {
+        status: TransferStatusEnum.COMPLETED,
+        ...(destTxHash && { destinationTxHash: destTxHash }),
+      });
+      onClaimed?.(destTxHash);
+    } catch (err) {
+      logger.error('Claim error', err);
+      setError(getErrorRecovery(err, { stage: 'claim', chain: receipt?.destChain }));
+      setProgress(null);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#2a2a3e] border border-gray-700 rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Claim on Destination</h3>
+        <p className="text-xs text-gray-400 mt-1">
+          Manual routes need a second transaction on the destination chain once the attestation is ready.
+        </p>
+      </div>
+
+      {!receipt && (
+        <>
+          <div>
+            <span className="text-gray-400 text-sm block mb-2">Source chain</span>
+            <ChainSelector selectedChain={sourceChain} onChainChange={setSourceChain} />
+          </div>
+
+          <div>
+            <span className="text-gray-400 text-sm block mb-2">Route</span>
+            <div className="flex gap-2">
+              {MANUAL_ROUTES.map((route) => (
+                <button
+                  key={route.type}
+                  onClick={() => setRouteType(route.type)}
+                  className={`flex-1 px-3 py-2 rounded-lg border text-sm transition-all ${
+                    routeType === route.type
+                      ? 'border-indigo-500 bg-indigo-500/10 text-white'
+                      : 'border-gray-700 bg-[#1e1e2e] text-gray-300 hover:border-gray-600'
+                  }`}
+                >
+                  {route.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-[#1e1e2e] rounded-lg p-3 border border-gray-700">
+            <input
+              type="text"
+              value={txHash}
+              onChange={(e) => setTxHash(e.target.value)}
+              className="w-full bg-transparent text-white text-sm outline-none"
+              placeholder="Origin transaction hash or Solana signature"
+            />
+          </div>
+        </>
+      )}
+
+      <button
+        onClick={handleClaim}
+        disabled={(!isConnected && !solanaWallet.isConnected) || isClaiming || (!receipt && !txHash.trim())}
+        className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isClaiming ? 'CLAIMING...' : 'CLAIM TOKENS'}
+      </button>
+
+      {progress && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-400">{progress.message}</span>
+            {progress.percentage !== undefined && (
+              <span className="text-gray-400">{progress.percentage}%</span>
+            )}
+          </div>
+          <div className="w-full h-2 bg-[#1e1e2e] rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-500 transition-all"
+              style={{ width: `${progress.percentage ?? 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {claimTxUrl && (
+        <a
+          href={claimTxUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block text-sm text-indigo-400 hover:text-indigo-300 underline"
+        >
+          View claim transaction →
+        </a>
+      )}
+
+      {error && (
+        <ErrorNotice
+          error={error}
+          // Claiming switches the wallet to the destination chain itself
+          actions={{ [RecoveryAction.RETRY]: handleClaim, [RecoveryAction.SWITCH_NETWORK]: handleClaim }}
+          disabled={isClaiming}
+        />
+      )}
+    </div>
+  );
+}
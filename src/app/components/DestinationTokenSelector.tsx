@@ -0,0 +1,66 @@
+'use client';
+
+import type { DestinationToken } from '@/lib/wormhole-sdk';
+
+interface DestinationTokenSelectorProps {
+  tokens: DestinationToken[];
+  selectedAddress?: string;
+  onSelect: (destination: DestinationToken) => void;
+  destChainName: string;
+  isQuoting?: boolean;
+  disabled?: boolean;
+}
+
+export default function DestinationTokenSelector({
+  tokens,
+  selectedAddress,
+  onSelect,
+  destChainName,
+  isQuoting = false,
+  disabled = false,
+}: DestinationTokenSelectorProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">Receive as</h3>
+        {isQuoting && <span className="text-xs text-gray-400">Updating quote...</span>}
+      </div>
+      <p className="text-xs text-gray-500">
+        The routes can deliver any of these tokens on {destChainName}. Wrapped tokens may need swapping to be used.
+      </p>
+      <div className="space-y-2 max-h-48 overflow-y-auto">
+        {tokens.map((destination) => {
+          const { token, kind } = destination;
+          const isSelected = token.address.toLowerCase() === selectedAddress?.toLowerCase();
+
+          return (
+            <button
+              key={token.address}
+              onClick={() => onSelect(destination)}
+              disabled={disabled || isSelected}
+              className={`w-full flex items-center gap-3 p-3 rounded-lg border text-left transition-colors disabled:cursor-not-allowed ${
+                isSelected
+                  ? 'border-indigo-500 bg-indigo-600/20'
+                  : 'border-gray-700 bg-[#1e1e2e] hover:bg-[#333347] disabled:opacity-50'
+              }`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-white font-medium">{token.symbol}</span>
+                  <span
+                    className={`px-2 py-0.5 text-xs rounded ${
+                      kind === 'WRAPPED' ? 'bg-orange-600/20 text-orange-300' : 'bg-green-600/20 text-green-300'
+                    }`}
+                  >
+                    {kind === 'WRAPPED' ? 'Wormhole-wrapped' : 'Native'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-400 truncate">{token.address}</div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
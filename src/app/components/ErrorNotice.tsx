@@ -0,0 +1,45 @@
+'use client';
+
+import { RecoveryAction, type ErrorRecovery } from '@/lib/wormhole-sdk';
+
+interface ErrorNoticeProps {
+  error: ErrorRecovery;
+  // Handlers for the recovery actions this screen can perform - other actions only show their hint
+  actions?: Partial<Record<RecoveryAction, () => void>>;
+  disabled?: boolean;
+}
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  [RecoveryAction.RETRY]: 'Try again',
+  [RecoveryAction.REFRESH_QUOTE]: 'Refresh quote',
+  [RecoveryAction.CONNECT_WALLET]: 'Connect wallet',
+  [RecoveryAction.SWITCH_NETWORK]: 'Switch network',
+  [RecoveryAction.APPROVE_TOKEN]: 'Approve',
+  [RecoveryAction.REDUCE_AMOUNT]: 'Edit amount',
+  [RecoveryAction.CHANGE_ROUTE]: 'Choose route',
+  [RecoveryAction.EDIT_REQUEST]: 'Edit transfer',
+  [RecoveryAction.CHECK_STATUS]: 'Check status',
+  [RecoveryAction.NONE]: '',
+};
+
+export default function ErrorNotice({ error, actions = {}, disabled = false }: ErrorNoticeProps) {
+  const onAction = actions[error.action];
+
+  return (
+    <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg space-y-2">
+      <p className="text-sm text-red-400">{error.message}</p>
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-400">{error.hint}</p>
+        {onAction && (
+          <button
+            onClick={onAction}
+            disabled={disabled}
+            className="shrink-0 px-3 py-1 text-xs font-semibold text-white bg-red-700 hover:bg-red-600 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {ACTION_LABELS[error.action]}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+interface NativeGasSelectorProps {
+  // Fraction (0-1) of the transferred amount swapped for native gas
+  value: number;
+  onChange: (nativeGas: number) => void;
+  nativeCurrency: string;
+  destChainName: string;
+  isQuoting?: boolean;
+  disabled?: boolean;
+}
+
+const PRESETS = [0, 0.1, 0.25, 0.5];
+
+export default function NativeGasSelector({
+  value,
+  onChange,
+  nativeCurrency,
+  destChainName,
+  isQuoting = false,
+  disabled = false,
+}: NativeGasSelectorProps) {
+  const percent = Math.round(value * 100);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300">Native gas drop-off</h3>
+        <span className="text-xs text-gray-400">{isQuoting ? 'Updating quote...' : `${percent}%`}</span>
+      </div>
+      <p className="text-xs text-gray-500">
+        Convert part of the transfer to {nativeCurrency} so you can pay for gas on {destChainName}.
+      </p>
+
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={5}
+        value={percent}
+        onChange={(e) => onChange(Number(e.target.value) / 100)}
+        disabled={disabled}
+        className="w-full accent-indigo-500"
+        aria-label="Native gas drop-off"
+      />
+
+      <div className="flex gap-2">
+        {PRESETS.map((preset) => (
+          <button
+            key={preset}
+            onClick={() => onChange(preset)}
+            disabled={disabled}
+            className={`flex-1 py-1 rounded-lg border text-xs font-medium transition-colors ${
+              preset === value
+                ? 'border-indigo-500 bg-indigo-500/10 text-white'
+                : 'border-gray-700 text-gray-400 hover:border-gray-600'
+            }`}
+          >
+            {preset === 0 ? 'None' : `${preset * 100}%`}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
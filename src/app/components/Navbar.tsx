@@ -1,17 +1,42 @@
 'use client';
 
+import Link from 'next/link';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
+import SolanaConnectButton from './SolanaConnectButton';
+import { NETWORK } from '../lib/network';
 
 export default function Navbar() {
   return (
     <nav className="w-full border-b border-gray-800 bg-[#1a1a2e]">
       <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <div className="text-2xl font-bold text-indigo-400">Wormhole</div>
-          <div className="text-sm text-gray-400">Bridge</div>
+        <div className="flex items-center gap-8">
+          <Link href="/" className="flex items-center gap-2">
+            <div className="text-2xl font-bold text-indigo-400">Wormhole</div>
+            <div className="text-sm text-gray-400">Bridge</div>
+            {NETWORK !== 'Mainnet' && (
+              <span className="px-2 py-0.5 rounded-full border border-orange-500/30 bg-orange-600/10 text-xs font-medium text-orange-400">
+                {NETWORK}
+              </span>
+            )}
+          </Link>
+
+          <div className="flex items-center gap-4 text-sm">
+            <Link href="/" className="text-gray-300 hover:text-white transition-colors">
+              Bridge
+            </Link>
+            <Link href="/claim" className="text-gray-300 hover:text-white transition-colors">
+              Claim
+            </Link>
+            <Link href="/transfers" className="text-gray-300 hover:text-white transition-colors">
+              My Transfers
+            </Link>
+          </div>
         </div>
 
-        <ConnectButton />
+        <div className="flex items-center gap-3">
+          <SolanaConnectButton />
+          <ConnectButton />
+        </div>
       </div>
     </nav>
   );
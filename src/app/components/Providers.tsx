@@ -4,11 +4,18 @@ import '@rainbow-me/rainbowkit/styles.css';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { WagmiProvider } from 'wagmi';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
+import { useEffect } from 'react';
 import { config } from '../wagmi';
+import { resumePendingTransfers } from '../lib/transfer-history';
 
 const queryClient = new QueryClient();
 
 export function Providers({ children }: { children: React.ReactNode }) {
+  // Keep tracking transfers left in flight by a reload, whichever page the app opens on
+  useEffect(() => {
+    resumePendingTransfers();
+  }, []);
+
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
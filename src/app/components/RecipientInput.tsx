@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CHAINS, type ChainId } from '../lib/chains';
+import { bridgeLogger } from '../lib/logger';
+import { NETWORK } from '../lib/network';
+import { RPC_URLS } from '../lib/rpc';
+import {
+  loadAddressBook,
+  removeRecipient,
+  saveRecipient,
+  type SavedRecipient,
+} from '../lib/address-book';
+import { RecipientService, getAddressError, type RecipientWarning } from '@/lib/wormhole-sdk';
+
+const recipientService = new RecipientService({ network: NETWORK, rpcUrls: RPC_URLS });
+const logger = bridgeLogger.child('recipient');
+
+interface RecipientInputProps {
+  destChain: ChainId;
+  // Custom recipient - empty means the connected wallet
+  value: string;
+  onChange: (address: string) => void;
+  connectedAddress?: string | null;
+  // Locked while a quote for the current recipient is shown
+  disabled?: boolean;
+}
+
+export default function RecipientInput({
+  destChain,
+  value,
+  onChange,
+  connectedAddress,
+  disabled = false,
+}: RecipientInputProps) {
+  const [isCustom, setIsCustom] = useState(!!value);
+  const [warnings, setWarnings] = useState<RecipientWarning[]>([]);
+  const [addressBook, setAddressBook] = useState<SavedRecipient[]>([]);
+  const [label, setLabel] = useState('');
+
+  const chain = CHAINS[destChain];
+  const address = value.trim();
+  const error = address ? getAddressError(address, chain.name) : null;
+  const savedForPlatform = addressBook.filter((r) => r.platform === chain.platform);
+  const isSaved = savedForPlatform.some((r) => r.address === address);
+
+  useEffect(() => {
+    setAddressBook(loadAddressBook());
+  }, []);
+
+  // Look the recipient up on the destination chain once the user stops typing
+  useEffect(() => {
+    setWarnings([]);
+    if (!address || error) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      recipientService
+        .checkRecipient(chain.name, address)
+        .then((result) => !cancelled && setWarnings(result))
+        .catch((err) => logger.warn('Recipient check failed', err));
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [address, error, chain.name]);
+
+  const handleToggle = () => {
+    if (isCustom) onChange('');
+    setIsCustom(!isCustom);
+  };
+
+  const handleSave = () => {
+    if (!address || error) return;
+    setAddressBook(saveRecipient({ label: label.trim() || address.slice(0, 8), address, platform: chain.platform }));
+    setLabel('');
+  };
+
+  return (
+    <div className="bg-[#2a2a3e] rounded-lg p-4 mb-4 border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-400 text-sm">Recipient on {chain.name}</span>
+        <button
+          onClick={handleToggle}
+          disabled={disabled}
+          className="text-indigo-400 hover:text-indigo-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isCustom ? 'Use my wallet' : 'Send to another address'}
+        </button>
+      </div>
+
+      {!isCustom ? (
+        <p className="text-sm text-gray-300 truncate">
+          {connectedAddress ?? `Connect a ${chain.platform === 'Solana' ? 'Solana' : 'EVM'} wallet`}
+        </p>
+      ) : (
+        <>
+          <div className="bg-[#1e1e2e] rounded-lg p-3 border border-gray-700">
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              disabled={disabled}
+              className="w-full bg-transparent text-white text-sm outline-none disabled:opacity-50"
+              placeholder={chain.platform === 'Solana' ? 'Solana address' : '0x...'}
+            />
+          </div>
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {warnings.map((warning) => (
+            <p key={warning.code} className="text-xs text-orange-400">⚠ {warning.message}</p>
+          ))}
+
+          {address && !error && !isSaved && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="flex-1 bg-[#1e1e2e] rounded-lg px-3 py-1.5 border border-gray-700 text-white text-xs outline-none"
+                placeholder="Label (e.g. Treasury multisig)"
+              />
+              <button
+                onClick={handleSave}
+                className="px-3 py-1.5 bg-indigo-600/20 hover:bg-indigo-600/30 text-indigo-400 rounded-lg text-xs font-medium transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          )}
+
+          {savedForPlatform.length > 0 && (
+            <div className="space-y-1">
+              <span className="text-xs text-gray-500">Address book</span>
+              {savedForPlatform.map((recipient) => (
+                <div key={recipient.address} className="flex items-center gap-2 text-xs">
+                  <button
+                    onClick={() => onChange(recipient.address)}
+                    disabled={disabled}
+                    className={`flex-1 min-w-0 text-left px-2 py-1 rounded border transition-colors ${
+                      recipient.address === address
+                        ? 'border-indigo-500 bg-indigo-500/10 text-white'
+                        : 'border-gray-700 text-gray-300 hover:border-gray-600'
+                    }`}
+                  >
+                    <span className="font-medium">{recipient.label}</span>{' '}
+                    <span className="text-gray-500 truncate">{recipient.address}</span>
+                  </button>
+                  <button
+                    onClick={() => setAddressBook(removeRecipient(recipient))}
+                    className="text-gray-500 hover:text-gray-300"
+                    aria-label={`Remove ${recipient.label}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
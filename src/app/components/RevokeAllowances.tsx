@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSwitchChain } from 'wagmi';
+import { getWalletClient } from 'wagmi/actions';
+import { formatUnits } from 'viem';
+import ErrorNotice from './ErrorNotice';
+import { CHAINS, type ChainId } from '../lib/chains';
+import { approvalService } from '../lib/approvals';
+import { bridgeLogger } from '../lib/logger';
+import { useBridgeEvent } from '../lib/use-bridge-events';
+import { createWormholeSigner } from '../lib/wormhole';
+import { config } from '../wagmi';
+import {
+  BridgeEventType,
+  MAX_UINT256,
+  ROUTE_METADATA,
+  RecoveryAction,
+  getErrorRecovery,
+  type ErrorRecovery,
+  type RouteAllowance,
+  type Token,
+} from '@/lib/wormhole-sdk';
+
+const logger = bridgeLogger.child('allowances');
+
+interface RevokeAllowancesProps {
+  chainId: ChainId;
+  token: Token;
+  owner: string;
+}
+
+export default function RevokeAllowances({ chainId, token, owner }: RevokeAllowancesProps) {
+  const [allowances, setAllowances] = useState<RouteAllowance[] | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorRecovery | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const { switchChainAsync } = useSwitchChain();
+  const chainName = CHAINS[chainId].name;
+
+  // Current allowance of each route contract
+  useEffect(() => {
+    let cancelled = false;
+    setAllowances(null);
+    approvalService
+      .getRouteAllowances(chainName, token, owner)
+      .then((result) => !cancelled && setAllowances(result))
+      .catch((err) => !cancelled && setError(getErrorRecovery(err, { chain: chainName })));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chainName, token, owner, reloadKey]);
+
+  // Reload after any approval or revoke of this token, including the bridge's own
+  useBridgeEvent(BridgeEventType.APPROVAL_CONFIRMED, ({ data }) => {
+    if (data.chain === chainName && data.token === token.symbol) setReloadKey((key) => key + 1);
+  });
+
+  const handleRevoke = async (spender: string) => {
+    try {
+      setRevoking(spender);
+      setError(null);
+
+      await switchChainAsync({ chainId });
+      const walletClient = await getWalletClient(config, { chainId });
+      const signer = await createWormholeSigner(walletClient, null, chainName);
+      await approvalService.revoke(chainName, token, spender, signer);
+    } catch (err) {
+      logger.error('Revoke error', err);
+      setError(getErrorRecovery(err, { stage: 'approve', chain: chainName, token: token.symbol }));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const formatAllowance = (allowance: bigint) => {
+    if (allowance === MAX_UINT256) return 'Unlimited';
+    if (allowance === 0n) return 'None';
+    return `${formatUnits(allowance, token.decimals)} ${token.symbol}`;
+  };
+
+  return (
+    <div className="bg-[#2a2a3e] border border-gray-700 rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-300">
+        {token.symbol} allowances on {chainName}
+      </h3>
+
+      {!allowances && !error && <p className="text-xs text-gray-400">Loading allowances...</p>}
+
+      {allowances?.map(({ spender, routeTypes, allowance }) => (
+        <div key={spender} className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-sm text-white">{routeTypes.map((type) => ROUTE_METADATA[type].name).join(', ')}</p>
+            <p className="text-xs text-gray-500 truncate">{spender}</p>
+            <p className="text-xs text-gray-400">{formatAllowance(allowance)}</p>
+          </div>
+          <button
+            onClick={() => handleRevoke(spender)}
+            disabled={allowance === 0n || revoking !== null}
+            className="shrink-0 px-3 py-1 text-xs font-semibold text-white bg-red-700 hover:bg-red-600 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {revoking === spender ? 'REVOKING...' : 'REVOKE'}
+          </button>
+        </div>
+      ))}
+
+      {error && (
+        <ErrorNotice
+          error={error}
+          actions={{ [RecoveryAction.RETRY]: () => setReloadKey((key) => key + 1) }}
+          disabled={revoking !== null}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 'use client';
 
+import type { RouteScorePreset } from '@/lib/wormhole-sdk';
+
 export interface RouteOption {
   type: string;
   name: string;
@@ -7,31 +9,74 @@ export interface RouteOption {
   fee: string;
   feeAmount: number;
   estimatedTime: string;
+  etaMs: number;
   isAutomatic: boolean;
+  isSwap: boolean; // delivers another token - no native gas drop-off
+  minReceived?: string; // swap routes, e.g. "99.500000 USDC"
+  costUsd?: number; // USD sent plus fees paid on top, less USD received - set when every token has a price
+  score?: number; // 0-100, set for routes that could be quoted
+  isBest?: boolean;
+  pros: string[];
+  cons: string[];
+  error?: string; // why the route could not be quoted - it cannot be selected
 }
 
 interface RouteSelectorProps {
   routes: RouteOption[];
   selectedRoute: RouteOption | null;
   onSelectRoute: (route: RouteOption) => void;
+  preset: RouteScorePreset;
+  onPresetChange: (preset: RouteScorePreset) => void;
 }
 
-export default function RouteSelector({ routes, selectedRoute, onSelectRoute }: RouteSelectorProps) {
+const PRESET_LABELS: Record<RouteScorePreset, string> = {
+  balanced: 'Balanced',
+  cheapest: 'Cheapest',
+  fastest: 'Fastest',
+};
+
+export default function RouteSelector({
+  routes,
+  selectedRoute,
+  onSelectRoute,
+  preset,
+  onPresetChange,
+}: RouteSelectorProps) {
   if (routes.length === 0) return null;
 
   return (
     <div className="space-y-3">
-      <h4 className="text-sm font-medium text-gray-300">Select Route</h4>
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-300">Select Route</h4>
+        <div className="flex gap-1">
+          {(Object.keys(PRESET_LABELS) as RouteScorePreset[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => onPresetChange(option)}
+              className={`px-2 py-0.5 rounded text-xs border transition-all ${
+                preset === option
+                  ? 'border-indigo-500 bg-indigo-500/10 text-indigo-300'
+                  : 'border-gray-700 text-gray-400 hover:border-gray-600'
+              }`}
+            >
+              {PRESET_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
 
       <div className="space-y-2">
-        {routes.map((route, index) => (
+        {routes.map((route) => (
           <button
-            key={index}
+            key={route.type}
             onClick={() => onSelectRoute(route)}
+            disabled={!!route.error}
             className={`w-full text-left p-3 rounded-lg border transition-all ${
-              selectedRoute?.type === route.type
-                ? 'border-indigo-500 bg-indigo-500/10'
-                : 'border-gray-700 bg-[#1e1e2e] hover:border-gray-600'
+              route.error
+                ? 'border-gray-800 bg-[#1e1e2e] opacity-60 cursor-not-allowed'
+                : selectedRoute?.type === route.type
+                  ? 'border-indigo-500 bg-indigo-500/10'
+                  : 'border-gray-700 bg-[#1e1e2e] hover:border-gray-600'
             }`}
           >
             <div className="flex items-start justify-between mb-1">
@@ -47,9 +92,21 @@ export default function RouteSelector({ routes, selectedRoute, onSelectRoute }:
                     Manual
                   </span>
                 )}
+                {route.isSwap && (
+                  <span className="px-2 py-0.5 bg-purple-600/20 border border-purple-500/30 rounded text-xs text-purple-300">
+                    Swap
+                  </span>
+                )}
+                {route.isBest && (
+                  <span className="px-2 py-0.5 bg-indigo-600/20 border border-indigo-500/30 rounded text-xs text-indigo-300">
+                    Best
+                  </span>
+                )}
               </div>
 
-              {route.feeAmount > 0 ? (
+              {route.error ? (
+                <span className="text-sm font-medium text-gray-500">Unavailable</span>
+              ) : route.feeAmount > 0 ? (
                 <span className="text-sm font-medium text-orange-400">{route.fee}</span>
               ) : (
                 <span className="text-sm font-medium text-green-400">Free</span>
@@ -58,8 +115,26 @@ export default function RouteSelector({ routes, selectedRoute, onSelectRoute }:
 
             <p className="text-xs text-gray-400 mb-1">{route.description}</p>
 
+            {route.error && <p className="text-xs text-red-400 mb-1">{route.error}</p>}
+
+            {(route.pros.length > 0 || route.cons.length > 0) && (
+              <ul className="text-xs mb-1 space-y-0.5">
+                {route.pros.map((pro) => (
+                  <li key={pro} className="text-green-400">+ {pro}</li>
+                ))}
+                {route.cons.map((con) => (
+                  <li key={con} className="text-yellow-400">− {con}</li>
+                ))}
+              </ul>
+            )}
+
             <div className="flex items-center justify-between text-xs">
-              <span className="text-gray-500">Est. time: {route.estimatedTime}</span>
+              <span className="text-gray-500">
+                Est. time: {route.estimatedTime}
+                {route.minReceived && <> · Min. received: {route.minReceived}</>}
+                {route.costUsd !== undefined && <> · Total cost: ~${Math.max(route.costUsd, 0).toFixed(2)}</>}
+                {route.score !== undefined && <> · Score: {route.score}/100</>}
+              </span>
               {selectedRoute?.type === route.type && (
                 <span className="text-indigo-400">✓ Selected</span>
               )}
@@ -0,0 +1,32 @@
+'use client';
+
+import { bridgeLogger } from '../lib/logger';
+import { useSolanaWallet } from '../lib/solana-wallet';
+
+const logger = bridgeLogger.child('solana');
+
+export default function SolanaConnectButton() {
+  const { address, isConnected, isAvailable, connect, disconnect } = useSolanaWallet();
+
+  if (!isAvailable) {
+    return (
+      <a
+        href="https://phantom.app"
+        target="_blank"
+        rel="noopener noreferrer"
+        className="px-4 py-2 bg-[#2a2a3e] border border-gray-700 rounded-lg text-sm text-gray-400 hover:text-white transition-colors"
+      >
+        Get a Solana wallet
+      </a>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => (isConnected ? disconnect() : connect()).catch((error) => logger.error('Solana wallet error', error))}
+      className="px-4 py-2 bg-[#2a2a3e] hover:bg-[#333347] border border-gray-700 rounded-lg text-sm font-medium text-white transition-colors"
+    >
+      {isConnected && address ? `◎ ${address.slice(0, 4)}...${address.slice(-4)}` : 'Connect Solana'}
+    </button>
+  );
+}
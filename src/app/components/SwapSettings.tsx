@@ -0,0 +1,68 @@
+'use client';
+
+import { FEES, TIMING } from '@/lib/wormhole-sdk';
+
+interface SwapSettingsProps {
+  slippageBps: number;
+  onSlippageChange: (slippageBps: number) => void;
+  deadlineMinutes: number;
+  onDeadlineChange: (minutes: number) => void;
+  disabled?: boolean;
+}
+
+// Only offer presets within the limits routes are checked against
+const SLIPPAGE_PRESETS = FEES.SLIPPAGE_PRESETS_BPS.filter(
+  (bps) => bps >= FEES.MIN_SLIPPAGE_BPS && bps <= FEES.MAX_SLIPPAGE_BPS
+);
+
+export default function SwapSettings({
+  slippageBps,
+  onSlippageChange,
+  deadlineMinutes,
+  onDeadlineChange,
+  disabled = false,
+}: SwapSettingsProps) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="block text-xs text-gray-400 mb-1">Max slippage</span>
+        <div className="grid grid-cols-4 gap-2">
+          {SLIPPAGE_PRESETS.map((bps) => (
+            <button
+              key={bps}
+              onClick={() => onSlippageChange(bps)}
+              disabled={disabled}
+              className={`py-1.5 rounded-lg border text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                slippageBps === bps
+                  ? 'border-indigo-500 bg-indigo-600/20 text-white'
+                  : 'border-gray-700 bg-[#1e1e2e] text-gray-300 hover:bg-[#333347]'
+              }`}
+            >
+              {bps / 100}%
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center justify-between text-xs text-gray-400">
+        <span>Deadline</span>
+        <select
+          value={deadlineMinutes}
+          onChange={(e) => onDeadlineChange(Number(e.target.value))}
+          disabled={disabled}
+          className="bg-[#1e1e2e] border border-gray-700 rounded-lg px-2 py-1 text-sm text-white outline-none"
+        >
+          {TIMING.DEADLINE_PRESETS_MINUTES.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes < 60 ? `${minutes} min` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <p className="text-xs text-gray-500">
+        Routes that could move the price by more than this, or deliver after the deadline, are not offered.
+      </p>
+    </div>
+  );
+}
@@ -56,9 +56,11 @@ export default function TokenSelector({ chainId, selectedToken, onTokenChange }:
                   {token.slice(0, 1)}
                 </div>
                 <div className="flex-1 min-w-0">
-                  <div className="text-white font-medium">{token}</div>
+                  <div className="text-white font-medium">
+                    {token} <span className="text-gray-400 text-sm font-normal">{tokens[token]?.name}</span>
+                  </div>
                   <div className="text-xs text-gray-400 truncate">
-                    {tokens[token as keyof typeof tokens]?.address}
+                    {tokens[token]?.address}
                   </div>
                 </div>
               </button>
@@ -0,0 +1,160 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import ClaimTransfer from './ClaimTransfer';
+import { transferHistory, watchTransfer } from '../lib/transfer-history';
+import { bridgeLogger } from '../lib/logger';
+import {
+  TransferStatusEnum,
+  isTransferPending,
+  type TransferProgress,
+  type TransferRecord,
+} from '@/lib/wormhole-sdk';
+
+const logger = bridgeLogger.child('history');
+
+const STATUS_STYLES: Partial<Record<TransferStatusEnum, string>> = {
+  [TransferStatusEnum.COMPLETED]: 'text-green-400 border-green-500/30 bg-green-600/10',
+  [TransferStatusEnum.FAILED]: 'text-red-400 border-red-500/30 bg-red-600/10',
+  [TransferStatusEnum.CANCELLED]: 'text-gray-400 border-gray-500/30 bg-gray-600/10',
+  [TransferStatusEnum.CLAIMING]: 'text-orange-400 border-orange-500/30 bg-orange-600/10',
+};
+
+export default function TransferHistoryList() {
+  const [records, setRecords] = useState<TransferRecord[]>([]);
+  const [progress, setProgress] = useState<Record<string, TransferProgress>>({});
+  const [claiming, setClaiming] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setRecords(await transferHistory.list());
+  }, []);
+
+  // Follow every in-flight transfer - the providers resume tracking them on every page, this
+  // only shows their progress. Statuses are saved before listeners hear of them.
+  useEffect(() => {
+    const unwatchers: (() => void)[] = [];
+    let unmounted = false;
+
+    const watch = async () => {
+      await refresh();
+      setIsLoading(false);
+
+      const inFlight = await transferHistory.listInFlight();
+      if (unmounted) return;
+      for (const record of inFlight) {
+        const { txHash } = record.receipt;
+        const { unwatch } = watchTransfer(record.receipt, (update) => {
+          setProgress((current) => ({ ...current, [txHash]: update }));
+          refresh().catch((error) => logger.warn('Could not reload transfers', error));
+        });
+        unwatchers.push(unwatch);
+      }
+    };
+
+    watch().catch((error) => logger.error('Could not load transfers', error));
+    return () => {
+      unmounted = true;
+      unwatchers.forEach((unwatch) => unwatch());
+    };
+  }, [refresh]);
+
+  const handleRemove = async (txHash: string) => {
+    await transferHistory.remove(txHash);
+    await refresh();
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-400">Loading transfers...</p>;
+  }
+
+  if (records.length === 0) {
+    return (
+      <div className="bg-[#2a2a3e] border border-gray-700 rounded-lg p-6 text-center">
+        <p className="text-gray-400 text-sm">No transfers yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {records.map((record) => {
+        const { receipt } = record;
+        const origin = receipt.originTxs[receipt.originTxs.length - 1];
+        const recordProgress = progress[receipt.txHash];
+        const canClaim = receipt.route.requiresManualClaim && isTransferPending(record.status);
+
+        return (
+          <div key={receipt.txHash} className="bg-[#2a2a3e] border border-gray-700 rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="text-white font-medium">
+                  {record.amount ?? ''} {record.tokenSymbol ?? ''}{' '}
+                  <span className="text-gray-400 font-normal">
+                    {origin?.chain ?? '?'} → {receipt.destChain ?? '?'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {receipt.route.name} · {new Date(receipt.timestamp).toLocaleString()}
+                </div>
+              </div>
+              <span
+                className={`px-2 py-0.5 rounded-full border text-xs font-medium ${
+                  STATUS_STYLES[record.status] ?? 'text-indigo-300 border-indigo-500/30 bg-indigo-600/10'
+                }`}
+              >
+                {record.status}
+              </span>
+            </div>
+
+            {recordProgress && isTransferPending(record.status) && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-gray-400">{recordProgress.message}</span>
+                  <span className="text-gray-400">{recordProgress.percentage ?? 0}%</span>
+                </div>
+                <div className="w-full h-2 bg-[#1e1e2e] rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500 transition-all"
+                    style={{ width: `${recordProgress.percentage ?? 0}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-4 text-sm">
+              <a
+                href={receipt.wormholeScanUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-indigo-400 hover:text-indigo-300 underline"
+              >
+                Wormhole Scanner →
+              </a>
+              {canClaim && (
+                <button
+                  onClick={() => setClaiming(claiming === receipt.txHash ? null : receipt.txHash)}
+                  className="text-orange-400 hover:text-orange-300"
+                >
+                  {claiming === receipt.txHash ? 'Hide claim' : 'Claim'}
+                </button>
+              )}
+              {!isTransferPending(record.status) && (
+                <button
+                  onClick={() => handleRemove(receipt.txHash)}
+                  className="text-gray-500 hover:text-gray-300 ml-auto"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+
+            {claiming === receipt.txHash && (
+              <ClaimTransfer receipt={receipt} onClaimed={() => refresh()} />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { ChainPlatform } from '@/lib/wormhole-sdk';
+
+export interface SavedRecipient {
+  label: string;
+  address: string;
+  platform: ChainPlatform;
+}
+
+const STORAGE_KEY = 'wormhole-bridge:address-book';
+
+export function loadAddressBook(): SavedRecipient[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+function writeAddressBook(recipients: SavedRecipient[]): SavedRecipient[] {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recipients));
+  return recipients;
+}
+
+/**
+ * Save a recipient, replacing an existing entry for the same address
+ */
+export function saveRecipient(recipient: SavedRecipient): SavedRecipient[] {
+  const others = loadAddressBook().filter(
+    (r) => !(r.platform === recipient.platform && r.address === recipient.address)
+  );
+  return writeAddressBook([...others, recipient]);
+}
+
+export function removeRecipient(recipient: SavedRecipient): SavedRecipient[] {
+  return writeAddressBook(
+    loadAddressBook().filter((r) => !(r.platform === recipient.platform && r.address === recipient.address))
+  );
+}
@@ -0,0 +1,65 @@
+import { parseUnits } from 'viem';
+import {
+  ApprovalService,
+  isNativeToken,
+  type AllowanceMode,
+  type ApprovalResult,
+  type RouteType,
+  type Token,
+  type TransferProgress,
+  type WormholeSigner,
+} from '@/lib/wormhole-sdk';
+import { wormholeLogger } from './logger';
+import { NETWORK } from './network';
+import { RPC_URLS } from './rpc';
+
+export const approvalService = new ApprovalService({ network: NETWORK, rpcUrls: RPC_URLS });
+const logger = wormholeLogger.child('approvals');
+
+/**
+ * Approve a route's contract to pull a transfer's amount (a decimal string)
+ *
+ * A separate wallet prompt before the transfer - does nothing when the
+ * existing allowance already covers the amount.
+ */
+export async function approveTransfer(params: {
+  chain: string;
+  token: Token;
+  amount: string;
+  routeType: RouteType;
+  mode: AllowanceMode;
+  signer: WormholeSigner;
+  onProgress?: (progress: TransferProgress) => void;
+}): Promise<ApprovalResult> {
+  const { chain, token, amount, routeType, mode, signer, onProgress } = params;
+
+  const result = await approvalService.approve(
+    { chain, token, amount: parseUnits(amount, token.decimals).toString(), routeType, mode },
+    signer,
+    { onProgress }
+  );
+  logger.debug('Approval result', result);
+  return result;
+}
+
+/**
+ * Whether a transfer's amount (a decimal string) needs the route's contract
+ * approved first - never for native tokens, non-EVM chains or routes with no
+ * contract on the chain
+ */
+export async function needsApproval(params: {
+  chain: string;
+  token: Token;
+  amount: string;
+  routeType: RouteType;
+  owner: string;
+}): Promise<boolean> {
+  const { chain, token, amount, routeType, owner } = params;
+  if (isNativeToken(token)) return false;
+
+  const spender = await approvalService.getSpender(chain, routeType);
+  if (!spender) return false;
+
+  const allowance = await approvalService.getAllowance(chain, token, owner, spender);
+  return allowance < parseUnits(amount, token.decimals);
+}
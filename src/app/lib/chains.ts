@@ -1,40 +1,150 @@
+import type { ChainPlatform, Network } from '@/lib/wormhole-sdk';
+import { NETWORK } from './network';
+
+export type ChainId = number;
+
+export interface ChainConfig {
+  id: ChainId;
+  name: string; // Wormhole chain name
+  nativeCurrency: string;
+  platform: ChainPlatform;
+}
+
 // Chain configurations for Wormhole-supported networks
-export const CHAINS = {
+const MAINNET_CHAINS: Record<ChainId, ChainConfig> = {
   1: {
     id: 1,
     name: 'Ethereum',
     nativeCurrency: 'ETH',
+    platform: 'Evm',
   },
   137: {
     id: 137,
     name: 'Polygon',
     nativeCurrency: 'MATIC',
+    platform: 'Evm',
   },
   42161: {
     id: 42161,
     name: 'Arbitrum',
     nativeCurrency: 'ETH',
+    platform: 'Evm',
   },
   10: {
     id: 10,
     name: 'Optimism',
     nativeCurrency: 'ETH',
+    platform: 'Evm',
   },
   8453: {
     id: 8453,
     name: 'Base',
     nativeCurrency: 'ETH',
+    platform: 'Evm',
   },
   56: {
     id: 56,
     name: 'BSC',
     nativeCurrency: 'BNB',
+    platform: 'Evm',
   },
   43114: {
     id: 43114,
     name: 'Avalanche',
     nativeCurrency: 'AVAX',
+    platform: 'Evm',
+  },
+  // Solana has no EVM chain ID - keyed by SOLANA_CHAIN_ID
+  1151111081099710: {
+    id: 1151111081099710,
+    name: 'Solana',
+    nativeCurrency: 'SOL',
+    platform: 'Solana',
+  },
+};
+
+const TESTNET_CHAINS: Record<ChainId, ChainConfig> = {
+  11155111: {
+    id: 11155111,
+    name: 'Sepolia',
+    nativeCurrency: 'ETH',
+    platform: 'Evm',
+  },
+  80002: {
+    id: 80002,
+    name: 'PolygonSepolia', // Amoy
+    nativeCurrency: 'POL',
+    platform: 'Evm',
+  },
+  421614: {
+    id: 421614,
+    name: 'ArbitrumSepolia',
+    nativeCurrency: 'ETH',
+    platform: 'Evm',
+  },
+  11155420: {
+    id: 11155420,
+    name: 'OptimismSepolia',
+    nativeCurrency: 'ETH',
+    platform: 'Evm',
+  },
+  84532: {
+    id: 84532,
+    name: 'BaseSepolia',
+    nativeCurrency: 'ETH',
+    platform: 'Evm',
   },
-} as const;
+  43113: {
+    id: 43113,
+    name: 'Avalanche', // Fuji
+    nativeCurrency: 'AVAX',
+    platform: 'Evm',
+  },
+  1151111081099710: {
+    id: 1151111081099710,
+    name: 'Solana', // Devnet cluster
+    nativeCurrency: 'SOL',
+    platform: 'Solana',
+  },
+};
+
+// Local Wormhole devnet (Tilt)
+const DEVNET_CHAINS: Record<ChainId, ChainConfig> = {
+  1337: {
+    id: 1337,
+    name: 'Ethereum',
+    nativeCurrency: 'ETH',
+    platform: 'Evm',
+  },
+  1397: {
+    id: 1397,
+    name: 'Bsc',
+    nativeCurrency: 'BNB',
+    platform: 'Evm',
+  },
+  1151111081099710: {
+    id: 1151111081099710,
+    name: 'Solana',
+    nativeCurrency: 'SOL',
+    platform: 'Solana',
+  },
+};
+
+export const CHAINS_BY_NETWORK: Record<Network, Record<ChainId, ChainConfig>> = {
+  Mainnet: MAINNET_CHAINS,
+  Testnet: TESTNET_CHAINS,
+  Devnet: DEVNET_CHAINS,
+};
+
+// Chains of the network the app runs on
+export const CHAINS = CHAINS_BY_NETWORK[NETWORK];
+
+// Initial source and destination chains on each network
+const DEFAULT_CHAIN_PAIRS: Record<Network, { source: ChainId; dest: ChainId }> = {
+  Mainnet: { source: 8453, dest: 1 }, // Base -> Ethereum
+  Testnet: { source: 84532, dest: 11155111 }, // Base Sepolia -> Sepolia
+  Devnet: { source: 1337, dest: 1397 },
+};
 
-export type ChainId = keyof typeof CHAINS;
+export const DEFAULT_SOURCE_CHAIN = DEFAULT_CHAIN_PAIRS[NETWORK].source;
+export const DEFAULT_DEST_CHAIN = DEFAULT_CHAIN_PAIRS[NETWORK].dest;
@@ -0,0 +1,30 @@
+import { configureLogger, getErrorMessage, getLogger, parseLogLevel, type LogLevel } from '@/lib/wormhole-sdk';
+
+function resolveLogLevel(value: string | undefined): LogLevel | undefined {
+  try {
+    return parseLogLevel(value);
+  } catch (error) {
+    throw new Error(`NEXT_PUBLIC_LOG_LEVEL is invalid: ${getErrorMessage(error)}`);
+  }
+}
+
+// NEXT_PUBLIC_LOG_LEVEL overrides the default (debug in development, warn in production).
+// Must be read as a literal so Next.js can inline it in the client bundle.
+const level = resolveLogLevel(process.env.NEXT_PUBLIC_LOG_LEVEL);
+
+configureLogger({
+  ...(level && { level }),
+  // Server routes log one JSON object per line for log collectors
+  format: typeof window === 'undefined' ? 'json' : 'pretty',
+});
+
+/**
+ * Logger for a part of the app - import loggers from here so the config above applies
+ */
+export function createLogger(namespace: string) {
+  return getLogger(namespace);
+}
+
+export const wormholeLogger = createLogger('wormhole');
+export const adapterLogger = createLogger('adapter');
+export const bridgeLogger = createLogger('bridge');
@@ -0,0 +1,17 @@
+import { DEFAULT_NETWORK, SUPPORTED_NETWORKS, type Network } from '@/lib/wormhole-sdk';
+
+function resolveNetwork(value: string | undefined): Network {
+  if (!value) return DEFAULT_NETWORK;
+
+  const network = SUPPORTED_NETWORKS.find((n) => n.toLowerCase() === value.toLowerCase());
+  if (!network) {
+    throw new Error(
+      `NEXT_PUBLIC_WORMHOLE_NETWORK must be one of ${SUPPORTED_NETWORKS.join(', ')} (got "${value}")`
+    );
+  }
+  return network;
+}
+
+// Network the whole app runs on - SDK, chains, tokens, explorers and wagmi all follow it.
+// Must be read as a literal so Next.js can inline it in the client bundle.
+export const NETWORK: Network = resolveNetwork(process.env.NEXT_PUBLIC_WORMHOLE_NETWORK);
@@ -0,0 +1,50 @@
+import { formatUnits, parseUnits } from 'viem';
+import { PreflightService, type PreflightResult, type RouteType, type Token } from '@/lib/wormhole-sdk';
+import { wormholeLogger } from './logger';
+import { NETWORK } from './network';
+import { RPC_URLS } from './rpc';
+import { toRelayFee } from './route-helpers';
+
+const preflight = new PreflightService({ network: NETWORK, rpcUrls: RPC_URLS });
+const logger = wormholeLogger.child('preflight');
+
+/**
+ * Check the sender can afford a transfer before the wallet is asked to sign
+ *
+ * Throws the first shortfall (InsufficientBalanceError or InvalidAmountError).
+ * `quote` is the SDK route quote being confirmed - its relay fee is included.
+ */
+export async function assertCanAffordTransfer(params: {
+  chain: string;
+  token: Token;
+  amount: string;
+  senderAddress: string;
+  routeType: RouteType;
+  quote?: any;
+}): Promise<PreflightResult> {
+  const { chain, token, amount, senderAddress, routeType, quote } = params;
+
+  const result = await preflight.check({
+    chain,
+    token,
+    amount: parseUnits(amount, token.decimals).toString(),
+    senderAddress,
+    routeType,
+    relayFee: toRelayFee(quote?.relayFee, { chain, token }),
+  });
+  logger.debug('Result', result);
+
+  if (!result.ok) {
+    throw result.errors[0];
+  }
+  return result;
+}
+
+/**
+ * Largest amount of a token the sender can transfer, as a decimal string -
+ * native tokens keep enough back for gas
+ */
+export async function getMaxTransferAmount(chain: string, token: Token, senderAddress: string): Promise<string> {
+  const max = await preflight.getMaxAmount(chain, token, senderAddress);
+  return formatUnits(max, token.decimals);
+}
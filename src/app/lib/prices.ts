@@ -0,0 +1,29 @@
+import { parseUnits } from 'viem';
+import { HttpPriceProvider, PriceService, type Token, type UsdPriceLookup } from '@/lib/wormhole-sdk';
+import { NETWORK } from './network';
+import { getRouteTokens, type FormatRoutesOptions } from './route-helpers';
+import type { RouteQuote } from './wormhole';
+
+// Shared so the bridge view reuses prices across previews and re-quotes
+export const prices = new PriceService(new HttpPriceProvider(NETWORK), { network: NETWORK });
+
+/**
+ * Throw AmountOutOfRangeError when a decimal amount is outside the USD
+ * transfer limits - amounts of tokens without a price are let through
+ */
+export async function assertAmountWithinLimits(token: Token, amount: string): Promise<void> {
+  await prices.assertWithinLimits({
+    token,
+    amount: { amount: parseUnits(amount, token.decimals).toString(), decimals: token.decimals },
+  });
+}
+
+// Prices fetched so far, for formatRoutes' `getUsdPrice`
+export const getCachedUsdPrice: UsdPriceLookup = (token) => prices.getCachedUsdPrice(token);
+
+/**
+ * Fetch the prices formatRoutes needs to compare routes by USD cost
+ */
+export async function loadRoutePrices(routeQuotes: RouteQuote[], options: FormatRoutesOptions): Promise<void> {
+  await prices.getUsdPrices(getRouteTokens(routeQuotes, options));
+}
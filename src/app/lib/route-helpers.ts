@@ -1,119 +1,271 @@
+import {
+  NATIVE_TOKEN_ADDRESS,
+  NATIVE_TOKEN_SYMBOLS,
+  ROUTE_METADATA,
+  RouteType,
+  compareQuotes,
+  formatDuration,
+  getChainId,
+  getQuoteTokens,
+  getQuoteUsdValues,
+  getRouteInfo,
+  getSwapDetails,
+  isRouteType,
+  type BridgeQuote,
+  type ComparableQuote,
+  type RouteScoreWeights,
+  type SwapDetails,
+  type Token,
+  type TokenAmount,
+  type UsdPriceLookup,
+} from '@/lib/wormhole-sdk';
 import type { RouteOption } from '../components/RouteSelector';
+import { NETWORK } from './network';
+import { tokenRegistry } from './tokens';
+import type { RouteQuote } from './wormhole';
+
+export interface FormatRoutesOptions {
+  chain: string; // source chain name, for the native relay fee symbol
+  destChain?: string; // destination chain name, to price native gas dropped off
+  token: Token; // token being transferred
+  destinationToken?: Token; // token delivered - the transferred token if unset
+  weights?: Partial<RouteScoreWeights>;
+  getUsdPrice?: UsdPriceLookup; // prices fetched beforehand for getRouteTokens
+}
+
+// A route quote's amounts as SDK types, for scoring and pricing
+type PricedRouteQuote = ComparableQuote & Pick<BridgeQuote, 'destinationNativeGas'>;
 
 /**
- * Convert raw Wormhole routes to user-friendly route options
+ * Convert route quotes to user-friendly route options, scored against each
+ * other with compareQuotes
+ *
+ * Options keep the order of `routeQuotes` and their `type` is the route
+ * quote's key. Routes that could not be quoted have `error` set and no score;
+ * the best-scored route is flagged with `isBest`.
  */
-export function formatRoutes(allRoutes: any[], quotes: any[]): RouteOption[] {
-  return allRoutes.map((route, index) => {
-    const routeType = route.constructor.name;
-    const quote = quotes[index];
-
+export function formatRoutes(routeQuotes: RouteQuote[], options: FormatRoutesOptions): RouteOption[] {
+  const routes = routeQuotes.map(({ key: routeType, quote, error }) => {
     // Extract fee information
-    const relayFee = quote?.relayFee;
-    const feeAmount = relayFee
-      ? parseFloat(relayFee.amount.amount) / Math.pow(10, relayFee.amount.decimals)
-      : 0;
-    const feeDisplay = relayFee
-      ? `${feeAmount.toFixed(6)} ${relayFee.token.symbol || 'tokens'}`
-      : 'Free';
-
-    // Calculate estimated time
-    const eta = quote?.eta || 0;
-    const estimatedTime = formatETA(eta);
-
-    return {
+    const relayFee = quote ? toRelayFee(quote.relayFee, options) : undefined;
+    // Swap routes deliver another token than the one sent
+    const swap = quote ? getSwapDetails(quote, options.destinationToken ?? options.token) : undefined;
+    const priced = quote && isRouteType(routeType) ? toPricedQuote(routeType, quote, options, swap) : null;
+    const feeAmount = relayFee ? toNumber(relayFee) : 0;
+    const feeDisplay = relayFee ? `${feeAmount.toFixed(6)} ${relayFee.token.symbol}` : 'Free';
+
+    const etaMs = priced?.eta ?? quote?.eta ?? 0;
+
+    const option: RouteOption = {
       type: routeType,
       name: getRouteName(routeType),
       description: getRouteDescription(routeType),
       fee: feeDisplay,
       feeAmount,
-      estimatedTime,
+      estimatedTime: formatDuration(etaMs),
+      etaMs,
       isAutomatic: isAutomaticRoute(routeType),
+      isSwap: !!swap,
+      minReceived: swap && `${toNumber(swap.minReceived).toFixed(6)} ${swap.minReceived.token.symbol}`,
+      costUsd: priced && options.getUsdPrice ? getQuoteUsdValues(priced, options.getUsdPrice).cost : undefined,
+      pros: [],
+      cons: [],
+      error: quote ? undefined : (error ?? 'No quote available'),
     };
+
+    return { option, comparable: priced };
   });
+
+  const scored = routes.filter(
+    (route): route is { option: RouteOption; comparable: PricedRouteQuote } => route.comparable !== null
+  );
+  const scores = compareQuotes(
+    scored.map(({ comparable }) => comparable),
+    { weights: options.weights, getUsdPrice: options.getUsdPrice }
+  );
+
+  scores.forEach(({ quote, score, pros, cons }, rank) => {
+    const { option } = scored.find(({ comparable }) => comparable === quote)!;
+    Object.assign(option, { score, pros, cons, isBest: rank === 0 && scores.length > 1 });
+  });
+
+  return routes.map(({ option }) => option);
 }
 
 /**
- * Get user-friendly route name
+ * Tokens to fetch prices for before formatRoutes, so it can compare routes
+ * by their USD cost
  */
-function getRouteName(routeType: string): string {
-  const names: Record<string, string> = {
-    AutomaticCCTPRoute: 'Fast CCTP (Automatic)',
-    CCTPRoute: 'Fast CCTP (Manual)',
-    AutomaticTokenBridgeRoute: 'Token Bridge (Automatic)',
-    TokenBridgeRoute: 'Token Bridge (Manual)',
+export function getRouteTokens(routeQuotes: RouteQuote[], options: FormatRoutesOptions): Token[] {
+  return routeQuotes.flatMap(({ key: routeType, quote }) => {
+    if (!quote || !isRouteType(routeType)) return [];
+    const swap = getSwapDetails(quote, options.destinationToken ?? options.token);
+    return getQuoteTokens(toPricedQuote(routeType, quote, options, swap));
+  });
+}
+
+// An SDK route quote as the SDK's own quote types, for compareQuotes and getQuoteUsdValues
+function toPricedQuote(
+  routeType: RouteType,
+  quote: any,
+  options: FormatRoutesOptions,
+  swap: SwapDetails | undefined
+): PricedRouteQuote {
+  const relayFee = toRelayFee(quote.relayFee, options);
+  return {
+    route: getRouteInfo(routeType, relayFee),
+    // Routes without an ETA in the quote fall back to their average time
+    eta: quote.eta ?? ROUTE_METADATA[routeType].averageTime,
+    sourceToken: { token: options.token, amount: quote.sourceToken.amount },
+    destinationToken: {
+      token: swap?.minReceived.token ?? options.destinationToken ?? options.token,
+      amount: quote.destinationToken.amount,
+    },
+    relayFee,
+    destinationNativeGas: toDestinationNativeGas(quote.destinationNativeGas, options),
   };
+}
 
-  return names[routeType] || routeType;
+// Native gas an SDK route quote drops off, when the destination chain is known
+function toDestinationNativeGas(amount: any, { destChain }: FormatRoutesOptions): TokenAmount | undefined {
+  if (!amount || !destChain) return undefined;
+  return {
+    token: {
+      address: NATIVE_TOKEN_ADDRESS,
+      symbol: NATIVE_TOKEN_SYMBOLS[destChain] ?? 'native',
+      decimals: amount.decimals,
+      chainId: getChainId(destChain, NETWORK) ?? 0,
+    },
+    amount,
+  };
 }
 
 /**
- * Get route description
+ * The relay fee of an SDK route quote (paid in a TokenId) as a TokenAmount,
+ * with the symbol of the token it is paid in - from the token list, or a
+ * shortened address for unlisted tokens
  */
-function getRouteDescription(routeType: string): string {
-  const descriptions: Record<string, string> = {
-    AutomaticCCTPRoute: 'Fastest delivery with automatic relayer - includes relay fee',
-    CCTPRoute: 'Fast delivery - requires manual claim on destination chain',
-    AutomaticTokenBridgeRoute: 'Automatic delivery via Token Bridge - may take longer',
-    TokenBridgeRoute: 'Cheapest option - requires manual claim and takes ~12+ days',
+export function toRelayFee(
+  relayFee: any,
+  { chain, token }: Pick<FormatRoutesOptions, 'chain' | 'token'>
+): TokenAmount | undefined {
+  if (!relayFee) return undefined;
+
+  const isNative = relayFee.token.address === 'native';
+  const address = isNative ? NATIVE_TOKEN_ADDRESS : relayFee.token.address.toString();
+  const chainId = getChainId(relayFee.token.chain ?? chain, NETWORK) ?? token.chainId;
+  const symbol = isNative
+    ? (NATIVE_TOKEN_SYMBOLS[relayFee.token.chain ?? chain] ?? 'native')
+    : address.toLowerCase() === token.address.toLowerCase()
+      ? token.symbol
+      : (tokenRegistry.getToken(chainId, address)?.symbol ?? `${address.slice(0, 6)}…${address.slice(-4)}`);
+
+  return {
+    token: { ...token, address, symbol, decimals: relayFee.amount.decimals, chainId },
+    amount: relayFee.amount,
   };
+}
 
-  return descriptions[routeType] || 'Standard bridge route';
+function toNumber({ amount }: TokenAmount): number {
+  return parseFloat(amount.amount) / Math.pow(10, amount.decimals);
+}
+
+/**
+ * Get user-friendly route name
+ */
+function getRouteName(routeType: string): string {
+  return isRouteType(routeType) ? ROUTE_METADATA[routeType].name : routeType;
+}
+
+/**
+ * Get route description
+ */
+function getRouteDescription(routeType: string): string {
+  return isRouteType(routeType) ? ROUTE_METADATA[routeType].description : 'Standard bridge route';
 }
 
 /**
  * Check if route is automatic (uses relayer)
  */
 function isAutomaticRoute(routeType: string): boolean {
-  return routeType.includes('Automatic');
+  return isRouteType(routeType) ? ROUTE_METADATA[routeType].isAutomatic : routeType.includes('Automatic');
 }
 
+// Routes that burn USDC through Circle CCTP rather than lock it in the Token Bridge
+const CCTP_ROUTES: string[] = [RouteType.AUTOMATIC_CCTP, RouteType.CCTP_MANUAL];
+
 /**
- * Format ETA from milliseconds to human-readable string
+ * Steps of a transfer over a route, in the order they happen
+ *
+ * `needsApproval` is null while the allowance is unknown - the approval step
+ * is then shown as conditional.
  */
-function formatETA(milliseconds: number): string {
-  const seconds = Math.floor(milliseconds / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const hours = Math.floor(minutes / 60);
-  const days = Math.floor(hours / 24);
-
-  if (days > 0) return `~${days} day${days > 1 ? 's' : ''}`;
-  if (hours > 0) return `~${hours} hour${hours > 1 ? 's' : ''}`;
-  if (minutes > 0) return `~${minutes} min`;
-  return `~${seconds} sec`;
+export function getTransferSteps(params: {
+  routeType: string;
+  sourceChain: string;
+  destChain: string;
+  amount: string;
+  tokenSymbol: string;
+  receivedSymbol: string;
+  needsApproval: boolean | null;
+}): string[] {
+  const { routeType, sourceChain, destChain, amount, tokenSymbol, receivedSymbol, needsApproval } = params;
+  const steps: string[] = [];
+
+  if (needsApproval !== false) {
+    steps.push(
+      `Approve ${tokenSymbol} spending on ${sourceChain}${needsApproval === null ? ' (if not already approved)' : ''}`
+    );
+  }
+
+  if (!isRouteType(routeType)) {
+    steps.push(`Send ${amount} ${tokenSymbol} on ${sourceChain}`, `Wormhole delivers to ${destChain}`);
+    return steps;
+  }
+
+  const metadata = ROUTE_METADATA[routeType];
+  if (metadata.isSwap) {
+    steps.push(
+      `Send ${amount} ${tokenSymbol} to ${metadata.name} on ${sourceChain}`,
+      `Mayan swaps it and delivers ${receivedSymbol} on ${destChain}`
+    );
+    return steps;
+  }
+
+  if (CCTP_ROUTES.includes(routeType)) {
+    steps.push(`Burn ${amount} ${tokenSymbol} with Circle CCTP on ${sourceChain}`, 'Circle attests the burn');
+  } else {
+    steps.push(`Lock ${amount} ${tokenSymbol} in Token Bridge on ${sourceChain}`, 'Wormhole Guardians sign the transfer');
+  }
+
+  steps.push(
+    metadata.requiresManualClaim
+      ? `Claim ${receivedSymbol} on ${destChain} - a second transaction, signed on ${destChain}`
+      : `A relayer delivers ${receivedSymbol} on ${destChain}`
+  );
+  return steps;
 }
 
 /**
  * Sort routes by criteria
+ *
+ * By fee, routes with a USD cost come first, cheapest first - fees in
+ * different tokens cannot be compared otherwise. Routes without a price
+ * follow, by fee amount, and routes that could not be quoted go last.
  */
 export function sortRoutesByFee(routes: RouteOption[]): RouteOption[] {
-  return [...routes].sort((a, b) => a.feeAmount - b.feeAmount);
-}
-
-export function sortRoutesBySpeed(routes: RouteOption[]): RouteOption[] {
+  const rank = (route: RouteOption) => (route.error ? 2 : route.costUsd === undefined ? 1 : 0);
   return [...routes].sort((a, b) => {
-    // Parse time strings and compare
-    const aTime = parseTimeString(a.estimatedTime);
-    const bTime = parseTimeString(b.estimatedTime);
-    return aTime - bTime;
+    const byRank = rank(a) - rank(b);
+    if (byRank !== 0) return byRank;
+    return rank(a) === 0 ? a.costUsd! - b.costUsd! : a.feeAmount - b.feeAmount;
   });
 }
 
-function parseTimeString(timeStr: string): number {
-  const match = timeStr.match(/~(\d+)\s*(\w+)/);
-  if (!match) return Infinity;
-
-  const [, value, unit] = match;
-  const num = parseInt(value);
-
-  const multipliers: Record<string, number> = {
-    sec: 1,
-    min: 60,
-    hour: 3600,
-    hours: 3600,
-    day: 86400,
-    days: 86400,
-  };
+export function sortRoutesBySpeed(routes: RouteOption[]): RouteOption[] {
+  return [...routes].sort((a, b) => a.etaMs - b.etaMs);
+}
 
-  return num * (multipliers[unit] || 1);
+export function sortRoutesByScore(routes: RouteOption[]): RouteOption[] {
+  return [...routes].sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
 }
@@ -0,0 +1,97 @@
+import { custom, fallback, http, type Transport } from 'viem';
+import {
+  getChainName,
+  getErrorMessage,
+  getWormholeContext,
+  mergeRpcUrls,
+  parseRpcUrls,
+  type Network,
+  type RpcUrlConfig,
+  type RpcUrls,
+} from '@/lib/wormhole-sdk';
+import { NETWORK } from './network';
+
+// Public endpoints tried before the Wormhole SDK's default RPC for each chain
+const DEFAULT_RPC_URLS: Record<Network, RpcUrlConfig> = {
+  Mainnet: {
+    Ethereum: 'https://eth.drpc.org',
+    Polygon: 'https://polygon-rpc.com',
+    Arbitrum: 'https://arbitrum-one-rpc.publicnode.com',
+    Optimism: 'https://optimism-rpc.publicnode.com',
+    Base: 'https://base-rpc.publicnode.com',
+    BSC: 'https://bsc-dataseed.bnbchain.org',
+    Avalanche: 'https://api.avax.network/ext/bc/C/rpc',
+    Solana: 'https://solana-rpc.publicnode.com',
+  },
+  Testnet: {
+    Sepolia: 'https://ethereum-sepolia-rpc.publicnode.com',
+    OptimismSepolia: 'https://optimism-sepolia-rpc.publicnode.com',
+    PolygonSepolia: 'https://polygon-amoy-bor-rpc.publicnode.com',
+    BaseSepolia: 'https://base-sepolia-rpc.publicnode.com',
+    ArbitrumSepolia: 'https://arbitrum-sepolia-rpc.publicnode.com',
+    Avalanche: 'https://avalanche-fuji-c-chain-rpc.publicnode.com',
+  },
+  Devnet: {
+    Ethereum: 'http://localhost:8545',
+    Bsc: 'http://localhost:8546',
+    Solana: 'http://localhost:8899',
+  },
+};
+
+function resolveRpcOverrides(value: string | undefined): RpcUrls {
+  try {
+    return parseRpcUrls(value, NETWORK);
+  } catch (error) {
+    throw new Error(`NEXT_PUBLIC_RPC_URLS is invalid: ${getErrorMessage(error)}`);
+  }
+}
+
+// RPC URLs by chain. NEXT_PUBLIC_RPC_URLS replaces a chain's list, e.g.
+// {"Base":["https://base.example.com","https://mainnet.base.org"]}.
+// Must be read as a literal so Next.js can inline it in the client bundle.
+export const RPC_URLS: RpcUrls = mergeRpcUrls(
+  NETWORK,
+  DEFAULT_RPC_URLS[NETWORK],
+  resolveRpcOverrides(process.env.NEXT_PUBLIC_RPC_URLS)
+);
+
+// Shared by the Wormhole SDK and the viem transports, so both follow the same health checks
+export const wormholeContext = getWormholeContext(NETWORK, RPC_URLS);
+export const rpcManager = wormholeContext.rpc;
+
+if (typeof window !== 'undefined') {
+  rpcManager.startHealthChecks();
+}
+
+/**
+ * viem transport for an EVM chain: its RPC URLs best first, then the chain's
+ * built-in RPC as a last resort
+ *
+ * The order is read from the RPC manager on every request, so wagmi clients
+ * created once follow failovers found by later health checks.
+ */
+export function getTransport(chainId: number): Transport {
+  const chain = getChainName(chainId, NETWORK);
+
+  return (params) => {
+    let order: string | undefined;
+    let current: ReturnType<Transport> | undefined;
+
+    // Rebuilt only when the order changes
+    const resolve = () => {
+      const urls = chain ? rpcManager.getUrls(chain) : [];
+      const key = urls.join(' ');
+      if (!current || key !== order) {
+        order = key;
+        current = fallback([...urls.map((url) => http(url)), http()])(params);
+      }
+      return current;
+    };
+
+    // The fallback retries each endpoint itself
+    return custom(
+      { request: (args) => resolve().request(args) },
+      { key: 'rpcManager', name: 'RPC manager', retryCount: 0 }
+    )(params);
+  };
+}
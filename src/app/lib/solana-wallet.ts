@@ -0,0 +1,68 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { SolanaWallet } from '@/lib/wormhole-sdk';
+
+type WalletEvent = 'connect' | 'disconnect' | 'accountChanged';
+
+/**
+ * Wallet injected by Phantom, Solflare and other Solana browser wallets
+ */
+interface InjectedSolanaWallet extends SolanaWallet {
+  connect(options?: { onlyIfTrusted?: boolean }): Promise<unknown>;
+  disconnect(): Promise<void>;
+  on(event: WalletEvent, handler: () => void): void;
+  removeListener?(event: WalletEvent, handler: () => void): void;
+}
+
+function getInjectedSolanaWallet(): InjectedSolanaWallet | null {
+  if (typeof window === 'undefined') return null;
+
+  const injected = window as any;
+  return injected.phantom?.solana ?? injected.solflare ?? injected.solana ?? null;
+}
+
+/**
+ * Connection state of the injected Solana wallet
+ */
+export function useSolanaWallet() {
+  const [wallet, setWallet] = useState<InjectedSolanaWallet | null>(null);
+  const [address, setAddress] = useState<string | null>(null);
+
+  useEffect(() => {
+    const injected = getInjectedSolanaWallet();
+    setWallet(injected);
+    if (!injected) return;
+
+    const sync = () => setAddress(injected.publicKey?.toBase58() ?? null);
+    const events: WalletEvent[] = ['connect', 'disconnect', 'accountChanged'];
+
+    events.forEach((event) => injected.on(event, sync));
+    sync();
+
+    // Reconnect without a prompt if the site was approved before
+    injected.connect({ onlyIfTrusted: true }).catch(() => {});
+
+    return () => events.forEach((event) => injected.removeListener?.(event, sync));
+  }, []);
+
+  const connect = useCallback(async () => {
+    if (!wallet) {
+      throw new Error('No Solana wallet found - install Phantom or Solflare');
+    }
+    await wallet.connect();
+  }, [wallet]);
+
+  const disconnect = useCallback(async () => {
+    await wallet?.disconnect();
+  }, [wallet]);
+
+  return {
+    wallet,
+    address,
+    isConnected: !!address,
+    isAvailable: !!wallet,
+    connect,
+    disconnect,
+  };
+}
@@ -0,0 +1,107 @@
+import {
+  DEFAULT_HISTORY_STORAGE_KEY,
+  LocalStorageHistoryStorage,
+  TrackingService,
+  TransferHistory,
+  createStatusProvider,
+  type TransferProgress,
+  type TransferReceipt,
+} from '@/lib/wormhole-sdk';
+import { bridgeLogger } from './logger';
+import { NETWORK } from './network';
+import { wormholeContext } from './rpc';
+
+// Testnet/Devnet transfers are kept apart from mainnet ones
+const storageKey = NETWORK === 'Mainnet' ? DEFAULT_HISTORY_STORAGE_KEY : `${DEFAULT_HISTORY_STORAGE_KEY}:${NETWORK}`;
+
+// Shared by the bridge, claim and history views so they see the same records
+export const transferHistory = new TransferHistory(new LocalStorageHistoryStorage(storageKey));
+
+// Wormholescan first, then the transfer's own route for transfers it has not indexed
+const tracker = new TrackingService(createStatusProvider(NETWORK, () => wormholeContext.getWormhole()));
+const logger = bridgeLogger.child('history');
+
+type ProgressListener = (progress: TransferProgress) => void;
+
+interface TrackedTransfer {
+  done: Promise<TransferProgress>;
+  listeners: Set<ProgressListener>;
+  getLastProgress: () => TransferProgress | undefined;
+}
+
+// One tracking loop per transfer, however many views watch it
+const tracked = new Map<string, TrackedTransfer>();
+let resumed = false;
+
+/**
+ * Track a transfer until it completes (or is ready to claim), saving each
+ * status to the history
+ *
+ * `onProgress` gets the latest update straight away, then every update until
+ * `unwatch` is called. Tracking carries on without watchers, so the saved
+ * status stays current whichever page is open. `done` rejects when tracking
+ * fails; the failure is logged here.
+ */
+export function watchTransfer(
+  receipt: TransferReceipt,
+  onProgress?: ProgressListener
+): { done: Promise<TransferProgress>; unwatch: () => void } {
+  let transfer = tracked.get(receipt.txHash);
+  if (!transfer) {
+    transfer = startTracking(receipt);
+    tracked.set(receipt.txHash, transfer);
+  }
+
+  const { listeners, done } = transfer;
+  if (onProgress) {
+    listeners.add(onProgress);
+    const lastProgress = transfer.getLastProgress();
+    if (lastProgress) onProgress(lastProgress);
+  }
+
+  return {
+    done,
+    unwatch: () => {
+      if (onProgress) listeners.delete(onProgress);
+    },
+  };
+}
+
+function startTracking(receipt: TransferReceipt): TrackedTransfer {
+  const { txHash } = receipt;
+  const listeners = new Set<ProgressListener>();
+  let lastProgress: TransferProgress | undefined;
+
+  const done = tracker.track(receipt, {
+    onProgress: (progress) => {
+      lastProgress = progress;
+      // Watchers hear of the update once it is saved, so they can re-read the history
+      transferHistory
+        .updateStatus(txHash, progress.status)
+        .catch((error) => logger.warn(`Could not save the status of ${txHash}`, error))
+        .then(() => listeners.forEach((listener) => listener(progress)));
+    },
+  });
+  done
+    .catch((error) => logger.error(`Tracking ${txHash} failed`, error))
+    .finally(() => tracked.delete(txHash));
+
+  return { done, listeners, getLastProgress: () => lastProgress };
+}
+
+/**
+ * Resume tracking every in-flight transfer saved before a reload - called
+ * once per page load from the app's providers, so it runs on every page
+ */
+export async function resumePendingTransfers(): Promise<void> {
+  if (resumed) return;
+  resumed = true;
+
+  try {
+    for (const record of await transferHistory.listInFlight()) {
+      watchTransfer(record.receipt);
+    }
+  } catch (error) {
+    logger.warn('Could not resume tracking saved transfers', error);
+  }
+}
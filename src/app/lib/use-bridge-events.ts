@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { bridgeEvents, type BridgeEventListener, type BridgeEventType } from '@/lib/wormhole-sdk';
+
+/**
+ * Subscribe a component to a bridge event for as long as it is mounted
+ *
+ * The latest `listener` is always called, so it can close over state without
+ * resubscribing on every render.
+ */
+export function useBridgeEvent<T extends BridgeEventType>(type: T, listener: BridgeEventListener<T>) {
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => bridgeEvents.on(type, (event) => listenerRef.current(event)), [type]);
+}
@@ -1,5 +1,8 @@
 import type { WalletClient } from 'viem';
-import { createPublicClient, http } from 'viem';
+import { createPublicClient } from 'viem';
+import { TIMING, TransactionFailedError, WalletNotConnectedError, withRetry } from '@/lib/wormhole-sdk';
+import { adapterLogger } from './logger';
+import { getTransport } from './rpc';
 
 /**
  * Converts a viem WalletClient to an ethers v6 compatible signer
@@ -9,13 +12,13 @@ export function walletClientToEthersSigner(walletClient: WalletClient) {
   const { account, chain } = walletClient;
 
   if (!account || !chain) {
-    throw new Error('Wallet not connected');
+    throw new WalletNotConnectedError();
   }
 
-  // Create a public client for reading blockchain data
+  // Create a public client for reading blockchain data, over the configured RPCs best first
   const publicClient = createPublicClient({
     chain,
-    transport: http(),
+    transport: getTransport(chain.id),
   });
 
   // Create a custom ethers signer that delegates to viem
@@ -28,8 +31,6 @@ export function walletClientToEthersSigner(walletClient: WalletClient) {
 
       // Add getFeeData method for gas estimation
       getFeeData: async () => {
-        console.log('[ViemEthersAdapter] getFeeData called');
-
         // Get fee data from the chain
         const block = await publicClient.getBlock();
         const gasPrice = await publicClient.getGasPrice();
@@ -39,7 +40,7 @@ export function walletClientToEthersSigner(walletClient: WalletClient) {
         const maxPriorityFeePerGas = gasPrice / 10n; // 10% of gas price as priority fee
         const maxFeePerGas = baseFee * 2n + maxPriorityFeePerGas;
 
-        console.log('[ViemEthersAdapter] Fee data:', {
+        adapterLogger.debug('Fee data', {
           gasPrice: gasPrice.toString(),
           baseFee: baseFee.toString(),
           maxFeePerGas: maxFeePerGas.toString(),
@@ -68,7 +69,6 @@ export function walletClientToEthersSigner(walletClient: WalletClient) {
 
     // Add getNonce method
     getNonce: async () => {
-      console.log('[ViemEthersAdapter] getNonce called');
       const nonce = await publicClient.getTransactionCount({
         address: account.address,
         blockTag: 'pending',
@@ -78,7 +78,7 @@ export function walletClientToEthersSigner(walletClient: WalletClient) {
 
     // This is the key method - use sendTransaction instead of signTransaction
     sendTransaction: async (transaction: any) => {
-      console.log('[ViemEthersAdapter] sendTransaction called:', transaction);
+      adapterLogger.debug('sendTransaction called', transaction);
 
       // Use viem's sendTransaction which uses eth_sendTransaction
       const hash = await walletClient.sendTransaction({
@@ -93,14 +93,23 @@ export function walletClientToEthersSigner(walletClient: WalletClient) {
         chain: chain,
       });
 
-      console.log('[ViemEthersAdapter] Transaction sent, hash:', hash);
-      console.log('[ViemEthersAdapter] Waiting for transaction receipt...');
+      adapterLogger.debug('Transaction sent, waiting for receipt', { hash });
 
       // Wait for the transaction to be mined before returning
-      // This is important - the SDK needs the receipt to be available
-      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      // This is important - the SDK needs the receipt to be available.
+      // Only the wait is retried (on RPC errors) - the transaction is never resent.
+      const receipt = await withRetry(() => publicClient.waitForTransactionReceipt({ hash }), {
+        deadline: Date.now() + TIMING.TRANSFER_TIMEOUT_MS,
+        timeoutMs: 0,
+        label: 'waitForTransactionReceipt',
+        txHash: hash,
+      });
+
+      adapterLogger.debug('Transaction receipt received', receipt);
 
-      console.log('[ViemEthersAdapter] Transaction receipt received:', receipt);
+      if (receipt.status === 'reverted') {
+        throw new TransactionFailedError(hash, 'Transaction reverted on-chain', { receipt });
+      }
 
       // Return an ethers-compatible transaction response
       return {
@@ -117,7 +126,7 @@ export function walletClientToEthersSigner(walletClient: WalletClient) {
 
     // signTransaction should not be called - throw error to catch issues
     signTransaction: async (transaction: any) => {
-      console.error('[ViemEthersAdapter] signTransaction called - this should not happen!', transaction);
+      adapterLogger.error('signTransaction called - this should not happen!', transaction);
       throw new Error('signTransaction not supported - the SDK should use sendTransaction instead');
     },
   };
@@ -1,7 +1,76 @@
-import { wormhole, routes, Wormhole } from '@wormhole-foundation/sdk';
-import evm from '@wormhole-foundation/sdk/evm';
+import { amount as sdkAmount, routes, Wormhole } from '@wormhole-foundation/sdk';
 import type { WalletClient } from 'viem';
 import { walletClientToEthersSigner } from './viem-ethers-adapter';
+import { adapterLogger, wormholeLogger } from './logger';
+import { NETWORK } from './network';
+import { wormholeContext } from './rpc';
+import {
+  BridgeEventType,
+  ChainNotSupportedError,
+  DEFAULT_ROUTE_PRIORITY,
+  InvalidRequestError,
+  NATIVE_TOKEN_ADDRESS,
+  NoRoutesFoundError,
+  QuoteCache,
+  QuoteFailedError,
+  ROUTE_METADATA,
+  RouteValidationFailedError,
+  TIMING,
+  WalletNotConnectedError,
+  assertQuoteNotExpired,
+  bridgeEvents,
+  classifyError,
+  getChainId,
+  getErrorReason,
+  getQuoteCacheKey,
+  getRouteType,
+  getSwapConstraintError,
+  getSwapDetails,
+  toTransferReceipt,
+  withRetry,
+  type QuoteCacheRequest,
+  type QuoteRequest,
+  type RetryOptions,
+  type RouteType,
+  type TransferEventData,
+} from '@/lib/wormhole-sdk';
+
+/**
+ * A route of a transfer paired with the outcome of quoting it - `quote` when
+ * the route could be quoted, otherwise `error` with the reason
+ */
+export interface RouteQuote {
+  key: string; // route type, unique among the routes of a transfer
+  route: any; // SDK route instance
+  validated?: any; // result of route.validate
+  quote?: any; // successful quote, with `expiresAt`
+  error?: string;
+}
+
+/**
+ * Limits a swap-mode transfer must stay within - slippage in basis points,
+ * deadline in unix ms
+ */
+export type SwapConstraints = Pick<QuoteRequest, 'slippage' | 'deadline'>;
+
+// Route quotes, reused until they expire
+const quoteCache = new QuoteCache<Pick<RouteQuote, 'validated' | 'quote'>>();
+
+/**
+ * Retry an idempotent SDK call, logging each retry
+ *
+ * Only for reads (lookups, validation, quotes) - never for anything that signs
+ * or sends a transaction.
+ */
+function retry<T>(label: string, operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  return withRetry(operation, {
+    label,
+    onRetry: (error, attempt, delayMs) => {
+      wormholeLogger.warn(`${label} failed, retry ${attempt} in ${delayMs}ms`, error);
+    },
+    ...options,
+  });
+}
 
 /**
  * Custom signer that uses sendTransaction directly instead of sign+broadcast
@@ -23,13 +92,14 @@ class ViemWormholeSigner {
   }
 
   // Implement signAndSend instead of sign - this is the key!
+  // Never retried: a retry could send the same transfer twice
   async signAndSend(txns: any[]) {
-    console.log('[ViemWormholeSigner] signAndSend called with', txns.length, 'transactions');
+    adapterLogger.debug(`signAndSend called with ${txns.length} transactions`);
 
     const txids = [];
     for (const txn of txns) {
       const { transaction, description } = txn;
-      console.log(`[ViemWormholeSigner] Sending: ${description}`);
+      adapterLogger.debug(`Sending: ${description}`);
 
       const response = await this.ethersSigner.sendTransaction(transaction);
       txids.push(response.hash);
@@ -46,15 +116,15 @@ export async function createWormholeSigner(walletClient: WalletClient, wh: any,
   const { account, chain } = walletClient;
 
   if (!account || !chain) {
-    throw new Error('Wallet not connected');
+    throw new WalletNotConnectedError({ chain: chainName });
   }
 
-  console.log('[Wormhole] Creating custom ethers signer from viem wallet');
+  wormholeLogger.debug('Creating custom ethers signer from viem wallet');
 
   // Convert viem WalletClient to an ethers-compatible signer that uses sendTransaction
   const ethersSigner = walletClientToEthersSigner(walletClient);
 
-  console.log('[Wormhole] Creating ViemWormholeSigner (SignAndSendSigner)');
+  wormholeLogger.debug('Creating ViemWormholeSigner (SignAndSendSigner)');
 
   // Create our custom SignAndSendSigner
   const signer = new ViemWormholeSigner(
@@ -63,20 +133,37 @@ export async function createWormholeSigner(walletClient: WalletClient, wh: any,
     ethersSigner
   );
 
-  console.log('[Wormhole] Custom signer created:', signer);
+  wormholeLogger.debug('Custom signer created', signer);
 
   return signer;
 }
 
 /**
- * Initialize Wormhole SDK
+ * Get the Wormhole SDK instance for the app's network
+ *
+ * Built once and shared - see WormholeContext. Call
+ * wormholeContext.reset() to rebuild it.
  */
-async function initWormhole() {
-  return await wormhole('Mainnet', [evm]);
+export async function initWormhole() {
+  return wormholeContext.getWormhole();
+}
+
+/**
+ * Get a wallet's token balance in base units on any supported chain
+ */
+export async function getTokenBalance(chain: string, walletAddress: string, tokenAddress: string) {
+  const wh = await initWormhole();
+  const isNative = tokenAddress === '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+  return retry('getBalance', () =>
+    wh.getChain(chain as any).getBalance(walletAddress, isNative ? 'native' : (tokenAddress as any))
+  );
 }
 
 /**
  * Get a route quote for a cross-chain transfer
+ *
+ * Also returns every token the routes can deliver (`destinationTokens`) and
+ * the one this transfer request delivers (`destinationToken`).
  */
 export async function getTransferQuote(params: {
   sourceChain: string;
@@ -85,45 +172,42 @@ export async function getTransferQuote(params: {
   amount: string;
   sourceAddress: string;
   destAddress: string;
+  destTokenAddress?: string; // token to receive - the first supported one if unset
 }) {
   try {
-    console.log('[Wormhole] getTransferQuote called with params:', params);
+    wormholeLogger.debug('getTransferQuote called with params', params);
     const { sourceChain, destChain, tokenAddress } = params;
 
-    console.log('[Wormhole] Initializing SDK...');
-    // Initialize wormhole
-    const wh = await initWormhole();
-    console.log('[Wormhole] SDK initialized successfully');
-
-  console.log('[Wormhole] Creating resolver...');
-  // Create resolver with supported routes - order matters, prioritize faster routes
-  const resolver = wh.resolver([
-    routes.AutomaticCCTPRoute,    // Fastest for USDC - ~15 min with relayer
-    routes.CCTPRoute,              // Fast for USDC - ~15 min manual
-    routes.AutomaticTokenBridgeRoute, // Automatic with relayer
-    routes.TokenBridgeRoute,       // Slowest - manual, no fees but takes days
-  ]);
-
-  console.log('[Wormhole] Getting chain contexts for:', { sourceChain, destChain });
+    wormholeLogger.debug('Initializing SDK...');
+    // The SDK, resolver and chain contexts are built once and reused across previews
+    const wh = await wormholeContext.getWormhole();
+    wormholeLogger.debug('SDK initialized successfully');
+
+  wormholeLogger.debug('Getting resolver...');
+  // Resolver with supported routes - order matters, prioritize faster routes
+  // (Automatic CCTP, CCTP, Automatic Token Bridge, Token Bridge)
+  const resolver = await wormholeContext.getResolver(DEFAULT_ROUTE_PRIORITY);
+
+  wormholeLogger.debug('Getting chain contexts for', { sourceChain, destChain });
   // Get chain contexts
-  let srcChain, dstChain;
+  let srcChain: any, dstChain: any;
   try {
-    srcChain = wh.getChain(sourceChain as any);
-    console.log('[Wormhole] srcChain retrieved:', srcChain);
+    srcChain = await wormholeContext.getChain(sourceChain);
+    wormholeLogger.debug('srcChain retrieved', srcChain);
   } catch (e) {
-    console.error('[Wormhole] Error getting srcChain:', e);
-    throw e;
+    wormholeLogger.debug('Error getting srcChain', e);
+    throw new ChainNotSupportedError(sourceChain, { originalError: e });
   }
 
   try {
-    dstChain = wh.getChain(destChain as any);
-    console.log('[Wormhole] dstChain retrieved:', dstChain);
+    dstChain = await wormholeContext.getChain(destChain);
+    wormholeLogger.debug('dstChain retrieved', dstChain);
   } catch (e) {
-    console.error('[Wormhole] Error getting dstChain:', e);
-    throw e;
+    wormholeLogger.debug('Error getting dstChain', e);
+    throw new ChainNotSupportedError(destChain, { originalError: e });
   }
 
-  console.log('[Wormhole] Chain contexts:', {
+  wormholeLogger.debug('Chain contexts', {
     srcChain: srcChain?.chain,
     dstChain: dstChain?.chain,
     srcChainType: typeof srcChain,
@@ -133,36 +217,58 @@ export async function getTransferQuote(params: {
   // Create token ID
   // Native tokens use the special address 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE
   const isNative = tokenAddress === '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
-  console.log('[Wormhole] Creating token ID:', { tokenAddress, isNative });
-  console.log('[Wormhole] srcChain.chain value:', srcChain?.chain, typeof srcChain?.chain);
-
+  wormholeLogger.debug('Creating token ID', { tokenAddress, isNative });
+  
   let tokenId;
   try {
     tokenId = Wormhole.tokenId(srcChain.chain, isNative ? 'native' : tokenAddress);
-    console.log('[Wormhole] Token ID created successfully:', tokenId);
+    wormholeLogger.debug('Token ID created successfully', tokenId);
   } catch (e) {
-    console.error('[Wormhole] Error creating tokenId:', e);
-    console.error('[Wormhole] tokenId params were:', { chain: srcChain.chain, token: isNative ? 'native' : tokenAddress });
+    wormholeLogger.debug('Error creating tokenId', {
+      error: e,
+      chain: srcChain.chain,
+      token: isNative ? 'native' : tokenAddress,
+    });
     throw e;
   }
 
-  console.log('[Wormhole] Finding supported destination tokens...');
+  wormholeLogger.debug('Finding supported destination tokens...');
   // Find supported destination tokens
   let destTokens;
   try {
-    console.log('[Wormhole] Calling supportedDestinationTokens with:', { tokenId, srcChain, dstChain });
-    destTokens = await resolver.supportedDestinationTokens(tokenId, srcChain, dstChain);
-    console.log('[Wormhole] Destination tokens found:', destTokens);
+    wormholeLogger.debug('Calling supportedDestinationTokens with', { tokenId, srcChain, dstChain });
+    destTokens = await retry('supportedDestinationTokens', () =>
+      wormholeContext.supportedDestinationTokens(DEFAULT_ROUTE_PRIORITY, tokenId, dstChain.chain)
+    );
+    wormholeLogger.debug('Destination tokens found', destTokens);
   } catch (e) {
-    console.error('[Wormhole] Error getting destination tokens:', e);
+    wormholeLogger.debug('Error getting destination tokens', e);
     throw e;
   }
 
   if (!destTokens || destTokens.length === 0) {
-    throw new Error('No supported destination tokens found');
+    throw new NoRoutesFoundError({ reason: 'No supported destination tokens found', sourceChain, destChain });
+  }
+
+  const destination = params.destTokenAddress
+    ? destTokens.find((token: any) => isSameToken(token, params.destTokenAddress!))
+    : destTokens[0];
+  if (!destination) {
+    throw new NoRoutesFoundError({
+      reason: `No route delivers ${params.destTokenAddress} on ${destChain}`,
+      sourceChain,
+      destChain,
+    });
   }
 
-  console.log('[Wormhole] Creating transfer request...');
+  // Symbol, decimals and native/wrapped kind of every token the user can choose to receive
+  const destinationTokens = await retry('getDestinationTokens', () =>
+    wormholeContext.getDestinationTokens(DEFAULT_ROUTE_PRIORITY, tokenId, dstChain.chain)
+  );
+  const destinationToken = destinationTokens.find(({ token }) => isSameToken(destination, token.address));
+  wormholeLogger.debug('Destination token', { destinationToken, options: destinationTokens.length });
+
+  wormholeLogger.debug('Creating transfer request...');
   // Create transfer request
   let transferRequest;
   try {
@@ -170,123 +276,262 @@ export async function getTransferQuote(params: {
     const senderAddr = Wormhole.parseAddress(srcChain.chain, params.sourceAddress);
     const receiverAddr = Wormhole.parseAddress(dstChain.chain, params.destAddress);
 
-    console.log('[Wormhole] Parsed addresses:', { senderAddr, receiverAddr });
+    wormholeLogger.debug('Parsed addresses', { senderAddr, receiverAddr });
 
-    console.log('[Wormhole] RouteTransferRequest.create params:', {
+    wormholeLogger.debug('RouteTransferRequest.create params', {
       source: tokenId,
-      destination: destTokens[0],
+      destination,
     });
 
-    transferRequest = await routes.RouteTransferRequest.create(wh, {
-      source: tokenId,
-      destination: destTokens[0],
-    });
+    transferRequest = await retry('createTransferRequest', () =>
+      routes.RouteTransferRequest.create(wh, {
+        source: tokenId,
+        destination,
+      })
+    );
 
     // Set sender and receiver on the transfer request
     transferRequest.sender = senderAddr;
     (transferRequest as any).receiver = receiverAddr; // Property exists at runtime but not in types
 
-    console.log('[Wormhole] Transfer request created with sender/receiver:', transferRequest);
+    wormholeLogger.debug('Transfer request created with sender/receiver', transferRequest);
   } catch (e) {
-    console.error('[Wormhole] Error creating transfer request:', e);
+    wormholeLogger.debug('Error creating transfer request', e);
     throw e;
   }
 
-  console.log('[Wormhole] Finding routes...');
+  wormholeLogger.debug('Finding routes...');
   // Find available routes
   let foundRoutes;
   try {
-    console.log('[Wormhole] Calling findRoutes with transferRequest:', transferRequest);
-    foundRoutes = await resolver.findRoutes(transferRequest);
-    console.log('[Wormhole] Routes found:', foundRoutes?.length || 0);
+    wormholeLogger.debug('Calling findRoutes with transferRequest', transferRequest);
+    foundRoutes = await retry('findRoutes', () => resolver.findRoutes(transferRequest));
+    wormholeLogger.debug(`Routes found: ${foundRoutes?.length || 0}`);
 
     // Log all available routes
     if (foundRoutes && foundRoutes.length > 0) {
       foundRoutes.forEach((route: any, index: number) => {
-        console.log(`[Wormhole] Route ${index + 1}:`, {
-          type: route.constructor.name,
+        wormholeLogger.debug(`Route ${index + 1}`, {
+          type: getRouteKey(route),
           route: route
         });
       });
     }
   } catch (e) {
-    console.error('[Wormhole] Error finding routes:', e);
+    wormholeLogger.debug('Error finding routes', e);
     throw e;
   }
 
   if (!foundRoutes || foundRoutes.length === 0) {
-    throw new Error('No routes found for this transfer');
+    throw new NoRoutesFoundError({ sourceChain, destChain });
   }
 
   // Return best route (first one due to prioritization order) with all routes
-  console.log('[Wormhole] Returning best route:', foundRoutes[0].constructor.name);
-  console.log('[Wormhole] Total routes available:', foundRoutes.length);
-  return { route: foundRoutes[0], transferRequest, wh, allRoutes: foundRoutes };
+  wormholeLogger.debug(`Returning best route ${getRouteKey(foundRoutes[0])} of ${foundRoutes.length}`);
+  return { route: foundRoutes[0], transferRequest, wh, allRoutes: foundRoutes, destinationTokens, destinationToken };
   } catch (error: any) {
-    console.error('[Wormhole] CAUGHT ERROR in getTransferQuote:', error);
-    console.error('[Wormhole] Error message:', error?.message);
-    console.error('[Wormhole] Error stack:', error?.stack);
-    throw error;
+    wormholeLogger.error('getTransferQuote failed', error);
+    throw classifyError(error, { stage: 'quote' });
+  }
+}
+
+/**
+ * Route type of an SDK route, matched on its constructor - class names do not
+ * survive minification, so they cannot identify routes
+ */
+function getRouteKey(route: any): string {
+  return getRouteType(route) ?? 'UnknownRoute';
+}
+
+/**
+ * Display name of an SDK route
+ */
+function getRouteName(route: any): string {
+  const routeType = getRouteKey(route) as RouteType;
+  return ROUTE_METADATA[routeType]?.name ?? routeType;
+}
+
+/**
+ * Transfer params for a route - only automatic routes can drop off native gas
+ * (nativeGas is the fraction of the amount swapped for gas on the destination).
+ * Swap routes take their own options, with the user's slippage limit.
+ */
+function getTransferParams(route: any, amount: string, nativeGas = 0, slippage?: number) {
+  if (ROUTE_METADATA[getRouteKey(route) as RouteType]?.isSwap) {
+    return {
+      amount,
+      options: { ...route.getDefaultOptions(), ...(slippage !== undefined && { slippageBps: slippage }) },
+    };
   }
+  return {
+    amount,
+    options: { nativeGas: routes.isAutomatic(route) ? nativeGas : 0 }
+  };
+}
+
+/**
+ * The quote request a transfer request's route quotes are cached under - see getQuoteCacheKey
+ */
+function toQuoteCacheRequest(
+  transferRequest: any,
+  amount: string,
+  nativeGas?: number,
+  slippage?: number
+): QuoteCacheRequest {
+  return {
+    sourceChain: transferRequest.fromChain.chain,
+    destChain: transferRequest.toChain.chain,
+    token: { address: String(transferRequest.source.id.address) },
+    amount,
+    nativeGas,
+    destinationToken: { address: String(transferRequest.destination.id.address) },
+    slippage,
+  };
+}
+
+/**
+ * Why a route's quote cannot honor the user's slippage and deadline, or
+ * undefined when it can
+ */
+function getConstraintError(route: any, transferRequest: any, quote: any, constraints: SwapConstraints) {
+  const { destination, toChain } = transferRequest;
+  const destinationToken = {
+    address: String(destination.id.address),
+    symbol: destination.symbol ?? '',
+    decimals: destination.decimals,
+    chainId: getChainId(toChain.chain, NETWORK) ?? 0,
+  };
+  const eta = quote.eta ?? ROUTE_METADATA[getRouteKey(route) as RouteType]?.averageTime ?? 0;
+  return getSwapConstraintError({ eta, swap: getSwapDetails(quote, destinationToken) }, constraints);
+}
+
+// Two parsed addresses are the same account, whatever their native formatting
+function isSameAddress(a: any, b: any): boolean {
+  if (!a || !b) return false;
+  return a.toUniversalAddress().equals(b.toUniversalAddress());
+}
+
+// A destination token the routes support is the token with this address
+function isSameToken(tokenId: any, address: string): boolean {
+  if (tokenId.address === 'native') return address === NATIVE_TOKEN_ADDRESS;
+  return tokenId.address.toString().toLowerCase() === address.toLowerCase();
+}
+
+/**
+ * Event payload for a transfer of `amount` (a decimal string) over a route
+ */
+function getTransferEventData(route: any, transferRequest: any, amount: string): TransferEventData {
+  const { source } = transferRequest;
+  return {
+    sourceChain: transferRequest.fromChain.chain,
+    destChain: transferRequest.toChain.chain,
+    token: source.symbol ?? String(source.id.address),
+    amount: sdkAmount.units(sdkAmount.parse(amount, source.decimals)).toString(),
+    routeType: getRouteKey(route),
+  };
 }
 
 /**
  * Get quotes for all available routes
+ *
+ * Returns one RouteQuote per route, in the order of `allRoutes` - routes that
+ * fail validation or quoting are kept with the reason, so look quotes up by
+ * `key` rather than by index. Quotes are cached for
+ * TIMING.QUOTE_EXPIRATION_MS and carry an `expiresAt` timestamp (unix ms).
+ * Each successful quote emits QUOTE_FETCHED on bridgeEvents.
  */
 export async function getQuotesForAllRoutes(params: {
   allRoutes: any[];
   transferRequest: any;
   amount: string;
-}) {
-  const { allRoutes, transferRequest, amount } = params;
-
-  console.log('[Wormhole] Getting quotes for', allRoutes.length, 'routes');
-
-  const transferParams = {
-    amount,
-    options: { nativeGas: 0 }
-  };
+  nativeGas?: number;
+  constraints?: SwapConstraints; // swap mode - routes that cannot honor them get an error
+}): Promise<RouteQuote[]> {
+  const { allRoutes, transferRequest, amount, nativeGas, constraints = {} } = params;
+
+  wormholeLogger.debug(`Getting quotes for ${allRoutes.length} routes`, { nativeGas });
+
+  const routeQuotes = await Promise.all(
+    allRoutes.map(async (route, index): Promise<RouteQuote> => {
+      const key: string = getRouteKey(route);
+      const cacheKey = getQuoteCacheKey(
+        toQuoteCacheRequest(transferRequest, amount, nativeGas, constraints.slippage),
+        key as RouteType
+      );
+      const cached = quoteCache.get(cacheKey);
+      if (cached) {
+        wormholeLogger.debug(`Using cached quote for route ${index + 1}: ${key}`);
+        emitQuoteFetched(route, transferRequest, amount, cached.quote.quote, true);
+        const error = getConstraintError(route, transferRequest, cached.quote.quote, constraints);
+        return error ? { key, route, validated: cached.quote.validated, error } : { key, route, ...cached.quote };
+      }
 
-  const quotes = await Promise.all(
-    allRoutes.map(async (route, index) => {
       try {
-        console.log(`[Wormhole] Getting quote for route ${index + 1}:`, route.constructor.name);
+        wormholeLogger.debug(`Getting quote for route ${index + 1}: ${key}`);
 
-        const validated = await route.validate(transferRequest, transferParams);
+        const transferParams = getTransferParams(route, amount, nativeGas, constraints.slippage);
+        const validated: any = await retry('validate', () => route.validate(transferRequest, transferParams));
         if (!validated.valid) {
-          console.log(`[Wormhole] Route ${index + 1} validation failed:`, validated.error);
-          return null;
+          wormholeLogger.debug(`Route ${index + 1} validation failed`, validated.error);
+          return { key, route, validated, error: getErrorReason(validated.error) };
         }
 
-        const quote = await route.quote(transferRequest, validated.params);
+        const quote: any = await retry('quote', () => route.quote(transferRequest, validated.params));
         if (!quote.success) {
-          console.log(`[Wormhole] Route ${index + 1} quote failed:`, quote.error);
-          return null;
+          wormholeLogger.debug(`Route ${index + 1} quote failed`, quote.error);
+          return { key, route, validated, error: getErrorReason(quote.error) };
         }
 
-        console.log(`[Wormhole] Route ${index + 1} quote:`, {
-          type: route.constructor.name,
+        wormholeLogger.debug(`Route ${index + 1} quote`, {
+          type: key,
           eta: quote.eta,
           relayFee: quote.relayFee,
+          destinationNativeGas: quote.destinationNativeGas,
         });
 
-        return quote;
+        const quoteWithExpiry = { ...quote, expiresAt: Date.now() + TIMING.QUOTE_EXPIRATION_MS };
+        quoteCache.set(cacheKey, { validated, quote: quoteWithExpiry });
+        emitQuoteFetched(route, transferRequest, amount, quoteWithExpiry, false);
+
+        const error = getConstraintError(route, transferRequest, quoteWithExpiry, constraints);
+        if (error) {
+          wormholeLogger.debug(`Route ${index + 1} rejected: ${error}`);
+          return { key, route, validated, error };
+        }
+        return { key, route, validated, quote: quoteWithExpiry };
       } catch (error) {
-        console.error(`[Wormhole] Error getting quote for route ${index + 1}:`, error);
-        return null;
+        wormholeLogger.warn(`Error getting quote for route ${index + 1}`, error);
+        const { message } = classifyError(error, { stage: 'quote', routeName: getRouteName(route) });
+        return { key, route, error: message };
       }
     })
   );
 
-  // Filter out failed quotes
-  const validQuotes = quotes.filter(q => q !== null);
-  console.log('[Wormhole] Got', validQuotes.length, 'valid quotes out of', allRoutes.length, 'routes');
+  const quoted = routeQuotes.filter((routeQuote) => routeQuote.quote).length;
+  wormholeLogger.debug(`Got ${quoted} valid quotes out of ${allRoutes.length} routes`);
+
+  return routeQuotes;
+}
 
-  return validQuotes;
+function emitQuoteFetched(route: any, transferRequest: any, amount: string, quote: any, cached: boolean) {
+  bridgeEvents.emit(BridgeEventType.QUOTE_FETCHED, {
+    ...getTransferEventData(route, transferRequest, amount),
+    routeType: getRouteKey(route),
+    eta: quote.eta,
+    relayFee: quote.relayFee?.amount.amount,
+    cached,
+  });
 }
 
 /**
  * Initiate a cross-chain transfer
+ *
+ * Throws QuoteExpiredError if the quote the user accepted (`quote`) has
+ * expired - fetch new quotes and ask the user to confirm again - and
+ * InvalidRequestError if `destAddress` is not the receiver the transfer
+ * request was quoted for. Emits
+ * TRANSFER_INITIATED and TRANSFER_STARTED on bridgeEvents, then
+ * TRANSFER_CONFIRMED with the receipt or ERROR_OCCURRED.
  */
 export async function initiateTransfer(params: {
   route: any;
@@ -295,91 +540,121 @@ export async function initiateTransfer(params: {
   wh: any;
   destAddress: string;
   amount: string;
+  nativeGas?: number;
+  quote?: any;
+  constraints?: SwapConstraints;
 }) {
   try {
-    const { route, transferRequest, signer, destAddress, amount: amt } = params;
+    const { route, transferRequest, signer, destAddress, amount: amt, nativeGas, constraints = {} } = params;
+    const routeName = getRouteName(route);
+    const eventData = getTransferEventData(route, transferRequest, amt);
+    bridgeEvents.emit(BridgeEventType.TRANSFER_INITIATED, eventData);
+
+    if (params.quote) {
+      assertQuoteNotExpired(params.quote);
+    }
+
+    // The routes send to the receiver the transfer request was quoted for - refuse to send anywhere
+    // other than the address the user confirmed
+    const receiver = Wormhole.parseAddress(transferRequest.toChain.chain, destAddress);
+    if (!isSameAddress(receiver, transferRequest.receiver)) {
+      throw new InvalidRequestError('Recipient changed since the transfer was quoted - fetch a new quote', {
+        destAddress,
+        quotedReceiver: transferRequest.receiver?.toString(),
+      });
+    }
 
-    console.log('[Wormhole] Preparing transfer parameters:', { amount: amt, destAddress, amtType: typeof amt });
+    wormholeLogger.debug('Preparing transfer parameters', { amount: amt, destAddress, nativeGas });
     // Prepare transfer parameters
-    const transferParams = {
-      amount: amt,
-      options: { nativeGas: 0 }
-    };
+    const transferParams = getTransferParams(route, amt, nativeGas, constraints.slippage);
 
-    console.log('[Wormhole] Validating transfer...');
+    wormholeLogger.debug('Validating transfer...');
     // Validate parameters
-    let validated;
+    let validated: any;
     try {
-      console.log('[Wormhole] Calling route.validate with:', { transferRequest, transferParams });
-      validated = await route.validate(transferRequest, transferParams);
-      console.log('[Wormhole] Validation result:', validated);
+      wormholeLogger.debug('Calling route.validate with', { transferRequest, transferParams });
+      validated = await retry('validate', () => route.validate(transferRequest, transferParams));
+      wormholeLogger.debug('Validation result', validated);
     } catch (e) {
-      console.error('[Wormhole] Error in route.validate:', e);
-      throw e;
+      wormholeLogger.debug('Error in route.validate', e);
+      throw classifyError(e, { stage: 'validate', routeName });
     }
 
     if (!validated.valid) {
-      throw new Error(validated.error || 'Transfer validation failed');
+      throw new RouteValidationFailedError(routeName, getErrorReason(validated.error), { validated });
     }
 
-    console.log('[Wormhole] Getting quote...');
+    wormholeLogger.debug('Getting quote...');
     // Get quote
-    let quote;
+    let quote: any;
     try {
-      console.log('[Wormhole] Calling route.quote with:', { transferRequest, params: validated.params });
-      quote = await route.quote(transferRequest, validated.params);
-      console.log('[Wormhole] Quote result:', quote);
+      wormholeLogger.debug('Calling route.quote with', { transferRequest, params: validated.params });
+      quote = await retry('quote', () => route.quote(transferRequest, validated.params));
+      wormholeLogger.debug('Quote result', quote);
     } catch (e) {
-      console.error('[Wormhole] Error in route.quote:', e);
-      throw e;
+      wormholeLogger.debug('Error in route.quote', e);
+      throw classifyError(e, { stage: 'quote', routeName });
     }
 
     if (!quote.success) {
-      throw new Error(quote.error || 'Failed to get quote');
+      throw new QuoteFailedError(getErrorReason(quote.error), { routeName, quote });
+    }
+
+    // The route re-quotes here, possibly outside the slippage or deadline the user accepted
+    const constraintError = getConstraintError(route, transferRequest, quote, constraints);
+    if (constraintError) {
+      throw new RouteValidationFailedError(routeName, constraintError, { quote });
     }
 
-    console.log('[Wormhole] Quote object keys:', Object.keys(quote));
-    console.log('[Wormhole] TransferRequest details:', {
+    wormholeLogger.debug('Quote object keys', Object.keys(quote));
+    wormholeLogger.debug('TransferRequest details', {
       hasSender: !!transferRequest.sender,
       hasReceiver: !!transferRequest.receiver,
       sender: transferRequest.sender,
       receiver: transferRequest.receiver,
     });
 
-    console.log('[Wormhole] Initiating transfer with route...');
+    wormholeLogger.debug('Initiating transfer with route...');
     // Initiate the transfer
     let receipt;
     try {
       // Create a ChainAddress with the chain NAME (string), not the chain context object
       const receiverChainAddress = {
         chain: quote.destinationToken.token.chain, // Use the chain name string
-        address: transferRequest.receiver
+        address: receiver
       };
 
-      console.log('[Wormhole] Calling route.initiate with 4 params');
-      console.log('[Wormhole] Receiver ChainAddress:', receiverChainAddress);
+      wormholeLogger.debug('Calling route.initiate with 4 params');
+      wormholeLogger.debug('Receiver ChainAddress', receiverChainAddress);
 
       // route.initiate(request, signer, quote, receiverChainAddress)
+      // Not retried - it signs and sends, so a retry could submit the transfer twice
+      bridgeEvents.emit(BridgeEventType.TRANSFER_STARTED, { ...eventData, routeType: getRouteKey(route) });
       receipt = await route.initiate(transferRequest, signer, quote, receiverChainAddress);
-      console.log('[Wormhole] Transfer receipt:', receipt);
-      console.log('[Wormhole] Receipt type:', typeof receipt);
-      console.log('[Wormhole] Receipt keys:', receipt ? Object.keys(receipt) : 'null');
+      wormholeLogger.debug('Transfer receipt', receipt);
 
       // Extract transaction hash from receipt
       // The receipt structure varies by route, but typically contains originTxs array
       const txHash = receipt?.originTxs?.[0]?.txid || receipt?.txid || receipt?.hash;
-      console.log('[Wormhole] Extracted tx hash:', txHash);
+      wormholeLogger.debug(`Extracted tx hash: ${txHash}`);
 
     } catch (e) {
-      console.error('[Wormhole] Error in route.initiate:', e);
-      throw e;
+      wormholeLogger.debug('Error in route.initiate', e);
+      throw classifyError(e, {
+        stage: 'transfer',
+        routeName,
+        chain: transferRequest.fromChain?.chain,
+        amount: amt,
+      });
     }
 
+    bridgeEvents.emit(BridgeEventType.TRANSFER_CONFIRMED, {
+      receipt: toTransferReceipt(receipt, getRouteKey(route) as RouteType, NETWORK),
+    });
     return receipt;
   } catch (error: any) {
-    console.error('[Wormhole] CAUGHT ERROR in initiateTransfer:', error);
-    console.error('[Wormhole] Error message:', error?.message);
-    console.error('[Wormhole] Error stack:', error?.stack);
+    bridgeEvents.emitError(error, 'transfer');
+    wormholeLogger.error('initiateTransfer failed', error);
     throw error;
   }
 }
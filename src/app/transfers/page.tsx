@@ -0,0 +1,16 @@
+import Navbar from '../components/Navbar';
+import TransferHistoryList from '../components/TransferHistoryList';
+
+export default function TransfersPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#0f0f1e] via-[#1a1a2e] to-[#16213e]">
+      <Navbar />
+      <main className="flex justify-center min-h-[calc(100vh-80px)] p-4">
+        <div className="w-full max-w-2xl mx-auto p-6">
+          <h1 className="text-2xl font-bold text-white mb-6">My Transfers</h1>
+          <TransferHistoryList />
+        </div>
+      </main>
+    </div>
+  );
+}
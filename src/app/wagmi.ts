@@ -1,4 +1,5 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
+import { defineChain, type Chain } from 'viem';
 import {
   mainnet,
   polygon,
@@ -7,19 +8,46 @@ import {
   base,
   bsc,
   avalanche,
+  sepolia,
+  polygonAmoy,
+  arbitrumSepolia,
+  optimismSepolia,
+  baseSepolia,
+  avalancheFuji,
 } from 'wagmi/chains';
+import type { Network } from '@/lib/wormhole-sdk';
+import { NETWORK } from './lib/network';
+import { getTransport } from './lib/rpc';
+
+// Local Wormhole devnet (Tilt) EVM chains
+const devnetEthereum = defineChain({
+  id: 1337,
+  name: 'Devnet Ethereum',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: { default: { http: ['http://localhost:8545'] } },
+  testnet: true,
+});
+
+const devnetBsc = defineChain({
+  id: 1397,
+  name: 'Devnet BSC',
+  nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+  rpcUrls: { default: { http: ['http://localhost:8546'] } },
+  testnet: true,
+});
+
+const WAGMI_CHAINS: Record<Network, [Chain, ...Chain[]]> = {
+  Mainnet: [mainnet, polygon, arbitrum, optimism, base, bsc, avalanche],
+  Testnet: [sepolia, polygonAmoy, arbitrumSepolia, optimismSepolia, baseSepolia, avalancheFuji],
+  Devnet: [devnetEthereum, devnetBsc],
+};
+
+const chains = WAGMI_CHAINS[NETWORK];
 
 export const config = getDefaultConfig({
   appName: 'Wormhole Bridge',
   projectId: 'YOUR_PROJECT_ID', // Get your projectId at https://cloud.walletconnect.com
-  chains: [
-    mainnet,
-    polygon,
-    arbitrum,
-    optimism,
-    base,
-    bsc,
-    avalanche,
-  ],
+  chains,
+  transports: Object.fromEntries(chains.map((chain) => [chain.id, getTransport(chain.id)])),
   ssr: true,
 });
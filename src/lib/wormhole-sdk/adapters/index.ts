@@ -0,0 +1,9 @@
+/**
+ * Wormhole Bridge SDK - Adapters Module
+ *
+ * Wallet adapters that produce WormholeSigner instances
+ *
+ * @module adapters
+ */
+
+export { SolanaWalletSigner, createSolanaSigner, type SolanaWallet } from './solana-adapter';
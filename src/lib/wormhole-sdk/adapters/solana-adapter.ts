@@ -0,0 +1,106 @@
+/**
+ * Solana Wallet Adapter
+ *
+ * Wraps a browser Solana wallet (Phantom, Solflare, @solana/wallet-adapter)
+ * in a WormholeSigner. The wallet only signs - transactions are sent and
+ * confirmed through the Wormhole SDK's Solana RPC connection.
+ */
+
+import type { Wormhole, Network as SdkNetwork } from '@wormhole-foundation/sdk';
+import {
+  SolanaPlatform,
+  isVersionedTransaction,
+  type SolanaTransaction,
+} from '@wormhole-foundation/sdk-solana';
+
+import type {
+  AnyUnsignedTransaction,
+  SolanaUnsignedTransaction,
+  WormholeSigner,
+} from '../core/types';
+import { TransactionFailedError, WalletNotConnectedError } from '../core/errors';
+
+type SolanaRpc = Parameters<typeof SolanaPlatform.latestBlock>[0];
+type SolanaTx = SolanaTransaction['transaction'];
+
+/**
+ * The subset of a Solana wallet the signer needs
+ */
+export interface SolanaWallet {
+  publicKey: { toBase58(): string } | null;
+  signTransaction<T extends SolanaTx>(transaction: T): Promise<T>;
+}
+
+export class SolanaWalletSigner implements WormholeSigner {
+  constructor(
+    private readonly wallet: SolanaWallet,
+    private readonly rpc: SolanaRpc,
+    private readonly chainName: string = 'Solana'
+  ) {}
+
+  chain(): string {
+    return this.chainName;
+  }
+
+  address(): string {
+    if (!this.wallet.publicKey) {
+      throw new WalletNotConnectedError({ chain: this.chainName });
+    }
+    return this.wallet.publicKey.toBase58();
+  }
+
+  /**
+   * Sign each transaction with the wallet, send it and wait for confirmation
+   */
+  async signAndSend(txns: AnyUnsignedTransaction[]): Promise<string[]> {
+    const { blockhash, lastValidBlockHeight } = await SolanaPlatform.latestBlock(this.rpc);
+    const txids: string[] = [];
+
+    for (const txn of txns) {
+      const { transaction, signers } = (txn as SolanaUnsignedTransaction).transaction as SolanaTransaction;
+
+      // Extra signers (e.g. new message accounts) sign before the wallet
+      if (isVersionedTransaction(transaction)) {
+        transaction.message.recentBlockhash = blockhash;
+        if (signers?.length) transaction.sign(signers);
+      } else {
+        transaction.recentBlockhash = blockhash;
+        transaction.lastValidBlockHeight = lastValidBlockHeight;
+        if (signers?.length) transaction.partialSign(...signers);
+      }
+
+      const signed = await this.wallet.signTransaction(transaction);
+      const { signature } = await SolanaPlatform.sendTxWithRetry(this.rpc, signed.serialize());
+      txids.push(signature);
+    }
+
+    await Promise.all(
+      txids.map(async (signature) => {
+        const result = await this.rpc.confirmTransaction(
+          { signature, blockhash, lastValidBlockHeight },
+          this.rpc.commitment
+        );
+        if (result.value.err) {
+          throw new TransactionFailedError(signature, JSON.stringify(result.value.err));
+        }
+      })
+    );
+
+    return txids;
+  }
+}
+
+/**
+ * Create a WormholeSigner for a Solana wallet using the SDK's Solana RPC
+ */
+export async function createSolanaSigner(
+  wallet: SolanaWallet,
+  wh: Wormhole<SdkNetwork>
+): Promise<SolanaWalletSigner> {
+  if (!wallet.publicKey) {
+    throw new WalletNotConnectedError({ chain: 'Solana' });
+  }
+
+  const rpc = await wh.getChain('Solana').getRpc();
+  return new SolanaWalletSigner(wallet, rpc);
+}
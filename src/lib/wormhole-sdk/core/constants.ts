@@ -2,7 +2,7 @@
  * Core Constants for Wormhole Bridge Integration
  */
 
-import { RouteType, type Network } from './types';
+import { RecoveryAction, RouteType, WormholeErrorCode, type ChainPlatform, type Network } from './types';
 
 // ============================================================================
 // Network Configuration
@@ -25,6 +25,8 @@ export const DEFAULT_ROUTE_PRIORITY: RouteType[] = [
   RouteType.CCTP_MANUAL,            // Fast for USDC - ~15 min manual claim
   RouteType.TOKEN_BRIDGE_AUTO,      // Automatic with relayer
   RouteType.TOKEN_BRIDGE_MANUAL,    // Slowest - manual, no fees but takes days
+  RouteType.MAYAN_SWIFT,            // Swaps - after the like-for-like routes
+  RouteType.MAYAN_MCTP,             // Swaps via CCTP
 ];
 
 /**
@@ -35,6 +37,8 @@ export const CHEAPEST_ROUTE_PRIORITY: RouteType[] = [
   RouteType.TOKEN_BRIDGE_MANUAL,    // Free, very slow
   RouteType.AUTOMATIC_CCTP,         // Has relay fee
   RouteType.TOKEN_BRIDGE_AUTO,      // Has relay fee
+  RouteType.MAYAN_MCTP,             // Swap, relayer and swap fees
+  RouteType.MAYAN_SWIFT,            // Swap, solver fees
 ];
 
 /**
@@ -45,6 +49,8 @@ export const FASTEST_ROUTE_PRIORITY: RouteType[] = [
   RouteType.CCTP_MANUAL,            // ~15-20 min (if claimed immediately)
   RouteType.TOKEN_BRIDGE_AUTO,      // Variable
   RouteType.TOKEN_BRIDGE_MANUAL,    // ~12+ days
+  RouteType.MAYAN_SWIFT,            // ~1 min, swaps
+  RouteType.MAYAN_MCTP,             // ~15-20 min, swaps
 ];
 
 // ============================================================================
@@ -59,6 +65,7 @@ export const ROUTE_METADATA = {
     reliability: 'high' as const,
     requiresManualClaim: false,
     isAutomatic: true,
+    isSwap: false,
     supportedTokens: ['USDC'],
   },
   [RouteType.CCTP_MANUAL]: {
@@ -68,6 +75,7 @@ export const ROUTE_METADATA = {
     reliability: 'high' as const,
     requiresManualClaim: true,
     isAutomatic: false,
+    isSwap: false,
     supportedTokens: ['USDC'],
   },
   [RouteType.TOKEN_BRIDGE_AUTO]: {
@@ -77,6 +85,7 @@ export const ROUTE_METADATA = {
     reliability: 'medium' as const,
     requiresManualClaim: false,
     isAutomatic: true,
+    isSwap: false,
     supportedTokens: ['*'], // All tokens
   },
   [RouteType.TOKEN_BRIDGE_MANUAL]: {
@@ -86,8 +95,44 @@ export const ROUTE_METADATA = {
     reliability: 'medium' as const,
     requiresManualClaim: true,
     isAutomatic: false,
+    isSwap: false,
     supportedTokens: ['*'], // All tokens
   },
+  [RouteType.MAYAN_SWIFT]: {
+    name: 'Mayan Swift',
+    description: 'Cross-chain swap filled by Mayan solvers - refunded if the price moves past the slippage',
+    averageTime: 60 * 1000, // 1 minute in ms
+    reliability: 'medium' as const,
+    requiresManualClaim: false,
+    isAutomatic: true,
+    isSwap: true,
+    supportedTokens: ['*'], // Any token Mayan can swap
+  },
+  [RouteType.MAYAN_MCTP]: {
+    name: 'Mayan MCTP',
+    description: 'Cross-chain swap through Circle CCTP, relayed by Mayan',
+    averageTime: 20 * 60 * 1000, // 20 minutes in ms
+    reliability: 'high' as const,
+    requiresManualClaim: false,
+    isAutomatic: true,
+    isSwap: true,
+    supportedTokens: ['*'], // Swapped to and from USDC on each side
+  },
+} as const;
+
+/**
+ * Route comparison weights and scores (see compareQuotes)
+ */
+export const ROUTE_SCORING = {
+  DEFAULT_WEIGHTS: { netAmount: 0.35, relayFee: 0.15, eta: 0.25, manualClaim: 0.15, reliability: 0.1 },
+  PRESETS: {
+    balanced: { netAmount: 0.35, relayFee: 0.15, eta: 0.25, manualClaim: 0.15, reliability: 0.1 },
+    cheapest: { netAmount: 0.55, relayFee: 0.3, eta: 0.05, manualClaim: 0.05, reliability: 0.05 },
+    fastest: { netAmount: 0.1, relayFee: 0.05, eta: 0.55, manualClaim: 0.2, reliability: 0.1 },
+  },
+  RELIABILITY_SCORES: { high: 1, medium: 0.6, low: 0.2 },
+  // ETAs over this are called out as slow
+  SLOW_ETA_MS: 24 * 60 * 60 * 1000, // 1 day
 } as const;
 
 // ============================================================================
@@ -106,11 +151,25 @@ export const TIMING = {
   // Polling intervals
   TX_POLLING_INTERVAL_MS: 2 * 1000, // 2 seconds
   STATUS_POLLING_INTERVAL_MS: 5 * 1000, // 5 seconds
+  STATUS_POLLING_MAX_BACKOFF_MS: 60 * 1000, // longest wait between failed status polls
 
   // Retry configuration
+  REQUEST_TIMEOUT_MS: 30 * 1000, // 30 seconds per attempt
   MAX_RETRIES: 3,
   RETRY_DELAY_MS: 1000, // 1 second
   RETRY_BACKOFF_MULTIPLIER: 2,
+
+  // Swap deadlines offered in swap mode (DEFAULT_DEADLINE_MINUTES is the default)
+  DEADLINE_PRESETS_MINUTES: [10, 30, 60, 120],
+} as const;
+
+export const RPC_HEALTH = {
+  CHECK_INTERVAL_MS: 60 * 1000, // 1 minute
+  TIMEOUT_MS: 5 * 1000, // 5 seconds
+} as const;
+
+export const QUOTE_CACHE = {
+  MAX_ENTRIES: 100,
 } as const;
 
 // ============================================================================
@@ -122,10 +181,17 @@ export const FEES = {
   DEFAULT_SLIPPAGE_BPS: 100, // 1%
   MAX_SLIPPAGE_BPS: 500, // 5%
   MIN_SLIPPAGE_BPS: 10, // 0.1%
+  SLIPPAGE_PRESETS_BPS: [10, 50, 100, 300], // offered in swap mode, within MIN/MAX
 
   // Gas buffer
   GAS_BUFFER_PERCENT: 20, // 20% buffer for gas estimation
 
+  // Gas units of source chain transactions, before the gas buffer
+  APPROVAL_GAS_LIMIT: 60_000,
+  TRANSFER_GAS_LIMIT: 300_000,
+  // Solana transaction fees plus rent for the accounts a transfer creates
+  SOLANA_TRANSFER_FEE_LAMPORTS: 5_000_000, // 0.005 SOL
+
   // Relay fee estimates (informational only)
   TYPICAL_RELAY_FEE_USDC: 0.5, // $0.50 typical
   MAX_RELAY_FEE_USDC: 2.0, // $2.00 maximum expected
@@ -161,23 +227,109 @@ export const WORMHOLE_CHAIN_TO_EVM_CHAIN_ID: Record<string, number> = {
   Avalanche: 43114,
 } as const;
 
+/**
+ * Pseudo chain ID for Solana, which has no EVM chain ID
+ */
+export const SOLANA_CHAIN_ID = 1151111081099710;
+
+/**
+ * Chain IDs (EVM chain IDs plus SOLANA_CHAIN_ID) mapped to Wormhole chain names
+ */
+export const CHAIN_ID_TO_WORMHOLE_CHAIN: Record<number, string> = {
+  ...EVM_CHAIN_ID_TO_WORMHOLE_CHAIN,
+  [SOLANA_CHAIN_ID]: 'Solana',
+};
+
+/**
+ * Wormhole chain names to chain IDs (EVM chain IDs plus SOLANA_CHAIN_ID)
+ */
+export const WORMHOLE_CHAIN_TO_CHAIN_ID: Record<string, number> = {
+  ...WORMHOLE_CHAIN_TO_EVM_CHAIN_ID,
+  Solana: SOLANA_CHAIN_ID,
+};
+
+/**
+ * Wormhole chain names to EVM chain IDs on each network
+ *
+ * Testnet chains keep their Wormhole names (Avalanche is Fuji, PolygonSepolia is Amoy).
+ */
+export const NETWORK_EVM_CHAIN_IDS: Record<Network, Record<string, number>> = {
+  Mainnet: WORMHOLE_CHAIN_TO_EVM_CHAIN_ID,
+  Testnet: {
+    Sepolia: 11155111,
+    OptimismSepolia: 11155420,
+    PolygonSepolia: 80002,
+    BaseSepolia: 84532,
+    ArbitrumSepolia: 421614,
+    Avalanche: 43113,
+  },
+  Devnet: {
+    Ethereum: 1337,
+    Bsc: 1397,
+  },
+};
+
+/**
+ * Platform of each supported chain
+ */
+export const CHAIN_PLATFORMS: Record<string, ChainPlatform> = {
+  Ethereum: 'Evm',
+  Optimism: 'Evm',
+  BSC: 'Evm',
+  Polygon: 'Evm',
+  Base: 'Evm',
+  Arbitrum: 'Evm',
+  Avalanche: 'Evm',
+  Sepolia: 'Evm',
+  OptimismSepolia: 'Evm',
+  PolygonSepolia: 'Evm',
+  BaseSepolia: 'Evm',
+  ArbitrumSepolia: 'Evm',
+  Bsc: 'Evm',
+  Solana: 'Solana',
+};
+
 // ============================================================================
 // URL Constants
 // ============================================================================
 
 export const URLS = {
   WORMHOLE_SCAN: 'https://wormholescan.io',
+
+  // Wormholescan API, per network
+  WORMHOLE_SCAN_API: {
+    Mainnet: 'https://api.wormholescan.io',
+    Testnet: 'https://api.testnet.wormholescan.io',
+    Devnet: 'http://guardian:7071',
+  },
   WORMHOLE_DOCS: 'https://docs.wormhole.com',
 
-  // Block explorers
+  // DefiLlama coins API - current USD prices, for HttpPriceProvider
+  PRICE_API: 'https://coins.llama.fi',
+
+  // Block explorers, per network
   EXPLORERS: {
-    Ethereum: 'https://etherscan.io',
-    Optimism: 'https://optimistic.etherscan.io',
-    BSC: 'https://bscscan.com',
-    Polygon: 'https://polygonscan.com',
-    Base: 'https://basescan.org',
-    Arbitrum: 'https://arbiscan.io',
-    Avalanche: 'https://snowtrace.io',
+    Mainnet: {
+      Ethereum: 'https://etherscan.io',
+      Optimism: 'https://optimistic.etherscan.io',
+      BSC: 'https://bscscan.com',
+      Polygon: 'https://polygonscan.com',
+      Base: 'https://basescan.org',
+      Arbitrum: 'https://arbiscan.io',
+      Avalanche: 'https://snowtrace.io',
+      Solana: 'https://solscan.io',
+    },
+    Testnet: {
+      Sepolia: 'https://sepolia.etherscan.io',
+      OptimismSepolia: 'https://sepolia-optimism.etherscan.io',
+      PolygonSepolia: 'https://amoy.polygonscan.com',
+      BaseSepolia: 'https://sepolia.basescan.org',
+      ArbitrumSepolia: 'https://sepolia.arbiscan.io',
+      Avalanche: 'https://testnet.snowtrace.io',
+      Solana: 'https://solscan.io',
+    },
+    // Local devnet has no explorers
+    Devnet: {},
   },
 } as const;
 
@@ -190,6 +342,44 @@ export const URLS = {
  */
 export const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE' as const;
 
+/**
+ * Mayan Forwarder - the contract Mayan routes pull ERC-20 tokens through on EVM chains
+ */
+export const MAYAN_FORWARDER_ADDRESS = '0x337685fdaB40D39bd02028545a4FfA7D287cC3E2' as const;
+
+/**
+ * Largest ERC-20 allowance - what an unlimited approval grants
+ */
+export const MAX_UINT256 = 2n ** 256n - 1n;
+
+/**
+ * Native token symbol of each supported chain
+ */
+export const NATIVE_TOKEN_SYMBOLS: Record<string, string> = {
+  Ethereum: 'ETH',
+  Optimism: 'ETH',
+  BSC: 'BNB',
+  Polygon: 'MATIC',
+  Base: 'ETH',
+  Arbitrum: 'ETH',
+  Avalanche: 'AVAX',
+  Sepolia: 'ETH',
+  OptimismSepolia: 'ETH',
+  PolygonSepolia: 'POL',
+  BaseSepolia: 'ETH',
+  ArbitrumSepolia: 'ETH',
+  Bsc: 'BNB',
+  Solana: 'SOL',
+};
+
+/**
+ * Decimals of the native token on each platform
+ */
+export const NATIVE_TOKEN_DECIMALS: Record<ChainPlatform, number> = {
+  Evm: 18,
+  Solana: 9,
+};
+
 /**
  * Common USDC addresses across chains
  */
@@ -201,6 +391,7 @@ export const USDC_ADDRESSES: Record<string, string> = {
   Base: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
   Arbitrum: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
   Avalanche: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+  Solana: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
 } as const;
 
 // ============================================================================
@@ -221,6 +412,107 @@ export const ERROR_MESSAGES = {
   INVALID_ADDRESS: 'Invalid recipient address',
   CHAIN_NOT_SUPPORTED: 'Chain is not supported',
   TOKEN_NOT_SUPPORTED: 'Token is not supported on this route',
+  NETWORK_ERROR: 'Network error. Please check your connection and try again.',
+  UNKNOWN_ERROR: 'An unexpected error occurred. Please try again.',
+} as const;
+
+/**
+ * Recovery action and hint shown with each error code
+ */
+export const ERROR_RECOVERY: Record<WormholeErrorCode, { action: RecoveryAction; hint: string }> = {
+  [WormholeErrorCode.INVALID_CONFIG]: { action: RecoveryAction.NONE, hint: 'The bridge is misconfigured' },
+  [WormholeErrorCode.NETWORK_NOT_SUPPORTED]: { action: RecoveryAction.NONE, hint: 'The bridge is misconfigured' },
+  [WormholeErrorCode.INVALID_REQUEST]: { action: RecoveryAction.EDIT_REQUEST, hint: 'Check the transfer details' },
+  [WormholeErrorCode.INVALID_AMOUNT]: { action: RecoveryAction.EDIT_REQUEST, hint: 'Enter a different amount' },
+  [WormholeErrorCode.INVALID_ADDRESS]: { action: RecoveryAction.EDIT_REQUEST, hint: 'Check the recipient address' },
+  [WormholeErrorCode.CHAIN_NOT_FOUND]: { action: RecoveryAction.EDIT_REQUEST, hint: 'Pick another chain' },
+  [WormholeErrorCode.CHAIN_NOT_SUPPORTED]: { action: RecoveryAction.EDIT_REQUEST, hint: 'Pick another chain' },
+  [WormholeErrorCode.TOKEN_NOT_FOUND]: { action: RecoveryAction.EDIT_REQUEST, hint: 'Pick another token' },
+  [WormholeErrorCode.INVALID_TOKEN_ADDRESS]: { action: RecoveryAction.EDIT_REQUEST, hint: 'Pick another token' },
+  [WormholeErrorCode.INVALID_TOKEN_LIST]: { action: RecoveryAction.NONE, hint: 'The token list needs fixing' },
+  [WormholeErrorCode.INSUFFICIENT_BALANCE]: {
+    action: RecoveryAction.REDUCE_AMOUNT,
+    hint: 'Lower the amount, and keep enough native token for gas',
+  },
+  [WormholeErrorCode.NO_ROUTES_FOUND]: { action: RecoveryAction.EDIT_REQUEST, hint: 'Try another token or chain pair' },
+  [WormholeErrorCode.ROUTE_VALIDATION_FAILED]: {
+    action: RecoveryAction.CHANGE_ROUTE,
+    hint: 'Pick another route or change the amount',
+  },
+  [WormholeErrorCode.QUOTE_FAILED]: { action: RecoveryAction.RETRY, hint: 'Try again, or pick another route' },
+  [WormholeErrorCode.QUOTE_EXPIRED]: {
+    action: RecoveryAction.REFRESH_QUOTE,
+    hint: 'Get a new quote and confirm again',
+  },
+  [WormholeErrorCode.TRANSFER_FAILED]: {
+    action: RecoveryAction.RETRY,
+    hint: 'Nothing was sent if no transaction hash is shown - try again',
+  },
+  [WormholeErrorCode.APPROVAL_FAILED]: { action: RecoveryAction.APPROVE_TOKEN, hint: 'Approve the token again' },
+  [WormholeErrorCode.INSUFFICIENT_ALLOWANCE]: {
+    action: RecoveryAction.APPROVE_TOKEN,
+    hint: 'Approve the token for this amount',
+  },
+  [WormholeErrorCode.TX_REJECTED]: { action: RecoveryAction.RETRY, hint: 'Confirm in your wallet to continue' },
+  [WormholeErrorCode.TX_TIMEOUT]: {
+    action: RecoveryAction.CHECK_STATUS,
+    hint: 'The transaction may still confirm - check it in the explorer before retrying',
+  },
+  [WormholeErrorCode.TX_FAILED]: {
+    action: RecoveryAction.RETRY,
+    hint: 'The transaction reverted - check the details and try again',
+  },
+  [WormholeErrorCode.WALLET_NOT_CONNECTED]: { action: RecoveryAction.CONNECT_WALLET, hint: 'Connect your wallet' },
+  [WormholeErrorCode.WALLET_WRONG_NETWORK]: {
+    action: RecoveryAction.SWITCH_NETWORK,
+    hint: 'Switch your wallet to the source chain',
+  },
+  [WormholeErrorCode.UNKNOWN_ERROR]: { action: RecoveryAction.RETRY, hint: 'Try again' },
+};
+
+// ============================================================================
+// Pricing Constants
+// ============================================================================
+
+export const PRICING = {
+  // How long a fetched price is reused
+  CACHE_TTL_MS: 60 * 1000, // 1 minute
+
+  // On-chain feed answers older than this are ignored - Chainlink USD feeds update at least daily
+  MAX_FEED_AGE_MS: 25 * 60 * 60 * 1000, // 25 hours
+
+  // DefiLlama chain keys of mainnet chains, for token prices
+  PRICE_API_CHAINS: {
+    Ethereum: 'ethereum',
+    Optimism: 'optimism',
+    BSC: 'bsc',
+    Bsc: 'bsc',
+    Polygon: 'polygon',
+    Base: 'base',
+    Arbitrum: 'arbitrum',
+    Avalanche: 'avax',
+    Solana: 'solana',
+  } as Record<string, string>,
+
+  // CoinGecko IDs of mainnet native tokens, for native token prices
+  NATIVE_PRICE_IDS: {
+    Ethereum: 'ethereum',
+    Optimism: 'ethereum',
+    BSC: 'binancecoin',
+    Bsc: 'binancecoin',
+    Polygon: 'polygon-ecosystem-token',
+    Base: 'ethereum',
+    Arbitrum: 'ethereum',
+    Avalanche: 'avalanche-2',
+    Solana: 'solana',
+  } as Record<string, string>,
+
+  // Chainlink USD feeds on Ethereum mainnet, by token symbol
+  CHAINLINK_FEEDS: {
+    ETH: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    WETH: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    USDC: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6',
+  } as Record<string, string>,
 } as const;
 
 // ============================================================================
@@ -228,18 +520,23 @@ export const ERROR_MESSAGES = {
 // ============================================================================
 
 export const VALIDATION = {
-  // Minimum transfer amounts (to avoid dust)
+  // Minimum transfer amounts (to avoid dust) - enforced by PriceService when the token has a price
   MIN_TRANSFER_AMOUNT_USD: 1, // $1 minimum
 
-  // Maximum transfer amounts (for safety)
+  // Maximum transfer amounts (for safety) - enforced like the minimum
   MAX_TRANSFER_AMOUNT_USD: 1000000, // $1M maximum
 
   // Address validation
   EVM_ADDRESS_REGEX: /^0x[a-fA-F0-9]{40}$/,
   SOLANA_ADDRESS_LENGTH: 44,
+  SOLANA_ADDRESS_REGEX: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
 
   // Amount validation
   MAX_DECIMALS: 18,
+
+  // Native gas drop-off, as a fraction of the transferred amount
+  MIN_NATIVE_GAS: 0,
+  MAX_NATIVE_GAS: 1,
 } as const;
 
 // ============================================================================
@@ -267,14 +564,23 @@ export const WORMHOLE_CONSTANTS = {
   CHEAPEST_ROUTE_PRIORITY,
   FASTEST_ROUTE_PRIORITY,
   ROUTE_METADATA,
+  ROUTE_SCORING,
   TIMING,
+  RPC_HEALTH,
+  QUOTE_CACHE,
   FEES,
   EVM_CHAIN_ID_TO_WORMHOLE_CHAIN,
   WORMHOLE_CHAIN_TO_EVM_CHAIN_ID,
   URLS,
   NATIVE_TOKEN_ADDRESS,
+  NATIVE_TOKEN_SYMBOLS,
+  NATIVE_TOKEN_DECIMALS,
+  MAYAN_FORWARDER_ADDRESS,
+  MAX_UINT256,
   USDC_ADDRESSES,
   ERROR_MESSAGES,
+  ERROR_RECOVERY,
+  PRICING,
   VALIDATION,
   FEATURES,
 } as const;
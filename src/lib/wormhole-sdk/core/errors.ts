@@ -4,7 +4,8 @@
  * Provides structured error handling with error codes and additional context
  */
 
-import { WormholeErrorCode } from './types';
+import { RecoveryAction, WormholeErrorCode, type ErrorContext, type ErrorRecovery } from './types';
+import { ERROR_MESSAGES, ERROR_RECOVERY } from './constants';
 
 // ============================================================================
 // Base Error Class
@@ -62,6 +63,52 @@ export class NetworkNotSupportedError extends WormholeError {
   }
 }
 
+// ============================================================================
+// Validation Errors
+// ============================================================================
+
+export class InvalidRequestError extends WormholeError {
+  constructor(message: string, details?: any) {
+    super(message, WormholeErrorCode.INVALID_REQUEST, details);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class InvalidAmountError extends WormholeError {
+  constructor(amount: string, details?: any) {
+    super(`Invalid transfer amount: ${amount}`, WormholeErrorCode.INVALID_AMOUNT, details);
+    this.name = 'InvalidAmountError';
+  }
+}
+
+/**
+ * An amount worth less than VALIDATION.MIN_TRANSFER_AMOUNT_USD or more than
+ * VALIDATION.MAX_TRANSFER_AMOUNT_USD
+ */
+export class AmountOutOfRangeError extends WormholeError {
+  constructor(
+    public readonly amountUsd: number,
+    public readonly limitUsd: number,
+    details?: any
+  ) {
+    super(
+      amountUsd < limitUsd
+        ? `Transfer amount of ~${formatUsd(amountUsd)} is under the ${formatUsd(limitUsd)} minimum`
+        : `Transfer amount of ~${formatUsd(amountUsd)} is over the ${formatUsd(limitUsd)} maximum`,
+      WormholeErrorCode.INVALID_AMOUNT,
+      details
+    );
+    this.name = 'AmountOutOfRangeError';
+  }
+}
+
+export class InvalidAddressError extends WormholeError {
+  constructor(address: string, details?: any) {
+    super(`Invalid address: ${address}`, WormholeErrorCode.INVALID_ADDRESS, details);
+    this.name = 'InvalidAddressError';
+  }
+}
+
 // ============================================================================
 // Chain Errors
 // ============================================================================
@@ -98,6 +145,13 @@ export class InvalidTokenAddressError extends WormholeError {
   }
 }
 
+export class InvalidTokenListError extends WormholeError {
+  constructor(message: string, details?: any) {
+    super(message, WormholeErrorCode.INVALID_TOKEN_LIST, details);
+    this.name = 'InvalidTokenListError';
+  }
+}
+
 export class InsufficientBalanceError extends WormholeError {
   constructor(
     public readonly required: string,
@@ -200,7 +254,7 @@ export class TransactionRejectedError extends WormholeError {
 }
 
 export class TransactionTimeoutError extends WormholeError {
-  constructor(txHash?: string, details?: any) {
+  constructor(public readonly txHash?: string, details?: any) {
     super(
       txHash ? `Transaction ${txHash} timed out` : 'Transaction timed out',
       WormholeErrorCode.TX_TIMEOUT,
@@ -319,6 +373,9 @@ export async function wrapError<T>(
 
 /**
  * Check if error is user rejection (common pattern across wallets)
+ *
+ * Also true for a rejection (EIP-1193 code 4001) nested in a wallet's generic
+ * error, e.g. MetaMask's -32603 "Internal JSON-RPC error".
  */
 export function isUserRejection(error: unknown): boolean {
   const message = getErrorMessage(error).toLowerCase();
@@ -328,7 +385,8 @@ export function isUserRejection(error: unknown): boolean {
     message.includes('user cancelled') ||
     message.includes('user canceled') ||
     message.includes('user disapproved') ||
-    hasErrorCode(error, WormholeErrorCode.TX_REJECTED)
+    hasErrorCode(error, WormholeErrorCode.TX_REJECTED) ||
+    getRpcErrorCode(error) === RPC_ERROR_CODES.USER_REJECTED
   );
 }
 
@@ -341,6 +399,13 @@ export function isNetworkError(error: unknown): boolean {
     message.includes('network') ||
     message.includes('connection') ||
     message.includes('timeout') ||
+    message.includes('timed out') ||
+    message.includes('fetch failed') ||
+    message.includes('failed to fetch') ||
+    message.includes('econnreset') ||
+    message.includes('socket hang up') ||
+    message.includes('rate limit') ||
+    message.includes('too many requests') ||
     hasErrorCode(error, WormholeErrorCode.TX_TIMEOUT)
   );
 }
@@ -363,20 +428,186 @@ export function isRecoverableError(error: unknown): boolean {
 
 /**
  * Format error for display to user (removes technical details)
+ *
+ * Raw SDK and wallet errors are classified first (see classifyError).
  */
 export function formatErrorForUser(error: unknown): string {
   if (isUserRejection(error)) {
     return 'Transaction was cancelled';
   }
 
+  const classified = classifyError(error);
+
+  if (isConnectionError(classified)) {
+    return ERROR_MESSAGES.NETWORK_ERROR;
+  }
+
+  // Classified from a wallet error that does not say how much was missing
+  if (classified instanceof InsufficientBalanceError && !classified.available) {
+    return ERROR_MESSAGES.INSUFFICIENT_BALANCE;
+  }
+  if (classified instanceof InsufficientAllowanceError && !classified.current) {
+    return ERROR_MESSAGES.INSUFFICIENT_ALLOWANCE;
+  }
+
+  if (classified.code === WormholeErrorCode.UNKNOWN_ERROR) {
+    return ERROR_MESSAGES.UNKNOWN_ERROR;
+  }
+
+  // Return user-friendly message without technical details
+  return classified.message;
+}
+
+/**
+ * User-facing message, recovery action and hint for an error
+ */
+export function getErrorRecovery(error: unknown, context: ErrorContext = {}): ErrorRecovery {
+  const classified = classifyError(error, context);
+  const recovery = isConnectionError(classified)
+    ? { action: RecoveryAction.RETRY, hint: 'Check your connection and try again' }
+    : ERROR_RECOVERY[classified.code];
+
+  return { code: classified.code, message: formatErrorForUser(classified), ...recovery };
+}
+
+// Codes classifyError falls back to when it does not recognise the failure
+const STAGE_ERROR_CODES = [
+  WormholeErrorCode.QUOTE_FAILED,
+  WormholeErrorCode.ROUTE_VALIDATION_FAILED,
+  WormholeErrorCode.APPROVAL_FAILED,
+  WormholeErrorCode.TRANSFER_FAILED,
+  WormholeErrorCode.UNKNOWN_ERROR,
+];
+
+// A connection problem, as opposed to a sent transaction that may still confirm
+function isConnectionError(error: WormholeError): boolean {
+  if (error instanceof TransactionTimeoutError) {
+    return !error.txHash;
+  }
+  return STAGE_ERROR_CODES.includes(error.code) && isNetworkError(error);
+}
+
+// ============================================================================
+// Error Classification
+// ============================================================================
+
+/**
+ * Turn a raw SDK, viem/ethers or wallet error into the matching WormholeError
+ *
+ * Recognises user rejections, wrong-chain and disconnected wallets,
+ * insufficient balance or allowance, reverts and timeouts. Anything else
+ * becomes the error class of `context.stage` (QuoteFailedError for 'quote',
+ * TransferFailedError for 'transfer', ...). The original error is kept in
+ * `details.originalError`. WormholeErrors are returned as they are.
+ */
+export function classifyError(error: unknown, context: ErrorContext = {}): WormholeError {
   if (isWormholeError(error)) {
-    // Return user-friendly message without technical details
-    return error.message;
+    return error;
   }
 
-  if (isNetworkError(error)) {
-    return 'Network error. Please check your connection and try again.';
+  const reason = getErrorReason(error);
+  const message = reason.toLowerCase();
+  const details = { ...context, originalError: error };
+
+  if (isUserRejection(error)) {
+    return new TransactionRejectedError(details);
+  }
+  if (getRpcErrorCode(error) === RPC_ERROR_CODES.UNRECOGNIZED_CHAIN) {
+    return new WalletWrongNetworkError(context.chain ?? 'target chain', 'unknown', details);
+  }
+
+  // viem ChainMismatchError
+  const chainMismatch = reason.match(/current chain of the wallet \(id: (\d+)\).*target chain.*\(id: (\d+)/i);
+  if (chainMismatch) {
+    return new WalletWrongNetworkError(context.chain ?? chainMismatch[2], chainMismatch[1], details);
+  }
+  if (message.includes('connector not connected') || message.includes('wallet not connected')) {
+    return new WalletNotConnectedError(details);
+  }
+
+  if (message.includes('insufficient allowance') || message.includes('exceeds allowance')) {
+    return new InsufficientAllowanceError(context.amount ?? '', '', context.token ?? 'token', details);
+  }
+  if (message.includes('insufficient funds') || message.includes('exceeds balance')) {
+    const token = message.includes('insufficient funds') ? 'native token' : context.token ?? 'token';
+    return new InsufficientBalanceError(context.amount ?? '', '', token, details);
   }
 
-  return 'An unexpected error occurred. Please try again.';
+  if (message.includes('reverted') || message.includes('revert')) {
+    return context.txHash
+      ? new TransactionFailedError(context.txHash, reason, details)
+      : stageError(reason, context, details);
+  }
+  if (message.includes('timed out') || message.includes('timeout')) {
+    return new TransactionTimeoutError(context.txHash, details);
+  }
+
+  return stageError(reason, context, details);
+}
+
+/**
+ * The most specific message of a viem, ethers or plain error
+ *
+ * viem's `shortMessage` and ethers' `shortMessage`/`reason` leave out the
+ * request dump that `message` carries.
+ */
+export function getErrorReason(error: unknown): string {
+  if (error && typeof error === 'object') {
+    const { shortMessage, reason } = error as { shortMessage?: unknown; reason?: unknown };
+    if (typeof shortMessage === 'string' && shortMessage) return shortMessage;
+    if (typeof reason === 'string' && reason) return reason;
+  }
+  return getErrorMessage(error).split('\n')[0];
+}
+
+// EIP-1193 codes that say what the wallet did, as opposed to generic ones such as -32603
+const RPC_ERROR_CODES = {
+  USER_REJECTED: 4001,
+  UNRECOGNIZED_CHAIN: 4902,
+} as const;
+const WALLET_RPC_ERROR_CODES: number[] = Object.values(RPC_ERROR_CODES);
+
+/**
+ * EIP-1193 error code of an error, found anywhere in viem's `cause` chain or a
+ * wallet's nested `error`/`data`
+ *
+ * Wallets wrap what happened in a generic error (a 4001 inside a -32603), so a
+ * known wallet code wins over the outer one.
+ */
+function getRpcErrorCode(error: unknown): number | undefined {
+  const codes: number[] = [];
+  const seen = new Set<object>();
+  const pending = [error];
+  while (pending.length > 0 && seen.size < 10) {
+    const current = pending.shift();
+    if (!current || typeof current !== 'object' || seen.has(current)) continue;
+    seen.add(current);
+
+    const { code, cause, error: inner, data } = current as Record<string, unknown>;
+    if (typeof code === 'number') codes.push(code);
+    pending.push(cause, inner, data);
+  }
+  return codes.find((code) => WALLET_RPC_ERROR_CODES.includes(code)) ?? codes[0];
+}
+
+function stageError(reason: string, context: ErrorContext, details: object): WormholeError {
+  switch (context.stage) {
+    case 'quote':
+      return new QuoteFailedError(reason, details);
+    case 'validate':
+      return new RouteValidationFailedError(context.routeName ?? 'route', reason, details);
+    case 'approve':
+      return new ApprovalFailedError(reason, details);
+    case 'transfer':
+      return new TransferFailedError(reason, details);
+    case 'claim':
+      return new TransferFailedError(`Claim failed: ${reason}`, details);
+    default:
+      return new WormholeError(reason, WormholeErrorCode.UNKNOWN_ERROR, details);
+  }
+}
+
+// Dollar amount for messages, e.g. $1,000,000 or $0.42
+function formatUsd(value: number): string {
+  return `$${value.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
 }
@@ -4,6 +4,8 @@
  * Framework-agnostic types that can be used across any JavaScript/TypeScript project
  */
 
+import type { InsufficientAllowanceError, InsufficientBalanceError, InvalidAmountError } from './errors';
+
 // ============================================================================
 // Chain & Network Types
 // ============================================================================
@@ -31,6 +33,8 @@ export type ChainName =
   | 'Sui'
   | 'Aptos';
 
+export type ChainPlatform = 'Evm' | 'Solana';
+
 // ============================================================================
 // Token Types
 // ============================================================================
@@ -57,6 +61,65 @@ export interface NativeToken extends Omit<Token, 'address'> {
   isNative: true;
 }
 
+// ============================================================================
+// Token Registry Types
+// ============================================================================
+
+/**
+ * Token list in the Uniswap token-list format (https://tokenlists.org)
+ */
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: { major: number; minor: number; patch: number };
+  tokens: TokenListEntry[];
+  logoURI?: string;
+  keywords?: string[];
+}
+
+export interface TokenListEntry {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+  extensions?: Record<string, unknown>;
+}
+
+// A token list, or the URL to fetch one from
+export type TokenListSource = TokenList | string;
+
+export type TokenCounterpartKind = 'CCTP' | 'WORMHOLE_WRAPPED';
+
+/**
+ * The token a transfer delivers on a destination chain
+ */
+export interface TokenCounterpart {
+  chain: ChainName | string;
+  kind: TokenCounterpartKind;
+  address: string;
+}
+
+export type DestinationTokenKind = 'NATIVE' | 'WRAPPED';
+
+/**
+ * A token the routes can deliver on the destination chain - the chain's own
+ * token (gas token included) or a Wormhole-wrapped representation
+ */
+export interface DestinationToken {
+  token: Token;
+  kind: DestinationTokenKind;
+}
+
+export interface TokenVerification {
+  token: Token;
+  valid: boolean;
+  issues: string[];
+  onChainDecimals?: number;
+}
+
 // ============================================================================
 // Route Types
 // ============================================================================
@@ -66,6 +129,9 @@ export enum RouteType {
   CCTP_MANUAL = 'CCTPRoute',
   TOKEN_BRIDGE_AUTO = 'AutomaticTokenBridgeRoute',
   TOKEN_BRIDGE_MANUAL = 'TokenBridgeRoute',
+  // Mayan routes (@mayanfinance/wormhole-sdk-route) - can swap to another token on the way
+  MAYAN_SWIFT = 'MayanRouteSWIFT',
+  MAYAN_MCTP = 'MayanRouteMCTP',
 }
 
 export interface Route {
@@ -77,16 +143,43 @@ export interface Route {
   isAutomatic: boolean;
   requiresManualClaim: boolean;
   reliability?: 'high' | 'medium' | 'low';
+  isSwap?: boolean; // the route can deliver a different token than it was sent
 }
 
-export interface RouteComparison {
-  route: Route;
-  quote: BridgeQuote;
-  score: number;
+// What routes are scored on - each criterion is scored 0-1 and weighted
+export interface RouteScoreWeights {
+  netAmount: number; // amount received on the destination chain
+  relayFee: number; // relay fee, in USD when prices are known
+  eta: number; // delivery time
+  manualClaim: number; // needing a second transaction to claim
+  reliability: number; // ROUTE_METADATA reliability
+}
+
+export type RouteScorePreset = 'balanced' | 'cheapest' | 'fastest';
+
+// Criteria left out could not be compared (e.g. relay fees in tokens without prices)
+export type RouteScoreBreakdown = Partial<Record<keyof RouteScoreWeights, number>>;
+
+export interface RouteComparisonOptions {
+  weights?: Partial<RouteScoreWeights>; // merged over ROUTE_SCORING.DEFAULT_WEIGHTS
+  getUsdPrice?: UsdPriceLookup;
+}
+
+// The parts of a quote routes are compared on - BridgeQuote has them all
+export type ComparableQuote = Pick<BridgeQuote, 'route' | 'eta' | 'sourceToken' | 'destinationToken' | 'relayFee'>;
+
+export interface RouteScore<Q extends ComparableQuote = ComparableQuote> {
+  quote: Q;
+  score: number; // 0-100
+  breakdown: RouteScoreBreakdown;
   pros: string[];
   cons: string[];
 }
 
+export interface RouteComparison extends RouteScore<BridgeQuote> {
+  route: Route;
+}
+
 // ============================================================================
 // Quote Types
 // ============================================================================
@@ -96,11 +189,24 @@ export interface BridgeQuote {
   destinationToken: TokenAmount;
   route: Route;
   relayFee?: TokenAmount;
+  destinationNativeGas?: TokenAmount; // native gas dropped off to the recipient
   eta: number; // milliseconds
   gasFee?: TokenAmount;
+  swap?: SwapDetails; // set by swap routes
   success: boolean;
   error?: string;
   timestamp?: number;
+  expiresAt?: number; // unix ms, after which the quote must be refreshed
+}
+
+/**
+ * Terms of a quote that swaps to another token on the way (Mayan routes)
+ */
+export interface SwapDetails {
+  slippageBps: number; // maximum slippage, in basis points
+  expectedReceived: TokenAmount;
+  minReceived: TokenAmount; // below this the swap is refunded instead of filled
+  deadline?: number; // unix ms - the swap is refunded if it is not filled by then
 }
 
 export interface QuoteRequest {
@@ -111,6 +217,100 @@ export interface QuoteRequest {
   senderAddress: string;
   recipientAddress: string;
   routeType?: RouteType;
+  nativeGas?: number; // fraction (0-1) of the amount swapped for destination gas, automatic routes only
+  destinationToken?: Token; // token to receive - the routes' first supported token if unset; another token is a swap
+  slippage?: number; // basis points (100 = 1%) - swap routes quoting more are rejected
+  deadline?: number; // unix ms - routes that cannot deliver by then are rejected
+}
+
+// ============================================================================
+// Pricing Types
+// ============================================================================
+
+/**
+ * Source of USD prices (an HTTP price API, an on-chain feed, a fixture, ...)
+ */
+export interface PriceProvider {
+  /** USD price of one whole token for each token, undefined for tokens it cannot price */
+  getUsdPrices(tokens: Token[]): Promise<(number | undefined)[]>;
+}
+
+/**
+ * A Chainlink-compatible USD price feed (AggregatorV3Interface) on an EVM chain
+ */
+export interface PriceFeed {
+  chain: ChainName | string;
+  address: string;
+}
+
+// Synchronous price lookup, for code that prices tokens fetched beforehand
+export type UsdPriceLookup = (token: Token) => number | undefined;
+
+/**
+ * USD value of each part of a quote - undefined where a token has no price
+ */
+export interface QuoteUsdValues {
+  sent?: number;
+  received?: number;
+  relayFee?: number; // 0 without a relay fee
+  destinationNativeGas?: number; // 0 without a drop-off
+  gasFee?: number; // source chain gas, 0 when the quote has none
+  cost?: number; // sent, plus a relay fee paid on top and gas, less everything received
+}
+
+// ============================================================================
+// Pre-flight Types
+// ============================================================================
+
+export interface PreflightRequest {
+  chain: ChainName | string; // source chain
+  token: Token;
+  amount: string; // base units
+  senderAddress: string;
+  routeType?: RouteType; // picks the contract the ERC-20 allowance is checked against
+  relayFee?: TokenAmount; // charged on the source chain
+}
+
+export interface PreflightResult {
+  ok: boolean; // nothing in `errors` - the transfer can be sent
+  errors: (InsufficientBalanceError | InvalidAmountError)[];
+  approval: InsufficientAllowanceError | null; // the route needs an approval transaction first
+  tokenBalance: bigint; // base units
+  nativeBalance: bigint; // base units
+  allowance: bigint | null; // null for native tokens, non-EVM chains and unknown routes
+  gasCost: bigint; // native base units for the approval (if needed) and transfer, with the gas buffer
+}
+
+// ============================================================================
+// Approval Types
+// ============================================================================
+
+// 'exact' approves just the transfer amount, 'unlimited' the maximum uint256
+export type AllowanceMode = 'exact' | 'unlimited';
+
+export interface ApprovalRequest {
+  chain: ChainName | string;
+  token: Token;
+  amount: string; // base units
+  routeType: RouteType; // picks the contract being approved
+  mode?: AllowanceMode; // defaults to 'exact'
+}
+
+export interface ApprovalResult {
+  spender: string;
+  allowance: bigint; // base units, after the approval
+  txHash?: string; // unset when the existing allowance already covered the amount
+}
+
+export interface ApprovalOptions {
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+// Allowance an owner has given one of the routes' contracts
+export interface RouteAllowance {
+  routeTypes: RouteType[]; // routes that pull tokens through this spender
+  spender: string;
+  allowance: bigint; // base units
 }
 
 // ============================================================================
@@ -125,14 +325,18 @@ export interface TransferParams {
   senderAddress: string;
   recipientAddress: string;
   route?: Route;
+  quote?: BridgeQuote; // the quote the user accepted - refused once expired
+  nativeGas?: number; // fraction (0-1) of the amount swapped for destination gas, automatic routes only
+  destinationToken?: Token; // token to receive, see QuoteRequest
   slippage?: number; // basis points (100 = 1%)
-  deadline?: number; // unix timestamp
+  deadline?: number; // unix ms
 }
 
 export interface TransferReceipt {
   txHash: string;
   originTxs: TransactionReference[];
   destinationTx?: TransactionReference;
+  destChain?: ChainName | string;
   route: Route;
   wormholeScanUrl: string;
   blockExplorerUrl: string;
@@ -168,6 +372,74 @@ export interface TransferProgress {
   estimatedTimeRemaining?: number; // milliseconds
 }
 
+// ============================================================================
+// Tracking Types
+// ============================================================================
+
+/**
+ * Point-in-time view of a transfer as reported by a status provider
+ */
+export interface TransferStatusSnapshot {
+  sourceObserved: boolean; // source transaction seen by the provider
+  attested: boolean; // VAA or CCTP attestation available
+  destinationTx?: TransactionReference;
+  error?: string;
+}
+
+/**
+ * Source of transfer status (Wormholescan, a local mock, ...)
+ */
+export interface TransferStatusProvider {
+  /** Returns null when the provider has not seen the transaction yet */
+  getStatus(txHash: string, transfer?: TrackedTransfer): Promise<TransferStatusSnapshot | null>;
+}
+
+/**
+ * The parts of a transfer needed to track it
+ */
+export type TrackedTransfer = Pick<TransferReceipt, 'txHash'> &
+  Partial<Pick<TransferReceipt, 'route' | 'timestamp' | 'originTxs'>>;
+
+// ============================================================================
+// Recipient Types
+// ============================================================================
+
+export type RecipientWarningCode = 'CONTRACT' | 'NO_HISTORY';
+
+/**
+ * Something worth confirming before sending to a recipient - not an error
+ */
+export interface RecipientWarning {
+  code: RecipientWarningCode;
+  message: string;
+}
+
+// ============================================================================
+// History Types
+// ============================================================================
+
+/**
+ * A transfer saved in the transfer history
+ */
+export interface TransferRecord {
+  receipt: TransferReceipt;
+  status: TransferStatus; // latest known status
+  amount?: string; // display amount
+  tokenSymbol?: string;
+  destinationTxHash?: string;
+  updatedAt: number;
+}
+
+/**
+ * Storage backend for the transfer history (localStorage, memory, a database, ...)
+ */
+export interface TransferHistoryStorage {
+  list(): Promise<TransferRecord[]>;
+  get(txHash: string): Promise<TransferRecord | null>;
+  put(record: TransferRecord): Promise<void>;
+  remove(txHash: string): Promise<void>;
+}
+
 // ============================================================================
 // Signer Types
 // ============================================================================
@@ -175,7 +447,7 @@ export interface TransferProgress {
 export interface WormholeSigner {
   chain(): string;
   address(): string;
-  signAndSend(txns: UnsignedTransaction[]): Promise<string[]>;
+  signAndSend(txns: AnyUnsignedTransaction[]): Promise<string[]>;
 }
 
 export interface UnsignedTransaction {
@@ -192,6 +464,20 @@ export interface UnsignedTransaction {
   parallelizable?: boolean;
 }
 
+/**
+ * Solana transaction as produced by the SDK (web3.js Transaction or VersionedTransaction)
+ */
+export interface SolanaUnsignedTransaction {
+  transaction: {
+    transaction: unknown;
+    signers?: unknown[]; // extra keypairs that must co-sign
+  };
+  description: string;
+  parallelizable?: boolean;
+}
+
+export type AnyUnsignedTransaction = UnsignedTransaction | SolanaUnsignedTransaction;
+
 export interface FeeData {
   gasPrice: bigint;
   maxFeePerGas: bigint;
@@ -202,10 +488,27 @@ export interface FeeData {
 // Configuration Types
 // ============================================================================
 
+// RPC URLs by chain name, one URL or a list in order of preference
+export type RpcUrlConfig = Record<string, string | string[]>;
+
+// RPC URL lists by chain name
+export type RpcUrls = Record<string, string[]>;
+
+/**
+ * Result of the last health check of an RPC endpoint
+ */
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  latencyMs?: number;
+  checkedAt: number; // unix ms
+  error?: string;
+}
+
 export interface WormholeConfig {
   network: Network;
-  rpcUrls?: Record<string, string>;
-  debug?: boolean;
+  rpcUrls?: RpcUrlConfig;
+  debug?: boolean; // log the service's debug output whatever the global log level
   timeout?: number; // milliseconds
   retries?: number;
 }
@@ -225,7 +528,8 @@ export interface IBridgeService {
   initialize(config: BridgeConfig): Promise<void>;
   getQuote(request: QuoteRequest): Promise<BridgeQuote>;
   getAllRoutes(request: QuoteRequest): Promise<Route[]>;
-  compareRoutes(routes: Route[], request: QuoteRequest): Promise<RouteComparison[]>;
+  getDestinationTokens(request: QuoteRequest): Promise<DestinationToken[]>;
+  compareRoutes(routes: Route[], request: QuoteRequest, options?: RouteComparisonOptions): Promise<RouteComparison[]>;
   executeTransfer(params: TransferParams, walletClient: any): Promise<TransferReceipt>;
   trackTransfer(txHash: string): Promise<TransferProgress>;
 }
@@ -234,9 +538,9 @@ export interface IQuoteService {
   getQuote(request: QuoteRequest): Promise<BridgeQuote>;
   getQuoteForRoute(request: QuoteRequest, route: Route): Promise<BridgeQuote>;
   getAllQuotes(request: QuoteRequest): Promise<BridgeQuote[]>;
-  getCheapestRoute(routes: Route[]): Route | null;
-  getFastestRoute(routes: Route[]): Route | null;
-  compareRoutes(routes: Route[]): RouteComparison[];
+  getCheapestRoute(quotes: BridgeQuote[], options?: RouteComparisonOptions): Route | null;
+  getFastestRoute(quotes: BridgeQuote[]): Route | null;
+  compareRoutes(quotes: BridgeQuote[], options?: RouteComparisonOptions): RouteComparison[];
 }
 
 export interface ITransferService {
@@ -248,7 +552,7 @@ export interface ITransferService {
 
   waitForCompletion(receipt: TransferReceipt): Promise<void>;
 
-  claimOnDestination(receipt: TransferReceipt, signer: WormholeSigner): Promise<string>;
+  claimOnDestination(receipt: TransferReceipt, signer: WormholeSigner): Promise<string | undefined>;
 }
 
 export interface ISignerAdapter {
@@ -278,6 +582,11 @@ export enum WormholeErrorCode {
   INVALID_CONFIG = 'INVALID_CONFIG',
   NETWORK_NOT_SUPPORTED = 'NETWORK_NOT_SUPPORTED',
 
+  // Validation Errors
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  INVALID_AMOUNT = 'INVALID_AMOUNT',
+  INVALID_ADDRESS = 'INVALID_ADDRESS',
+
   // Chain Errors
   CHAIN_NOT_FOUND = 'CHAIN_NOT_FOUND',
   CHAIN_NOT_SUPPORTED = 'CHAIN_NOT_SUPPORTED',
@@ -285,6 +594,7 @@ export enum WormholeErrorCode {
   // Token Errors
   TOKEN_NOT_FOUND = 'TOKEN_NOT_FOUND',
   INVALID_TOKEN_ADDRESS = 'INVALID_TOKEN_ADDRESS',
+  INVALID_TOKEN_LIST = 'INVALID_TOKEN_LIST',
   INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
 
   // Route Errors
@@ -313,14 +623,99 @@ export enum WormholeErrorCode {
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
 
+/**
+ * What the user can do about an error
+ */
+export enum RecoveryAction {
+  RETRY = 'retry',
+  REFRESH_QUOTE = 'refresh_quote',
+  CONNECT_WALLET = 'connect_wallet',
+  SWITCH_NETWORK = 'switch_network',
+  APPROVE_TOKEN = 'approve_token',
+  REDUCE_AMOUNT = 'reduce_amount',
+  CHANGE_ROUTE = 'change_route',
+  EDIT_REQUEST = 'edit_request',
+  CHECK_STATUS = 'check_status',
+  NONE = 'none',
+}
+
+export interface ErrorRecovery {
+  code: WormholeErrorCode;
+  message: string; // formatErrorForUser
+  action: RecoveryAction;
+  hint: string;
+}
+
+// The step an error was raised in - picks the error class for unrecognised failures
+export type ErrorStage = 'quote' | 'validate' | 'approve' | 'transfer' | 'claim';
+
+/**
+ * What was being attempted when an error was raised, for classifyError
+ */
+export interface ErrorContext {
+  stage?: ErrorStage;
+  routeName?: string;
+  txHash?: string;
+  chain?: string; // chain the wallet should be on
+  token?: string; // token symbol
+  amount?: string;
+}
+
 // ============================================================================
 // Event Types
 // ============================================================================
 
-export interface BridgeEvent {
-  type: BridgeEventType;
+export interface BridgeEvent<T extends BridgeEventType = BridgeEventType> {
+  type: T;
   timestamp: number;
-  data: any;
+  data: BridgeEventData[T];
+}
+
+// Any one event, narrowed by checking `type`
+export type AnyBridgeEvent = { [T in BridgeEventType]: BridgeEvent<T> }[BridgeEventType];
+
+export type BridgeEventListener<T extends BridgeEventType = BridgeEventType> = (
+  event: BridgeEvent<T>
+) => void | Promise<void>;
+
+// What is being sent
+export interface TransferEventData {
+  sourceChain: string;
+  destChain: string;
+  token: string; // symbol
+  amount: string; // base units
+  routeType?: RouteType | string;
+}
+
+export interface QuoteEventData extends TransferEventData {
+  routeType: RouteType | string;
+  eta?: number; // milliseconds
+  relayFee?: string; // base units of the relay fee token
+  cached: boolean; // served from the quote cache
+}
+
+export interface ApprovalEventData {
+  chain: string;
+  token: string; // symbol
+  spender: string;
+  amount: string; // base units, MAX_UINT256 for unlimited, 0 for a revoke
+}
+
+/**
+ * Payload of each event type
+ */
+export interface BridgeEventData {
+  [BridgeEventType.QUOTE_FETCHED]: QuoteEventData;
+  [BridgeEventType.TRANSFER_INITIATED]: TransferEventData;
+  [BridgeEventType.APPROVAL_STARTED]: ApprovalEventData;
+  [BridgeEventType.APPROVAL_CONFIRMED]: ApprovalEventData & { txHash: string };
+  [BridgeEventType.TRANSFER_STARTED]: TransferEventData & { routeType: RouteType | string };
+  [BridgeEventType.TRANSFER_CONFIRMED]: { receipt: TransferReceipt };
+  [BridgeEventType.ATTESTATION_RECEIVED]: { txHash: string; progress: TransferProgress };
+  [BridgeEventType.CLAIM_STARTED]: { txHash: string; chain: string };
+  [BridgeEventType.CLAIM_CONFIRMED]: { txHash: string; chain: string; destinationTxHash?: string };
+  [BridgeEventType.TRANSFER_COMPLETED]: { txHash: string; progress: TransferProgress };
+  [BridgeEventType.ERROR_OCCURRED]: { error: WormholeError; stage?: ErrorStage; txHash?: string };
 }
 
 export enum BridgeEventType {
@@ -337,6 +732,32 @@ export enum BridgeEventType {
   ERROR_OCCURRED = 'error_occurred',
 }
 
+// ============================================================================
+// Logging Types
+// ============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+// 'pretty' for consoles, 'json' (one object per line) for server logs
+export type LogFormat = 'pretty' | 'json';
+
+export interface LogEntry {
+  level: Exclude<LogLevel, 'silent'>;
+  namespace: string;
+  message: string;
+  data?: unknown; // already redacted
+  timestamp: number;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface LoggerConfig {
+  level: LogLevel;
+  format: LogFormat;
+  redact: boolean; // shorten addresses and drop calldata from logged data
+  sink?: LogSink; // defaults to the console, in `format`
+}
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -0,0 +1,10 @@
+/**
+ * Wormhole Bridge SDK
+ *
+ * Main entry point - re-exports the core module, services, utils and adapters
+ */
+
+export * from './core';
+export * from './services';
+export * from './utils';
+export * from './adapters';
@@ -0,0 +1,251 @@
+/**
+ * Approval Service
+ *
+ * ERC-20 approvals as a step of their own, before a route's transfer. The
+ * routes would otherwise approve exactly the transfer amount inside
+ * `initiate`, out of sight of the UI. Approvals can be for the exact amount
+ * or unlimited, and can be revoked again for each route's contracts.
+ */
+
+import { amount as sdkAmount, type ChainContext, type Network as SdkNetwork } from '@wormhole-foundation/sdk';
+import { Interface } from 'ethers';
+
+import {
+  BridgeEventType,
+  RouteType,
+  TransferStatus,
+  isNativeToken,
+  type ApprovalOptions,
+  type ApprovalRequest,
+  type ApprovalResult,
+  type BridgeConfig,
+  type Network,
+  type RouteAllowance,
+  type Token,
+  type WormholeSigner,
+} from '../core/types';
+import { CHAIN_PLATFORMS, DEFAULT_NETWORK, MAX_UINT256, TIMING } from '../core/constants';
+import {
+  ChainNotSupportedError,
+  InvalidAmountError,
+  InvalidTokenAddressError,
+  TransactionFailedError,
+  WalletWrongNetworkError,
+  classifyError,
+} from '../core/errors';
+import { getChainId, getSdkChain } from '../utils/chains';
+import { withRetry } from '../utils/retry';
+import { BridgeService, type BridgeServiceOptions } from './bridge-service';
+import { ROUTE_CONSTRUCTORS, getRouteSpender } from './route-registry';
+
+const ERC20 = new Interface([
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]);
+
+export class ApprovalService {
+  private readonly bridge: BridgeService;
+  private readonly network: Network;
+
+  constructor(config: BridgeConfig = { network: DEFAULT_NETWORK }, options: BridgeServiceOptions = {}) {
+    this.bridge = new BridgeService(config, options);
+    this.network = config.network;
+  }
+
+  /**
+   * Contract a route pulls tokens through on a chain, or undefined for
+   * non-EVM chains and routes not deployed there (Mayan is mainnet only)
+   */
+  async getSpender(chain: string, routeType: RouteType): Promise<string | undefined> {
+    if (CHAIN_PLATFORMS[chain] !== 'Evm') return undefined;
+    if (!ROUTE_CONSTRUCTORS[routeType].supportedNetworks().includes(this.network)) return undefined;
+    const context = await this.getChain(chain);
+    return getRouteSpender(routeType, context.config.contracts);
+  }
+
+  /**
+   * ERC-20 allowance (base units) an owner has given a spender
+   */
+  async getAllowance(chain: string, token: Token, owner: string, spender: string): Promise<bigint> {
+    this.assertErc20(chain, token);
+    const rpc: any = await (await this.getChain(chain)).getRpc();
+
+    const result = await withRetry(
+      () => rpc.call({ to: token.address, data: ERC20.encodeFunctionData('allowance', [owner, spender]) }),
+      { label: 'allowance' }
+    );
+    return BigInt(ERC20.decodeFunctionResult('allowance', result as string)[0]);
+  }
+
+  /**
+   * Allowances an owner has given each of the routes' contracts - the same
+   * contract serving several routes is listed once
+   */
+  async getRouteAllowances(
+    chain: string,
+    token: Token,
+    owner: string,
+    routeTypes: RouteType[] = Object.values(RouteType)
+  ): Promise<RouteAllowance[]> {
+    const spenders = new Map<string, RouteType[]>();
+    for (const routeType of routeTypes) {
+      const spender = await this.getSpender(chain, routeType);
+      if (spender) spenders.set(spender, [...(spenders.get(spender) ?? []), routeType]);
+    }
+
+    return Promise.all(
+      [...spenders].map(async ([spender, types]) => ({
+        routeTypes: types,
+        spender,
+        allowance: await this.getAllowance(chain, token, owner, spender),
+      }))
+    );
+  }
+
+  /**
+   * Approve a route's contract to pull the transfer amount, if the existing
+   * allowance does not already cover it
+   *
+   * Reports TransferStatus.APPROVING/APPROVED progress and
+   * APPROVAL_STARTED/CONFIRMED events, and waits for the approval to be
+   * mined so the route sees the new allowance.
+   */
+  async approve(
+    request: ApprovalRequest,
+    signer: WormholeSigner,
+    options: ApprovalOptions = {}
+  ): Promise<ApprovalResult> {
+    const { chain, token, routeType, mode = 'exact' } = request;
+    if (!/^\d+$/.test(request.amount)) {
+      throw new InvalidAmountError(request.amount);
+    }
+
+    const amount = BigInt(request.amount);
+    const spender = await this.requireSpender(chain, routeType);
+    const allowance = await this.getAllowance(chain, token, signer.address(), spender);
+    if (allowance >= amount) {
+      return { spender, allowance };
+    }
+
+    const value = mode === 'unlimited' ? MAX_UINT256 : amount;
+    const txHash = await this.sendApproval(chain, token, spender, value, signer, options);
+    return { spender, allowance: value, txHash };
+  }
+
+  /**
+   * Set a route contract's allowance back to zero
+   *
+   * Returns the transaction hash, or undefined when there was nothing to revoke.
+   */
+  async revoke(
+    chain: string,
+    token: Token,
+    spender: string,
+    signer: WormholeSigner,
+    options: ApprovalOptions = {}
+  ): Promise<string | undefined> {
+    const allowance = await this.getAllowance(chain, token, signer.address(), spender);
+    if (allowance === 0n) return undefined;
+
+    return this.sendApproval(chain, token, spender, 0n, signer, options);
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private async sendApproval(
+    chain: string,
+    token: Token,
+    spender: string,
+    value: bigint,
+    signer: WormholeSigner,
+    options: ApprovalOptions
+  ): Promise<string> {
+    const { onProgress } = options;
+    if (signer.chain() !== chain) {
+      throw new WalletWrongNetworkError(chain, signer.chain());
+    }
+
+    const description =
+      value === 0n
+        ? `Revoke ${token.symbol} allowance`
+        : `Approve ${value === MAX_UINT256 ? 'unlimited' : format(value, token)} ${token.symbol}`;
+    const data = { chain, token: token.symbol, spender, amount: value.toString() };
+
+    onProgress?.({ status: TransferStatus.APPROVING, message: `${description}...` });
+    this.bridge.events.emit(BridgeEventType.APPROVAL_STARTED, data);
+
+    let txHash: string | undefined;
+    try {
+      // Not retried - a retry could send the approval twice
+      [txHash] = await signer.signAndSend([
+        {
+          transaction: { to: token.address, data: ERC20.encodeFunctionData('approve', [spender, value]) },
+          description,
+        },
+      ]);
+      await this.waitForReceipt(chain, txHash);
+    } catch (error) {
+      const classified = classifyError(error, {
+        stage: 'approve',
+        chain,
+        token: token.symbol,
+        amount: format(value, token),
+        txHash,
+      });
+      this.bridge.events.emitError(classified, 'approve', txHash);
+      throw classified;
+    }
+
+    onProgress?.({ status: TransferStatus.APPROVED, message: `${description} confirmed`, txHash });
+    this.bridge.events.emit(BridgeEventType.APPROVAL_CONFIRMED, { ...data, txHash });
+    return txHash;
+  }
+
+  private async waitForReceipt(chain: string, txHash: string): Promise<void> {
+    const rpc: any = await (await this.getChain(chain)).getRpc();
+    const receipt = await withRetry(() => rpc.waitForTransaction(txHash), {
+      deadline: Date.now() + TIMING.TRANSFER_TIMEOUT_MS,
+      timeoutMs: 0,
+      label: 'waitForApproval',
+      txHash,
+    });
+
+    if ((receipt as { status?: number } | null)?.status === 0) {
+      throw new TransactionFailedError(txHash, 'Approval reverted on-chain', { receipt });
+    }
+  }
+
+  private async requireSpender(chain: string, routeType: RouteType): Promise<string> {
+    const spender = await this.getSpender(chain, routeType);
+    if (!spender) {
+      throw new ChainNotSupportedError(chain, { routeType, reason: 'Route has no contract to approve on this chain' });
+    }
+    return spender;
+  }
+
+  private assertErc20(chain: string, token: Token): void {
+    if (CHAIN_PLATFORMS[chain] !== 'Evm' || isNativeToken(token)) {
+      throw new InvalidTokenAddressError(token.address, { chain, reason: 'Only ERC-20 tokens have allowances' });
+    }
+  }
+
+  private async getChain(chain: string): Promise<ChainContext<SdkNetwork>> {
+    const chainId = getChainId(chain, this.network);
+    const sdkChain = chainId === undefined ? undefined : getSdkChain(chainId, this.network);
+    if (!sdkChain) {
+      throw new ChainNotSupportedError(chain, { network: this.network });
+    }
+    const wh = await this.bridge.getWormhole();
+    return wh.getChain(sdkChain);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function format(value: bigint, token: Token): string {
+  return sdkAmount.fmt(value, token.decimals);
+}
@@ -0,0 +1,693 @@
+/**
+ * Bridge Service
+ *
+ * Framework-agnostic implementation of IBridgeService on top of the Wormhole SDK.
+ * Has no React or wagmi dependencies, so it can be used from API routes,
+ * backend jobs and scripts.
+ */
+
+import {
+  routes,
+  Wormhole,
+  amount as sdkAmount,
+  type ChainContext,
+  type Network as SdkNetwork,
+  type TokenId,
+} from '@wormhole-foundation/sdk';
+
+import {
+  BridgeEventType,
+  RouteType,
+  isNativeToken,
+  type BridgeConfig,
+  type BridgeQuote,
+  type DestinationToken,
+  type IBridgeService,
+  type Network,
+  type QuoteEventData,
+  type QuoteRequest,
+  type Route,
+  type RouteComparison,
+  type RouteComparisonOptions,
+  type Token,
+  type TransferEventData,
+  type TransferParams,
+  type TransferProgress,
+  type TransferReceipt,
+  type TransferStatusProvider,
+  type WormholeSigner,
+} from '../core/types';
+import {
+  DEFAULT_NETWORK,
+  DEFAULT_ROUTE_PRIORITY,
+  ERROR_MESSAGES,
+  FEATURES,
+  NATIVE_TOKEN_ADDRESS,
+  NATIVE_TOKEN_SYMBOLS,
+  ROUTE_METADATA,
+  SUPPORTED_NETWORKS,
+  TIMING,
+} from '../core/constants';
+import {
+  ChainNotSupportedError,
+  InvalidAmountError,
+  InvalidConfigError,
+  NetworkNotSupportedError,
+  NoRoutesFoundError,
+  QuoteFailedError,
+  RouteValidationFailedError,
+  classifyError,
+  getErrorReason,
+} from '../core/errors';
+import { getChainId } from '../utils/chains';
+import { getRouteInfo } from '../utils/route-helpers';
+import { compareQuotes } from '../utils/route-comparison';
+import { toTransferReceipt } from '../utils/receipts';
+import { assertQuoteNotExpired, toQuoteRequest } from '../utils/quotes';
+import { getSwapConstraintError, getSwapDetails } from '../utils/swaps';
+import { getQuoteTokens } from '../utils/prices';
+import { getLogger, type Logger } from '../utils/logger';
+import { assertChainSigner } from '../utils/signers';
+import { toRetryOptions, withRetry } from '../utils/retry';
+import { BridgeEventBus, bridgeEvents } from './event-bus';
+import { QuoteCache, getQuoteCacheKey } from './quote-cache';
+import { WormholeContext, getWormholeContext } from './wormhole-context';
+import { ROUTE_CONSTRUCTORS, getRouteType } from './route-registry';
+import { TrackingService } from './tracking-service';
+import { createStatusProvider } from './fallback-status-provider';
+import type { PriceService } from './price-service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A route found by the resolver, paired with its route type
+ */
+interface ResolvedRoute {
+  type: RouteType;
+  route: routes.Route<SdkNetwork>;
+}
+
+/**
+ * Chain contexts of a request and the SDK token it sends
+ */
+interface ResolvedChains {
+  srcChain: ChainContext<SdkNetwork>;
+  dstChain: ChainContext<SdkNetwork>;
+  source: TokenId;
+}
+
+/**
+ * Everything needed to quote or initiate a transfer for a request
+ */
+interface ResolvedRequest {
+  transferRequest: routes.RouteTransferRequest<SdkNetwork>;
+  routes: ResolvedRoute[];
+  destinationToken: Token; // the token the routes deliver, with its own symbol and decimals
+}
+
+export interface BridgeServiceOptions {
+  /** Status source for trackTransfer - defaults to Wormholescan for the configured network, then the transfer's route */
+  statusProvider?: TransferStatusProvider;
+  /** Route quote cache - defaults to a QuoteCache when FEATURES.ENABLE_QUOTE_CACHING is on, null disables it */
+  quoteCache?: QuoteCache | null;
+  /** SDK instance and lookup caches - defaults to the shared context of the configured network and rpcUrls */
+  context?: WormholeContext;
+  /** Bus transfer events are emitted on - defaults to the shared bridgeEvents */
+  events?: BridgeEventBus;
+  /** USD prices - enforces the amount limits (unpriced tokens pass) and prices route comparisons; none by default */
+  prices?: PriceService;
+}
+
+// ============================================================================
+// Bridge Service
+// ============================================================================
+
+export class BridgeService implements IBridgeService {
+  private config: BridgeConfig;
+  private context: WormholeContext | null = null;
+  private tracker: TrackingService | null = null;
+  private readonly quoteCache: QuoteCache | null;
+  readonly events: BridgeEventBus;
+  private readonly logger: Logger;
+
+  constructor(
+    config: BridgeConfig = { network: DEFAULT_NETWORK },
+    private readonly options: BridgeServiceOptions = {}
+  ) {
+    this.config = config;
+    this.quoteCache =
+      options.quoteCache !== undefined
+        ? options.quoteCache
+        : FEATURES.ENABLE_QUOTE_CACHING
+        ? new QuoteCache()
+        : null;
+    this.events = options.events ?? bridgeEvents;
+    this.logger = getLogger('sdk:bridge', { debug: config.debug });
+  }
+
+  /**
+   * Initialize the Wormhole SDK and route resolver
+   *
+   * Called lazily by every other method, so calling it up front is optional.
+   * The SDK instance comes from the network's shared WormholeContext, so it is
+   * only built once however many services are created.
+   */
+  async initialize(config: BridgeConfig = this.config): Promise<void> {
+    if (!SUPPORTED_NETWORKS.includes(config.network)) {
+      throw new NetworkNotSupportedError(config.network);
+    }
+
+    const routePriority = config.preferredRoutes ?? DEFAULT_ROUTE_PRIORITY;
+    const unknownRoutes = routePriority.filter((type) => !ROUTE_CONSTRUCTORS[type]);
+    if (routePriority.length === 0 || unknownRoutes.length > 0) {
+      throw new InvalidConfigError('preferredRoutes must list at least one known route type', {
+        preferredRoutes: config.preferredRoutes,
+        unknownRoutes,
+      });
+    }
+
+    const context =
+      this.options.context?.network === config.network
+        ? this.options.context
+        : getWormholeContext(config.network, config.rpcUrls);
+    await context.getResolver(routePriority);
+
+    this.config = config;
+    this.context = context;
+    this.tracker = new TrackingService(
+      this.options.statusProvider ?? createStatusProvider(config.network, () => context.getWormhole()),
+      this.events
+    );
+  }
+
+  /**
+   * Get the best quote for a request
+   *
+   * Returns the first successful quote in route priority order, or the quote
+   * for `request.routeType` when one is given.
+   */
+  async getQuote(request: QuoteRequest): Promise<BridgeQuote> {
+    const quotes = await this.getAllQuotes(request);
+    const quote = quotes.find((q) => q.success);
+
+    if (!quote) {
+      throw new QuoteFailedError(quotes[0]?.error ?? ERROR_MESSAGES.NO_ROUTES_FOUND, { quotes });
+    }
+
+    return quote;
+  }
+
+  /**
+   * Get quotes for every route available for a request
+   *
+   * Failed routes are kept in the result with `success: false` and the reason
+   * in `error`, so callers can show why a route is unavailable. Successful
+   * quotes are served from the quote cache until they expire, and each one
+   * emits QUOTE_FETCHED. With a `prices` option, throws AmountOutOfRangeError
+   * for an amount outside the USD transfer limits.
+   */
+  async getAllQuotes(request: QuoteRequest): Promise<BridgeQuote[]> {
+    await this.assertWithinLimits(request);
+    const resolved = await this.resolveRequest(request);
+
+    return Promise.all(
+      resolved.routes.map(async ({ type, route }) => {
+        const cacheKey = getQuoteCacheKey(request, type);
+        const cached = this.quoteCache?.get(cacheKey);
+        if (cached) {
+          this.events.emit(BridgeEventType.QUOTE_FETCHED, toQuoteEventData(request, cached.quote, true));
+          return checkSwapConstraints(request, cached.quote);
+        }
+
+        try {
+          const validated = await this.retry('validate', () =>
+            route.validate(resolved.transferRequest, toTransferParams(request, type, route))
+          );
+          if (!validated.valid) {
+            this.logger.debug(`${type} validation failed`, validated.error);
+            return failedQuote(request, type, validated.error.message);
+          }
+
+          const quote = await this.retry('quote', () => route.quote(resolved.transferRequest, validated.params));
+          if (!quote.success) {
+            this.logger.debug(`${type} quote failed`, quote.error);
+            return failedQuote(request, type, quote.error.message);
+          }
+
+          const bridgeQuote = toBridgeQuote(request, type, quote, resolved.destinationToken, this.config.network);
+          if (this.quoteCache) {
+            bridgeQuote.expiresAt = this.quoteCache.set(cacheKey, bridgeQuote, bridgeQuote.timestamp).expiresAt;
+          }
+          this.events.emit(BridgeEventType.QUOTE_FETCHED, toQuoteEventData(request, bridgeQuote, false));
+          return checkSwapConstraints(request, bridgeQuote);
+        } catch (error) {
+          this.logger.debug(`${type} quote failed`, error);
+          return failedQuote(request, type, getErrorReason(error));
+        }
+      })
+    );
+  }
+
+  /**
+   * Get every route available for a request, in route priority order
+   */
+  async getAllRoutes(request: QuoteRequest): Promise<Route[]> {
+    const resolved = await this.resolveRequest(request);
+    return resolved.routes.map(({ type }) => getRouteInfo(type));
+  }
+
+  /**
+   * Tokens the routes can deliver on the destination chain for a request,
+   * native and Wormhole-wrapped - pass one as `destinationToken` to receive it
+   *
+   * Without a `destinationToken`, quotes deliver the first of them.
+   */
+  async getDestinationTokens(request: QuoteRequest): Promise<DestinationToken[]> {
+    const context = await this.getContext();
+    const { dstChain, source } = await this.resolveChains(context, request);
+    return this.retry('getDestinationTokens', () =>
+      context.getDestinationTokens(this.config.preferredRoutes ?? DEFAULT_ROUTE_PRIORITY, source, dstChain.chain)
+    );
+  }
+
+  /**
+   * Compare routes by quoting each of them for the request
+   *
+   * Routes are scored with compareQuotes, best first; routes that fail to
+   * quote are left out. Without `options.getUsdPrice`, fees and amounts are
+   * priced with the `prices` option when there is one.
+   */
+  async compareRoutes(
+    routeList: Route[],
+    request: QuoteRequest,
+    options: RouteComparisonOptions = {}
+  ): Promise<RouteComparison[]> {
+    const types = routeList.map((route) => route.type);
+    const quotes = (await this.getAllQuotes(request)).filter(
+      (quote) => quote.success && types.includes(quote.route.type)
+    );
+
+    const { prices } = this.options;
+    if (prices && !options.getUsdPrice) {
+      await prices.getUsdPrices(quotes.flatMap(getQuoteTokens));
+      options = { ...options, getUsdPrice: (token) => prices.getCachedUsdPrice(token) };
+    }
+
+    return compareQuotes(quotes, options).map((comparison) => ({ ...comparison, route: comparison.quote.route }));
+  }
+
+  /**
+   * Execute a transfer with the given signer
+   *
+   * Uses `params.route` (or the route of `params.quote`) when given, otherwise
+   * the first route that validates in route priority order. The signer must be
+   * able to sign and send on the source chain - WalletWrongNetworkError
+   * otherwise. Throws QuoteExpiredError if
+   * `params.quote` has expired. Validation and quoting are retried per
+   * `config.retries`/`timeout`; submitting the transfer never is.
+   *
+   * Emits TRANSFER_INITIATED, TRANSFER_STARTED once a route is chosen, then
+   * TRANSFER_CONFIRMED with the receipt or ERROR_OCCURRED.
+   */
+  async executeTransfer(params: TransferParams, signer: WormholeSigner): Promise<TransferReceipt> {
+    this.events.emit(BridgeEventType.TRANSFER_INITIATED, toTransferEventData(params));
+
+    try {
+      const receipt = await this.sendTransfer(params, signer);
+      this.events.emit(BridgeEventType.TRANSFER_CONFIRMED, { receipt });
+      return receipt;
+    } catch (error) {
+      this.events.emitError(error, 'transfer');
+      throw error;
+    }
+  }
+
+  /**
+   * Get the current progress of a transfer from the status provider
+   *
+   * Use TrackingService directly to poll until completion.
+   */
+  async trackTransfer(txHash: string): Promise<TransferProgress> {
+    await this.getWormhole();
+    return this.tracker!.getProgress({ txHash });
+  }
+
+  /**
+   * Get the initialized Wormhole SDK instance
+   */
+  async getWormhole(): Promise<Wormhole<SdkNetwork>> {
+    return (await this.getContext()).getWormhole();
+  }
+
+  /**
+   * Get the Wormhole context this service uses
+   */
+  async getContext(): Promise<WormholeContext> {
+    if (!this.context) {
+      await this.initialize();
+    }
+    return this.context!;
+  }
+
+  /**
+   * The network this service was configured for
+   */
+  get network(): Network {
+    return this.config.network;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * Validate, quote and initiate a transfer on the first usable route
+   */
+  private async sendTransfer(params: TransferParams, signer: WormholeSigner): Promise<TransferReceipt> {
+    if (params.quote) {
+      assertQuoteNotExpired(params.quote);
+    }
+
+    const request = toQuoteRequest(params);
+    await this.assertWithinLimits(request);
+
+    const resolved = await this.resolveRequest(request);
+    assertChainSigner(signer, resolved.transferRequest.fromChain.chain, { request });
+
+    let lastError = ERROR_MESSAGES.NO_ROUTES_FOUND as string;
+    for (const { type, route } of resolved.routes) {
+      const validated = await this.retry('validate', () =>
+        route.validate(resolved.transferRequest, toTransferParams(request, type, route))
+      );
+      if (!validated.valid) {
+        lastError = validated.error.message;
+        if (request.routeType) {
+          throw new RouteValidationFailedError(ROUTE_METADATA[type].name, lastError, { request });
+        }
+        continue;
+      }
+
+      const quote = await this.retry('quote', () => route.quote(resolved.transferRequest, validated.params));
+      if (!quote.success) {
+        throw new QuoteFailedError(quote.error.message, { routeType: type, request });
+      }
+
+      // The route may have re-quoted outside the user's slippage or deadline since they accepted
+      const bridgeQuote = toBridgeQuote(request, type, quote, resolved.destinationToken, this.config.network);
+      const constraintError = getSwapConstraintError(bridgeQuote, request);
+      if (constraintError) {
+        throw new RouteValidationFailedError(ROUTE_METADATA[type].name, constraintError, { request });
+      }
+
+      this.events.emit(BridgeEventType.TRANSFER_STARTED, { ...toTransferEventData(params), routeType: type });
+      this.logger.debug(`Initiating ${type} transfer`, { request, quote });
+
+      // Not retried - initiate signs and sends, so a retry could submit the transfer twice
+      try {
+        const recipient = Wormhole.chainAddress(
+          resolved.transferRequest.toChain.chain,
+          params.recipientAddress
+        );
+        const receipt = await route.initiate(resolved.transferRequest, signer, quote, recipient);
+
+        this.logger.debug('Transfer receipt', receipt);
+        return toTransferReceipt(receipt, type, this.config.network);
+      } catch (error) {
+        throw classifyError(error, {
+          stage: 'transfer',
+          routeName: ROUTE_METADATA[type].name,
+          chain: request.sourceChain,
+          token: request.token.symbol,
+          amount: params.amount,
+        });
+      }
+    }
+
+    throw new RouteValidationFailedError('all routes', lastError, { request });
+  }
+
+  /**
+   * Check a request's amount against the USD transfer limits, when there are prices
+   */
+  private async assertWithinLimits(request: QuoteRequest): Promise<void> {
+    if (!this.options.prices || !/^\d+$/.test(request.amount)) return;
+    await this.options.prices.assertWithinLimits({
+      token: request.token,
+      amount: { amount: request.amount, decimals: request.token.decimals },
+    });
+  }
+
+  /**
+   * Retry an idempotent SDK call per the configured `retries` and `timeout`
+   */
+  private retry<T>(label: string, operation: () => Promise<T>): Promise<T> {
+    return withRetry(operation, { ...toRetryOptions(this.config), label });
+  }
+
+  /**
+   * Chain contexts of a request's chains and the SDK token it sends
+   */
+  private async resolveChains(context: WormholeContext, request: QuoteRequest): Promise<ResolvedChains> {
+    let srcChain, dstChain;
+    try {
+      srcChain = await context.getChain(request.sourceChain);
+    } catch (error) {
+      throw new ChainNotSupportedError(request.sourceChain, { originalError: error });
+    }
+    try {
+      dstChain = await context.getChain(request.destChain);
+    } catch (error) {
+      throw new ChainNotSupportedError(request.destChain, { originalError: error });
+    }
+
+    const source = Wormhole.tokenId(
+      srcChain.chain,
+      isNativeToken(request.token) ? 'native' : request.token.address
+    );
+
+    return { srcChain, dstChain, source };
+  }
+
+  /**
+   * Build the SDK transfer request for a quote request and find its routes
+   */
+  private async resolveRequest(request: QuoteRequest): Promise<ResolvedRequest> {
+    const context = await this.getContext();
+    const wh = await context.getWormhole();
+    const routePriority = this.config.preferredRoutes ?? DEFAULT_ROUTE_PRIORITY;
+    const resolver = await context.getResolver(routePriority);
+    const { srcChain, dstChain, source } = await this.resolveChains(context, request);
+
+    const destTokens = await this.retry('supportedDestinationTokens', () =>
+      context.supportedDestinationTokens(routePriority, source, dstChain.chain)
+    );
+    if (destTokens.length === 0) {
+      throw new NoRoutesFoundError({ reason: 'No supported destination tokens found', request });
+    }
+
+    const destination = request.destinationToken
+      ? destTokens.find((tokenId) => isSameToken(tokenId, request.destinationToken!))
+      : destTokens[0];
+    if (!destination) {
+      throw new NoRoutesFoundError({
+        reason: `${request.destinationToken!.symbol} is not a supported destination token`,
+        request,
+      });
+    }
+
+    // Same list, described - the delivered token's symbol and decimals are its own, not the source token's
+    const described = await this.retry('getDestinationTokens', () =>
+      context.getDestinationTokens(routePriority, source, dstChain.chain)
+    );
+    const destinationToken = toDestinationToken(
+      destination,
+      described.find(({ token }) => isSameToken(destination, token))?.token ?? request.destinationToken,
+      request,
+      this.config.network
+    );
+
+    const transferRequest = await this.retry('createTransferRequest', () =>
+      routes.RouteTransferRequest.create(
+        wh,
+        {
+          source,
+          destination,
+          sender: Wormhole.chainAddress(srcChain.chain, request.senderAddress),
+          recipient: Wormhole.chainAddress(dstChain.chain, request.recipientAddress),
+        },
+        srcChain,
+        dstChain
+      )
+    );
+
+    const found = await this.retry('findRoutes', () => resolver.findRoutes(transferRequest));
+    const resolvedRoutes = found
+      .map((route) => ({ type: getRouteType(route), route }))
+      .filter((r): r is ResolvedRoute => r.type !== null)
+      .filter((r) => !request.routeType || r.type === request.routeType);
+
+    if (resolvedRoutes.length === 0) {
+      throw new NoRoutesFoundError({ request });
+    }
+
+    return { transferRequest, routes: resolvedRoutes, destinationToken };
+  }
+}
+
+// ============================================================================
+// Conversion Helpers
+// ============================================================================
+
+/**
+ * Convert a base-unit amount into the decimal string the SDK routes expect
+ */
+function toDisplayAmount(request: QuoteRequest): string {
+  if (!/^\d+$/.test(request.amount)) {
+    throw new InvalidAmountError(request.amount);
+  }
+  return sdkAmount.fmt(BigInt(request.amount), request.token.decimals);
+}
+
+/**
+ * Route transfer params - only automatic routes can drop off native gas, and
+ * swap routes take their own options, with the request's slippage limit
+ */
+function toTransferParams(request: QuoteRequest, routeType: RouteType, route: routes.Route<SdkNetwork>) {
+  const metadata = ROUTE_METADATA[routeType];
+  if (metadata.isSwap) {
+    const options = {
+      ...route.getDefaultOptions(),
+      ...(request.slippage !== undefined && { slippageBps: request.slippage }),
+    };
+    return { amount: toDisplayAmount(request), options };
+  }
+  const nativeGas = metadata.isAutomatic ? (request.nativeGas ?? 0) : 0;
+  return { amount: toDisplayAmount(request), options: { nativeGas } };
+}
+
+function toToken(tokenId: TokenId, decimals: number, symbol: string, network: Network): Token {
+  return {
+    address: tokenId.address === 'native' ? NATIVE_TOKEN_ADDRESS : tokenId.address.toString(),
+    symbol,
+    decimals,
+    chainId: getChainId(tokenId.chain, network) ?? 0,
+  };
+}
+
+/**
+ * The token a request's routes deliver - the requested or described token, or
+ * the source token's symbol when neither is known
+ */
+function toDestinationToken(
+  tokenId: TokenId,
+  described: Token | undefined,
+  request: QuoteRequest,
+  network: Network
+): Token {
+  const token = toToken(tokenId, described?.decimals ?? request.token.decimals, request.token.symbol, network);
+  return described ? { ...token, symbol: described.symbol } : token;
+}
+
+function toBridgeQuote(
+  request: QuoteRequest,
+  routeType: RouteType,
+  quote: routes.Quote<routes.Options>,
+  resolvedDestination: Token,
+  network: Network
+): BridgeQuote {
+  const { symbol } = request.token;
+  const relayFee = quote.relayFee
+    ? {
+        token: toToken(quote.relayFee.token, quote.relayFee.amount.decimals, symbol, network),
+        amount: quote.relayFee.amount,
+      }
+    : undefined;
+
+  const timestamp = Date.now();
+  const destinationNativeGas = quote.destinationNativeGas
+    ? {
+        token: {
+          address: NATIVE_TOKEN_ADDRESS,
+          symbol: NATIVE_TOKEN_SYMBOLS[request.destChain] ?? 'native',
+          decimals: quote.destinationNativeGas.decimals,
+          chainId: getChainId(request.destChain, network) ?? 0,
+        },
+        amount: quote.destinationNativeGas,
+      }
+    : undefined;
+
+  // Swap routes deliver another token - the swap quote knows its symbol
+  const { token: destinationTokenId, amount: destinationAmount } = quote.destinationToken;
+  const destinationToken = isSameToken(destinationTokenId, resolvedDestination)
+    ? { ...resolvedDestination, decimals: destinationAmount.decimals }
+    : toToken(destinationTokenId, destinationAmount.decimals, symbol, network);
+  const swap = getSwapDetails(quote, destinationToken);
+
+  return {
+    sourceToken: { token: request.token, amount: quote.sourceToken.amount },
+    destinationToken: {
+      token: swap?.minReceived.token ?? destinationToken,
+      amount: destinationAmount,
+    },
+    route: getRouteInfo(routeType, relayFee),
+    relayFee,
+    destinationNativeGas,
+    swap,
+    eta: quote.eta ?? ROUTE_METADATA[routeType].averageTime,
+    success: true,
+    timestamp,
+    expiresAt: timestamp + TIMING.QUOTE_EXPIRATION_MS,
+  };
+}
+
+/**
+ * The quote, or a failed quote when it cannot honor the request's slippage or deadline
+ */
+function checkSwapConstraints(request: QuoteRequest, quote: BridgeQuote): BridgeQuote {
+  const error = getSwapConstraintError(quote, request);
+  return error ? failedQuote(request, quote.route.type, error) : quote;
+}
+
+// A destination token the routes support is the requested token
+function isSameToken(tokenId: TokenId, token: Token): boolean {
+  if (tokenId.address === 'native') return token.address === NATIVE_TOKEN_ADDRESS;
+  return tokenId.address.toString().toLowerCase() === token.address.toLowerCase();
+}
+
+function toTransferEventData(params: TransferParams): TransferEventData {
+  return {
+    sourceChain: params.sourceChain,
+    destChain: params.destChain,
+    token: params.token.symbol,
+    amount: params.amount,
+    routeType: params.route?.type ?? params.quote?.route.type,
+  };
+}
+
+function toQuoteEventData(request: QuoteRequest, quote: BridgeQuote, cached: boolean): QuoteEventData {
+  return {
+    sourceChain: request.sourceChain,
+    destChain: request.destChain,
+    token: request.token.symbol,
+    amount: request.amount,
+    routeType: quote.route.type,
+    eta: quote.eta,
+    relayFee: quote.relayFee?.amount.amount,
+    cached,
+  };
+}
+
+function failedQuote(request: QuoteRequest, routeType: RouteType, error: string): BridgeQuote {
+  const noAmount = { amount: '0', decimals: request.token.decimals };
+  return {
+    sourceToken: { token: request.token, amount: { amount: request.amount, decimals: request.token.decimals } },
+    destinationToken: { token: request.token, amount: noAmount },
+    route: getRouteInfo(routeType),
+    eta: ROUTE_METADATA[routeType].averageTime,
+    success: false,
+    error,
+    timestamp: Date.now(),
+  };
+}
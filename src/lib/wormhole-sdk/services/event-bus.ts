@@ -0,0 +1,166 @@
+/**
+ * Bridge Event Bus
+ *
+ * Typed events for the steps of a transfer (quotes, approvals, the source
+ * transaction, attestation, claim, completion, errors). Services emit them on
+ * the shared `bridgeEvents` bus unless given their own, so analytics,
+ * notifiers and UI code can follow transfers without touching the services.
+ */
+
+import {
+  BridgeEventType,
+  type AnyBridgeEvent,
+  type BridgeEvent,
+  type BridgeEventData,
+  type BridgeEventListener,
+  type ErrorStage,
+} from '../core/types';
+import { classifyError, isWormholeError } from '../core/errors';
+import { getLogger } from '../utils/logger';
+
+type AnyListener = (event: AnyBridgeEvent) => void | Promise<void>;
+
+const logger = getLogger('sdk:events');
+
+export class BridgeEventBus {
+  private readonly listeners = new Map<BridgeEventType, Set<BridgeEventListener<any>>>();
+  private readonly anyListeners = new Set<AnyListener>();
+
+  /**
+   * Subscribe to one event type - returns the unsubscribe function
+   */
+  on<T extends BridgeEventType>(type: T, listener: BridgeEventListener<T>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to the next event of a type only
+   */
+  once<T extends BridgeEventType>(type: T, listener: BridgeEventListener<T>): () => void {
+    const unsubscribe = this.on(type, (event) => {
+      unsubscribe();
+      return listener(event);
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * Subscribe to every event - returns the unsubscribe function
+   */
+  onAny(listener: AnyListener): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Emit an event to its listeners and to every onAny listener
+   *
+   * Listeners run synchronously in subscription order. A listener that
+   * throws or rejects is logged and skipped - it never fails the transfer.
+   */
+  emit<T extends BridgeEventType>(type: T, data: BridgeEventData[T]): BridgeEvent<T> {
+    const event: BridgeEvent<T> = { type, timestamp: Date.now(), data };
+    const listeners = [...(this.listeners.get(type) ?? []), ...this.anyListeners] as BridgeEventListener<T>[];
+
+    for (const listener of listeners) {
+      try {
+        Promise.resolve(listener(event)).catch((error) =>
+          reportListenerError(type, error)
+        );
+      } catch (error) {
+        reportListenerError(type, error);
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Emit ERROR_OCCURRED for a failure, classified into a WormholeError
+   */
+  emitError(error: unknown, stage?: ErrorStage, txHash?: string): void {
+    this.emit(BridgeEventType.ERROR_OCCURRED, { error: classifyError(error, { stage, txHash }), stage, txHash });
+  }
+
+  /**
+   * Remove every listener
+   */
+  clear(): void {
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+}
+
+/**
+ * Bus the services emit on by default
+ */
+export const bridgeEvents = new BridgeEventBus();
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+export interface WebhookListenerOptions {
+  /** Event types to forward - defaults to all */
+  types?: BridgeEventType[];
+  headers?: Record<string, string>;
+  /** fetch implementation - defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Listener that POSTs events to a webhook URL as JSON, for `bus.onAny`
+ *
+ * Bigints are sent as strings and errors as `{ name, code, message }`.
+ * Delivery failures are logged, not retried.
+ */
+export function createWebhookListener(url: string, options: WebhookListenerOptions = {}): AnyListener {
+  const { types, headers, fetch: fetchFn = fetch } = options;
+
+  return async (event) => {
+    if (types && !types.includes(event.type)) return;
+
+    const response = await fetchFn(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: serializeEvent(event),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+  };
+}
+
+/**
+ * JSON for an event - bigints become strings, errors `{ name, code, message }`
+ */
+export function serializeEvent(event: AnyBridgeEvent): string {
+  return JSON.stringify(event, function (this: Record<string, unknown>, key, value) {
+    // `value` has already been through toJSON - check the raw property for errors
+    const raw = this[key];
+    if (raw instanceof Error) {
+      return { name: raw.name, code: isWormholeError(raw) ? raw.code : undefined, message: raw.message };
+    }
+    if (typeof value === 'bigint') return value.toString();
+    return value;
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function reportListenerError(type: BridgeEventType, error: unknown): void {
+  logger.warn(`Listener for ${type} failed`, error);
+}
@@ -0,0 +1,70 @@
+/**
+ * Fallback Status Provider
+ *
+ * TransferStatusProvider that asks several providers in turn, so a gap in one
+ * (e.g. a transfer an indexer has not picked up) does not decide a transfer's
+ * status. Later providers are only asked while the transfer is still
+ * unfinished, and the furthest state any of them reports wins.
+ */
+
+import type { Network as SdkNetwork, Wormhole } from '@wormhole-foundation/sdk';
+
+import type { Network, TrackedTransfer, TransferStatusProvider, TransferStatusSnapshot } from '../core/types';
+import { RouteStatusProvider } from './route-status-provider';
+import { WormholescanStatusProvider } from './wormholescan-status-provider';
+
+export class FallbackStatusProvider implements TransferStatusProvider {
+  constructor(private readonly providers: TransferStatusProvider[]) {}
+
+  /**
+   * Throws the first provider's error only when every provider failed
+   */
+  async getStatus(txHash: string, transfer?: TrackedTransfer): Promise<TransferStatusSnapshot | null> {
+    let merged: TransferStatusSnapshot | null = null;
+    const errors: unknown[] = [];
+
+    for (const provider of this.providers) {
+      try {
+        const snapshot = await provider.getStatus(txHash, transfer);
+        merged = mergeSnapshots(merged, snapshot);
+      } catch (error) {
+        errors.push(error);
+      }
+
+      if (merged?.destinationTx || merged?.error) break;
+    }
+
+    if (errors.length === this.providers.length && errors.length > 0) {
+      throw errors[0];
+    }
+    return merged;
+  }
+}
+
+/**
+ * The default status source: Wormholescan, then the transfer's own route for
+ * transfers Wormholescan has not indexed or not caught up with
+ */
+export function createStatusProvider(
+  network: Network,
+  getWormhole: () => Promise<Wormhole<SdkNetwork>>
+): TransferStatusProvider {
+  return new FallbackStatusProvider([new WormholescanStatusProvider(network), new RouteStatusProvider(getWormhole)]);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function mergeSnapshots(
+  a: TransferStatusSnapshot | null,
+  b: TransferStatusSnapshot | null
+): TransferStatusSnapshot | null {
+  if (!a || !b) return a ?? b;
+  return {
+    sourceObserved: a.sourceObserved || b.sourceObserved,
+    attested: a.attested || b.attested,
+    destinationTx: a.destinationTx ?? b.destinationTx,
+    error: a.error ?? b.error,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Transfer History Storage Backends
+ *
+ * MemoryHistoryStorage for servers and scripts, LocalStorageHistoryStorage for
+ * the browser. Other backends (a database, Redis, ...) only need to implement
+ * TransferHistoryStorage.
+ */
+
+import type { TransferHistoryStorage, TransferRecord } from '../core/types';
+
+export class MemoryHistoryStorage implements TransferHistoryStorage {
+  private readonly records = new Map<string, TransferRecord>();
+
+  async list(): Promise<TransferRecord[]> {
+    return [...this.records.values()];
+  }
+
+  async get(txHash: string): Promise<TransferRecord | null> {
+    return this.records.get(txHash) ?? null;
+  }
+
+  async put(record: TransferRecord): Promise<void> {
+    this.records.set(record.receipt.txHash, record);
+  }
+
+  async remove(txHash: string): Promise<void> {
+    this.records.delete(txHash);
+  }
+}
+
+export const DEFAULT_HISTORY_STORAGE_KEY = 'wormhole-bridge:transfers';
+
+/**
+ * Browser storage - behaves as empty when localStorage is unavailable (SSR)
+ */
+export class LocalStorageHistoryStorage implements TransferHistoryStorage {
+  constructor(private readonly key: string = DEFAULT_HISTORY_STORAGE_KEY) {}
+
+  async list(): Promise<TransferRecord[]> {
+    return Object.values(this.read());
+  }
+
+  async get(txHash: string): Promise<TransferRecord | null> {
+    return this.read()[txHash] ?? null;
+  }
+
+  async put(record: TransferRecord): Promise<void> {
+    const records = this.read();
+    records[record.receipt.txHash] = record;
+    this.write(records);
+  }
+
+  async remove(txHash: string): Promise<void> {
+    const records = this.read();
+    delete records[txHash];
+    this.write(records);
+  }
+
+  private read(): Record<string, TransferRecord> {
+    if (typeof localStorage === 'undefined') return {};
+
+    try {
+      return JSON.parse(localStorage.getItem(this.key) ?? '{}');
+    } catch {
+      // Corrupted entry - start over rather than breaking the app
+      return {};
+    }
+  }
+
+  private write(records: Record<string, TransferRecord>): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(this.key, JSON.stringify(records));
+  }
+}
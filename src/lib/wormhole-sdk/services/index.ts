@@ -0,0 +1,44 @@
+/**
+ * Wormhole Bridge SDK - Services Module
+ *
+ * Business logic services built on top of the Wormhole SDK
+ *
+ * @module services
+ */
+
+export { BridgeService, type BridgeServiceOptions } from './bridge-service';
+export { WormholeContext, getWormholeContext, resetWormholeContexts } from './wormhole-context';
+export { RpcManager } from './rpc-manager';
+export { ROUTE_CONSTRUCTORS, getRouteType } from './route-registry';
+export { QuoteService } from './quote-service';
+export { TransferService, type OriginTransaction } from './transfer-service';
+export { TrackingService, type TrackTransferOptions } from './tracking-service';
+export { WormholescanStatusProvider } from './wormholescan-status-provider';
+export { RouteStatusProvider } from './route-status-provider';
+export { FallbackStatusProvider, createStatusProvider } from './fallback-status-provider';
+export { RecipientService } from './recipient-service';
+export { PreflightService } from './preflight-service';
+export { ApprovalService } from './approval-service';
+export {
+  BridgeEventBus,
+  bridgeEvents,
+  createWebhookListener,
+  serializeEvent,
+  type WebhookListenerOptions,
+} from './event-bus';
+export { TokenRegistry } from './token-registry';
+export {
+  QuoteCache,
+  getQuoteCacheKey,
+  type QuoteCacheKey,
+  type QuoteCacheRequest,
+  type CachedQuote,
+} from './quote-cache';
+export { TransferHistory } from './transfer-history';
+export {
+  MemoryHistoryStorage,
+  LocalStorageHistoryStorage,
+  DEFAULT_HISTORY_STORAGE_KEY,
+} from './history-storage';
+export { PriceService, type PriceServiceOptions } from './price-service';
+export { HttpPriceProvider, OnChainPriceProvider, StaticPriceProvider } from './price-providers';
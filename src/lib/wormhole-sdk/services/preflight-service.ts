@@ -0,0 +1,205 @@
+/**
+ * Pre-flight Service
+ *
+ * Checks that a sender can afford a transfer before the wallet is asked to
+ * sign anything: the token balance, the ERC-20 allowance to the route's
+ * spender, native gas for the approval and transfer, and a relay fee charged
+ * on the source chain.
+ */
+
+import {
+  Wormhole,
+  amount as sdkAmount,
+  type ChainContext,
+  type Network as SdkNetwork,
+} from '@wormhole-foundation/sdk';
+
+import {
+  isNativeToken,
+  type BridgeConfig,
+  type Network,
+  type PreflightRequest,
+  type PreflightResult,
+  type Token,
+} from '../core/types';
+import { CHAIN_PLATFORMS, DEFAULT_NETWORK, FEES, NATIVE_TOKEN_SYMBOLS } from '../core/constants';
+import {
+  ChainNotSupportedError,
+  InsufficientAllowanceError,
+  InsufficientBalanceError,
+  InvalidAmountError,
+} from '../core/errors';
+import { getChainId, getSdkChain } from '../utils/chains';
+import { ApprovalService } from './approval-service';
+import { BridgeService, type BridgeServiceOptions } from './bridge-service';
+
+export class PreflightService {
+  private readonly bridge: BridgeService;
+  private readonly approvals: ApprovalService;
+  private readonly network: Network;
+
+  constructor(config: BridgeConfig = { network: DEFAULT_NETWORK }, options: BridgeServiceOptions = {}) {
+    this.bridge = new BridgeService(config, options);
+    this.approvals = new ApprovalService(config, options);
+    this.network = config.network;
+  }
+
+  /**
+   * Check whether the sender can afford a transfer
+   *
+   * Shortfalls come back as errors rather than being thrown: an
+   * InsufficientBalanceError for the token or for native gas (plus the
+   * amount, for native tokens, and a native relay fee), and an
+   * InvalidAmountError when a relay fee in the transferred token eats the
+   * whole amount. A short allowance is returned as `approval` - send it with
+   * ApprovalService before the transfer; its gas is included in `gasCost`.
+   */
+  async check(request: PreflightRequest): Promise<PreflightResult> {
+    const { chain, token, senderAddress, routeType, relayFee } = request;
+    if (!/^\d+$/.test(request.amount)) {
+      throw new InvalidAmountError(request.amount);
+    }
+
+    const amount = BigInt(request.amount);
+    const native = isNativeToken(token);
+    const context = await this.getChain(chain);
+
+    const spender = !native && routeType ? await this.approvals.getSpender(chain, routeType) : undefined;
+
+    const [nativeBalance, tokenBalance, allowance] = await Promise.all([
+      getBalance(context, senderAddress),
+      native ? null : getBalance(context, senderAddress, token),
+      spender ? this.approvals.getAllowance(chain, token, senderAddress, spender) : null,
+    ]);
+
+    const needsApproval = allowance !== null && allowance < amount;
+    const gasCost = await this.estimateGasCost(chain, { approval: needsApproval });
+
+    const errors: PreflightResult['errors'] = [];
+    const nativeSymbol = NATIVE_TOKEN_SYMBOLS[chain] ?? 'native token';
+    const nativeDecimals = context.config.nativeTokenDecimals;
+
+    // A relay fee in the transferred token comes out of the amount, one in the
+    // native token is paid on top of gas
+    const relayFeeAmount = relayFee ? BigInt(relayFee.amount.amount) : 0n;
+    const feeFromAmount = relayFee?.token.address.toLowerCase() === token.address.toLowerCase();
+    const nativeRelayFee = relayFee && !feeFromAmount && isNativeToken(relayFee.token) ? relayFeeAmount : 0n;
+    if (feeFromAmount && relayFeeAmount >= amount) {
+      errors.push(
+        new InvalidAmountError(request.amount, {
+          reason: 'Amount does not cover the relay fee',
+          relayFee: format(relayFeeAmount, token.decimals),
+        })
+      );
+    }
+
+    if (tokenBalance !== null && tokenBalance < amount) {
+      errors.push(
+        new InsufficientBalanceError(
+          format(amount, token.decimals),
+          format(tokenBalance, token.decimals),
+          token.symbol,
+          { chain }
+        )
+      );
+    }
+
+    const nativeRequired = gasCost + nativeRelayFee + (native ? amount : 0n);
+    if (nativeBalance < nativeRequired) {
+      errors.push(
+        new InsufficientBalanceError(
+          format(nativeRequired, nativeDecimals),
+          format(nativeBalance, nativeDecimals),
+          nativeSymbol,
+          { chain, gasCost: format(gasCost, nativeDecimals), relayFee: format(nativeRelayFee, nativeDecimals) }
+        )
+      );
+    }
+
+    const approval = needsApproval
+      ? new InsufficientAllowanceError(
+          format(amount, token.decimals),
+          format(allowance ?? 0n, token.decimals),
+          token.symbol,
+          { chain, spender }
+        )
+      : null;
+
+    return {
+      ok: errors.length === 0,
+      errors,
+      approval,
+      tokenBalance: tokenBalance ?? nativeBalance,
+      nativeBalance,
+      allowance,
+      gasCost,
+    };
+  }
+
+  /**
+   * Estimated native cost (base units) of sending a transfer, and an approval
+   * before it if `approval` is set, with FEES.GAS_BUFFER_PERCENT added
+   */
+  async estimateGasCost(chain: string, options: { approval?: boolean } = {}): Promise<bigint> {
+    let cost: bigint;
+
+    switch (CHAIN_PLATFORMS[chain]) {
+      case 'Evm': {
+        const rpc: any = await (await this.getChain(chain)).getRpc();
+        const { maxFeePerGas, gasPrice } = await rpc.getFeeData();
+        const gasLimit = FEES.TRANSFER_GAS_LIMIT + (options.approval ? FEES.APPROVAL_GAS_LIMIT : 0);
+        cost = BigInt(gasLimit) * BigInt(maxFeePerGas ?? gasPrice ?? 0n);
+        break;
+      }
+      case 'Solana':
+        cost = BigInt(FEES.SOLANA_TRANSFER_FEE_LAMPORTS);
+        break;
+      default:
+        throw new ChainNotSupportedError(chain);
+    }
+
+    return (cost * BigInt(100 + FEES.GAS_BUFFER_PERCENT)) / 100n;
+  }
+
+  /**
+   * Largest amount (base units) of a token the sender can transfer - the
+   * whole balance, less estimated gas for native tokens
+   */
+  async getMaxAmount(chain: string, token: Token, senderAddress: string): Promise<bigint> {
+    const native = isNativeToken(token);
+    const context = await this.getChain(chain);
+    const balance = await getBalance(context, senderAddress, native ? undefined : token);
+    if (!native) return balance;
+
+    const gasCost = await this.estimateGasCost(chain);
+    return balance > gasCost ? balance - gasCost : 0n;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private async getChain(chain: string): Promise<ChainContext<SdkNetwork>> {
+    const chainId = getChainId(chain, this.network);
+    const sdkChain = chainId === undefined ? undefined : getSdkChain(chainId, this.network);
+    if (!sdkChain) {
+      throw new ChainNotSupportedError(chain, { network: this.network });
+    }
+    const wh = await this.bridge.getWormhole();
+    return wh.getChain(sdkChain);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Balance of a token, or of the native token when none is given
+async function getBalance(context: ChainContext<SdkNetwork>, owner: string, token?: Token): Promise<bigint> {
+  const address = token ? Wormhole.tokenId(context.chain, token.address).address : 'native';
+  return (await context.getBalance(owner, address)) ?? 0n;
+}
+
+function format(value: bigint, decimals: number): string {
+  return sdkAmount.fmt(value, decimals);
+}
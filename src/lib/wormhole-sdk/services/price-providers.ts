@@ -0,0 +1,151 @@
+/**
+ * Price Providers
+ *
+ * HttpPriceProvider for the DefiLlama price API, OnChainPriceProvider for
+ * Chainlink feeds and StaticPriceProvider for fixed prices (tests, testnets).
+ * Other sources only need to implement PriceProvider.
+ */
+
+import { Interface } from 'ethers';
+
+import {
+  isNativeToken,
+  type BridgeConfig,
+  type Network,
+  type PriceFeed,
+  type PriceProvider,
+  type Token,
+} from '../core/types';
+import { DEFAULT_NETWORK, PRICING, URLS } from '../core/constants';
+import { getChainName } from '../utils/chains';
+import { getLogger } from '../utils/logger';
+import { getPriceKey } from '../utils/prices';
+import { withRetry } from '../utils/retry';
+import { WormholeContext, getWormholeContext } from './wormhole-context';
+
+const logger = getLogger('sdk:prices');
+
+const AGGREGATOR = new Interface([
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80, int256 answer, uint256, uint256 updatedAt, uint80)',
+]);
+
+/**
+ * Current prices from the DefiLlama coins API - mainnet tokens only
+ */
+export class HttpPriceProvider implements PriceProvider {
+  constructor(
+    private readonly network: Network = DEFAULT_NETWORK,
+    private readonly apiUrl: string = URLS.PRICE_API
+  ) {}
+
+  async getUsdPrices(tokens: Token[]): Promise<(number | undefined)[]> {
+    // Testnet tokens have no market price
+    const ids = tokens.map((token) => (this.network === 'Mainnet' ? toCoinId(token) : undefined));
+    const query = [...new Set(ids.filter((id): id is string => id !== undefined))];
+    if (query.length === 0) return tokens.map(() => undefined);
+
+    const response = await fetch(`${this.apiUrl}/prices/current/${query.join(',')}`);
+    if (!response.ok) {
+      throw new Error(`Price API request failed with status ${response.status}`);
+    }
+
+    const { coins = {} } = (await response.json()) as { coins?: Record<string, { price?: number }> };
+    // EVM addresses come back in whatever case the API stores them in
+    const prices = new Map(Object.entries(coins).map(([id, coin]) => [id.toLowerCase(), coin.price]));
+    return ids.map((id) => (id ? prices.get(id.toLowerCase()) : undefined));
+  }
+}
+
+/**
+ * Prices read from Chainlink-compatible USD feeds
+ *
+ * Feeds are keyed by token symbol (e.g. ETH for native ETH on every chain),
+ * or by getPriceKey for a token on one chain. Mainnet defaults to the
+ * PRICING.CHAINLINK_FEEDS on Ethereum. Answers older than
+ * PRICING.MAX_FEED_AGE_MS are ignored.
+ */
+export class OnChainPriceProvider implements PriceProvider {
+  private readonly context: WormholeContext;
+
+  constructor(
+    config: BridgeConfig = { network: DEFAULT_NETWORK },
+    private readonly feeds: Record<string, PriceFeed> = config.network === 'Mainnet' ? getDefaultFeeds() : {}
+  ) {
+    this.context = getWormholeContext(config.network, config.rpcUrls);
+  }
+
+  async getUsdPrices(tokens: Token[]): Promise<(number | undefined)[]> {
+    // Several tokens can share a feed (ETH and WETH)
+    const reads = new Map<string, Promise<number | undefined>>();
+
+    return Promise.all(
+      tokens.map((token) => {
+        const feed = this.feeds[getPriceKey(token)] ?? this.feeds[token.symbol];
+        if (!feed) return undefined;
+
+        const key = `${feed.chain}:${feed.address.toLowerCase()}`;
+        if (!reads.has(key)) {
+          reads.set(
+            key,
+            this.readFeed(feed).catch((error) => {
+              logger.warn(`Price feed ${feed.address} on ${feed.chain} could not be read`, error);
+              return undefined;
+            })
+          );
+        }
+        return reads.get(key);
+      })
+    );
+  }
+
+  private async readFeed({ chain, address }: PriceFeed): Promise<number | undefined> {
+    const rpc: any = await (await this.context.getChain(chain)).getRpc();
+    const call = (method: 'decimals' | 'latestRoundData') =>
+      withRetry(() => rpc.call({ to: address, data: AGGREGATOR.encodeFunctionData(method) }), { label: method });
+
+    const [decimalsResult, roundResult] = await Promise.all([call('decimals'), call('latestRoundData')]);
+    const decimals = Number(AGGREGATOR.decodeFunctionResult('decimals', decimalsResult as string)[0]);
+    const { answer, updatedAt } = AGGREGATOR.decodeFunctionResult('latestRoundData', roundResult as string);
+
+    if (answer <= 0n || Date.now() - Number(updatedAt) * 1000 > PRICING.MAX_FEED_AGE_MS) {
+      return undefined;
+    }
+    return Number(answer) / 10 ** decimals;
+  }
+}
+
+/**
+ * Fixed prices, keyed by token symbol or by getPriceKey - for tests, fixtures
+ * and testnets
+ */
+export class StaticPriceProvider implements PriceProvider {
+  constructor(private readonly prices: Record<string, number>) {}
+
+  async getUsdPrices(tokens: Token[]): Promise<(number | undefined)[]> {
+    return tokens.map((token) => this.prices[getPriceKey(token)] ?? this.prices[token.symbol]);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// DefiLlama coin ID of a mainnet token - `chain:address`, or the CoinGecko ID of a native token
+function toCoinId(token: Token): string | undefined {
+  const chain = getChainName(token.chainId, 'Mainnet');
+  if (!chain) return undefined;
+
+  if (isNativeToken(token)) {
+    const id = PRICING.NATIVE_PRICE_IDS[chain];
+    return id && `coingecko:${id}`;
+  }
+  const apiChain = PRICING.PRICE_API_CHAINS[chain];
+  return apiChain && `${apiChain}:${token.address}`;
+}
+
+function getDefaultFeeds(): Record<string, PriceFeed> {
+  return Object.fromEntries(
+    Object.entries(PRICING.CHAINLINK_FEEDS).map(([symbol, address]) => [symbol, { chain: 'Ethereum', address }])
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Price Service
+ *
+ * Caches the USD prices of a PriceProvider for PRICING.CACHE_TTL_MS and turns
+ * token amounts, quotes and gas costs into USD. Also enforces the
+ * VALIDATION.MIN/MAX_TRANSFER_AMOUNT_USD limits. Tokens the provider cannot
+ * price (or a provider that fails) are left unpriced rather than throwing, so
+ * pricing never blocks a transfer.
+ */
+
+import type { BridgeQuote, Network, PriceProvider, QuoteUsdValues, Token, TokenAmount } from '../core/types';
+import {
+  CHAIN_PLATFORMS,
+  DEFAULT_NETWORK,
+  NATIVE_TOKEN_ADDRESS,
+  NATIVE_TOKEN_DECIMALS,
+  NATIVE_TOKEN_SYMBOLS,
+  PRICING,
+  VALIDATION,
+} from '../core/constants';
+import { AmountOutOfRangeError } from '../core/errors';
+import { getChainId } from '../utils/chains';
+import { getLogger } from '../utils/logger';
+import { getPriceKey, getQuoteTokens, getQuoteUsdValues, toUsd } from '../utils/prices';
+
+const logger = getLogger('sdk:prices');
+
+export interface PriceServiceOptions {
+  /** How long a fetched price is reused - defaults to PRICING.CACHE_TTL_MS */
+  cacheTtlMs?: number;
+  /** Network native gas tokens are priced on - defaults to DEFAULT_NETWORK */
+  network?: Network;
+}
+
+interface CachedPrice {
+  price: number | undefined;
+  fetchedAt: number;
+}
+
+export class PriceService {
+  private readonly cache = new Map<string, CachedPrice>();
+  private readonly cacheTtlMs: number;
+  private readonly network: Network;
+
+  constructor(
+    private readonly provider: PriceProvider,
+    options: PriceServiceOptions = {}
+  ) {
+    this.cacheTtlMs = options.cacheTtlMs ?? PRICING.CACHE_TTL_MS;
+    this.network = options.network ?? DEFAULT_NETWORK;
+  }
+
+  /**
+   * USD price of one whole token for each token, undefined where there is none
+   *
+   * Tokens without a fresh cached price are fetched in one provider call.
+   */
+  async getUsdPrices(tokens: Token[], now: number = Date.now()): Promise<(number | undefined)[]> {
+    const stale = new Map<string, Token>();
+    for (const token of tokens) {
+      const key = getPriceKey(token);
+      const cached = this.cache.get(key);
+      if (!cached || now - cached.fetchedAt >= this.cacheTtlMs) {
+        stale.set(key, token);
+      }
+    }
+
+    if (stale.size > 0) {
+      const fetching = [...stale.values()];
+      try {
+        const prices = await this.provider.getUsdPrices(fetching);
+        fetching.forEach((token, i) => {
+          this.cache.set(getPriceKey(token), { price: toPrice(prices[i]), fetchedAt: now });
+        });
+      } catch (error) {
+        // Keep whatever was cached before - an old price beats none
+        logger.warn(`Could not fetch prices for ${fetching.map((token) => token.symbol).join(', ')}`, error);
+      }
+    }
+
+    return tokens.map((token) => this.getCachedUsdPrice(token));
+  }
+
+  async getUsdPrice(token: Token): Promise<number | undefined> {
+    const [price] = await this.getUsdPrices([token]);
+    return price;
+  }
+
+  /**
+   * The last price fetched for a token, however old - a UsdPriceLookup for
+   * code that fetched prices beforehand with getUsdPrices
+   */
+  getCachedUsdPrice(token: Token): number | undefined {
+    return this.cache.get(getPriceKey(token))?.price;
+  }
+
+  /**
+   * USD value of a token amount, or undefined when the token has no price
+   */
+  async toUsd(amount: TokenAmount): Promise<number | undefined> {
+    await this.getUsdPrices([amount.token]);
+    return toUsd(amount, (token) => this.getCachedUsdPrice(token));
+  }
+
+  /**
+   * USD value of a gas cost in a chain's native base units (e.g. PreflightResult.gasCost)
+   */
+  async getGasCostUsd(chain: string, gasCost: bigint): Promise<number | undefined> {
+    const platform = CHAIN_PLATFORMS[chain];
+    if (!platform) return undefined;
+
+    const decimals = NATIVE_TOKEN_DECIMALS[platform];
+    const token: Token = {
+      address: NATIVE_TOKEN_ADDRESS,
+      symbol: NATIVE_TOKEN_SYMBOLS[chain] ?? 'native',
+      decimals,
+      chainId: getChainId(chain, this.network) ?? 0,
+    };
+    return this.toUsd({ token, amount: { amount: gasCost.toString(), decimals } });
+  }
+
+  /**
+   * USD value of what a quote sends, charges and delivers
+   */
+  async getQuoteUsdValues(quote: BridgeQuote): Promise<QuoteUsdValues> {
+    await this.getUsdPrices(getQuoteTokens(quote));
+    return getQuoteUsdValues(quote, (token) => this.getCachedUsdPrice(token));
+  }
+
+  /**
+   * Throw AmountOutOfRangeError when an amount is worth less than
+   * VALIDATION.MIN_TRANSFER_AMOUNT_USD or more than MAX_TRANSFER_AMOUNT_USD
+   *
+   * Returns the amount's USD value. Unpriced tokens pass unchecked, with
+   * undefined.
+   */
+  async assertWithinLimits(amount: TokenAmount): Promise<number | undefined> {
+    const amountUsd = await this.toUsd(amount);
+    if (amountUsd === undefined) return undefined;
+
+    const details = { token: amount.token.symbol, amount: amount.amount.amount };
+    if (amountUsd < VALIDATION.MIN_TRANSFER_AMOUNT_USD) {
+      throw new AmountOutOfRangeError(amountUsd, VALIDATION.MIN_TRANSFER_AMOUNT_USD, details);
+    }
+    if (amountUsd > VALIDATION.MAX_TRANSFER_AMOUNT_USD) {
+      throw new AmountOutOfRangeError(amountUsd, VALIDATION.MAX_TRANSFER_AMOUNT_USD, details);
+    }
+    return amountUsd;
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Providers are outside code - anything but a positive finite number is no price
+function toPrice(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
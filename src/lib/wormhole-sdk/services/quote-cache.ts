@@ -0,0 +1,149 @@
+/**
+ * Quote Cache
+ *
+ * Keeps route quotes for TIMING.QUOTE_EXPIRATION_MS so previewing the same
+ * transfer again does not re-query every route. Amounts are keyed exactly
+ * (leading and trailing zeros aside), since a quote is only valid for the
+ * amount it was fetched for.
+ */
+
+import type { BridgeQuote, QuoteRequest, RouteType, Token } from '../core/types';
+import { QUOTE_CACHE, ROUTE_METADATA, TIMING } from '../core/constants';
+
+/**
+ * What a quote depends on
+ */
+export interface QuoteCacheKey {
+  sourceChain: string;
+  destChain: string;
+  token: string; // source token address
+  amount: string;
+  routeType: string;
+  nativeGas?: number;
+  destinationToken?: string; // destination token address, when one was chosen
+  slippage?: number; // basis points, swap routes
+}
+
+/**
+ * The parts of a quote request a route's quote depends on
+ */
+export type QuoteCacheRequest = Pick<QuoteRequest, 'sourceChain' | 'destChain' | 'amount' | 'nativeGas' | 'slippage'> & {
+  token: Pick<Token, 'address'>;
+  destinationToken?: Pick<Token, 'address'>;
+};
+
+export interface CachedQuote<Q> {
+  quote: Q;
+  expiresAt: number;
+}
+
+export class QuoteCache<Q = BridgeQuote> {
+  private readonly entries = new Map<string, CachedQuote<Q>>();
+
+  constructor(
+    private readonly ttlMs: number = TIMING.QUOTE_EXPIRATION_MS,
+    private readonly maxEntries: number = QUOTE_CACHE.MAX_ENTRIES
+  ) {}
+
+  /**
+   * The cached quote for a key, or undefined if there is none or it expired
+   */
+  get(key: QuoteCacheKey, now: number = Date.now()): CachedQuote<Q> | undefined {
+    const id = toCacheId(key);
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= now) {
+      this.entries.delete(id);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Cache a quote, evicting expired entries and then the oldest when full
+   */
+  set(key: QuoteCacheKey, quote: Q, now: number = Date.now()): CachedQuote<Q> {
+    const id = toCacheId(key);
+    const entry = { quote, expiresAt: now + this.ttlMs };
+
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+
+    if (this.entries.size > this.maxEntries) {
+      this.prune(now);
+    }
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+
+    return entry;
+  }
+
+  delete(key: QuoteCacheKey): void {
+    this.entries.delete(toCacheId(key));
+  }
+
+  /**
+   * Remove every expired entry
+   */
+  prune(now: number = Date.now()): void {
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(id);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Cache key for the quote of one route for a request - native gas only counts
+ * for automatic routes and slippage only for swap routes
+ */
+export function getQuoteCacheKey(request: QuoteCacheRequest, routeType: RouteType): QuoteCacheKey {
+  const metadata = ROUTE_METADATA[routeType];
+  return {
+    sourceChain: request.sourceChain,
+    destChain: request.destChain,
+    token: request.token.address,
+    amount: request.amount,
+    routeType,
+    nativeGas: metadata?.isAutomatic ? request.nativeGas : undefined,
+    destinationToken: request.destinationToken?.address,
+    slippage: metadata?.isSwap ? request.slippage : undefined,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toCacheId(key: QuoteCacheKey): string {
+  return [
+    key.sourceChain,
+    key.destChain,
+    key.token.startsWith('0x') ? key.token.toLowerCase() : key.token,
+    normalizeAmount(key.amount),
+    key.routeType,
+    key.nativeGas ?? 0,
+    key.destinationToken?.startsWith('0x') ? key.destinationToken.toLowerCase() : (key.destinationToken ?? ''),
+    key.slippage ?? '',
+  ].join('|');
+}
+
+// '0100.50' and '100.5' are the same amount - anything that is not a plain decimal is kept as is
+function normalizeAmount(amount: string): string {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(amount.trim());
+  if (!match || (!match[1] && !match[2])) return amount;
+
+  const whole = match[1].replace(/^0+/, '') || '0';
+  const fraction = (match[2] ?? '').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
@@ -0,0 +1,81 @@
+/**
+ * Quote Service
+ *
+ * Implements IQuoteService: fetching quotes through BridgeService and
+ * comparing the quoted routes with compareQuotes.
+ */
+
+import type {
+  BridgeConfig,
+  BridgeQuote,
+  IQuoteService,
+  QuoteRequest,
+  Route,
+  RouteComparison,
+  RouteComparisonOptions,
+} from '../core/types';
+import { DEFAULT_NETWORK } from '../core/constants';
+import { compareQuotes } from '../utils/route-comparison';
+import { BridgeService, type BridgeServiceOptions } from './bridge-service';
+
+// Cheapest means the most received for the least relay fee, whatever the time
+const CHEAPEST_WEIGHTS = { netAmount: 1, relayFee: 1, eta: 0, manualClaim: 0, reliability: 0 };
+
+export class QuoteService implements IQuoteService {
+  private readonly bridge: BridgeService;
+
+  constructor(config: BridgeConfig = { network: DEFAULT_NETWORK }, options: BridgeServiceOptions = {}) {
+    this.bridge = new BridgeService(config, options);
+  }
+
+  /**
+   * Best quote for a request - see BridgeService.getQuote
+   */
+  async getQuote(request: QuoteRequest): Promise<BridgeQuote> {
+    return this.bridge.getQuote(request);
+  }
+
+  /**
+   * Quote for one route, throwing QuoteFailedError if it cannot be quoted
+   */
+  async getQuoteForRoute(request: QuoteRequest, route: Route): Promise<BridgeQuote> {
+    return this.bridge.getQuote({ ...request, routeType: route.type });
+  }
+
+  /**
+   * Quotes for every available route, failed ones included
+   */
+  async getAllQuotes(request: QuoteRequest): Promise<BridgeQuote[]> {
+    return this.bridge.getAllQuotes(request);
+  }
+
+  /**
+   * Route of the quote delivering the most for the least relay fee
+   */
+  getCheapestRoute(quotes: BridgeQuote[], options: RouteComparisonOptions = {}): Route | null {
+    const [cheapest] = compareQuotes(successful(quotes), { ...options, weights: CHEAPEST_WEIGHTS });
+    return cheapest?.quote.route ?? null;
+  }
+
+  /**
+   * Route of the quote with the shortest ETA
+   */
+  getFastestRoute(quotes: BridgeQuote[]): Route | null {
+    const [fastest] = [...successful(quotes)].sort((a, b) => a.eta - b.eta);
+    return fastest?.route ?? null;
+  }
+
+  /**
+   * Score the successful quotes against each other, best first
+   */
+  compareRoutes(quotes: BridgeQuote[], options: RouteComparisonOptions = {}): RouteComparison[] {
+    return compareQuotes(successful(quotes), options).map((comparison) => ({
+      ...comparison,
+      route: comparison.quote.route,
+    }));
+  }
+}
+
+function successful(quotes: BridgeQuote[]): BridgeQuote[] {
+  return quotes.filter((quote) => quote.success);
+}
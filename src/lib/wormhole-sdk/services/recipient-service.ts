@@ -0,0 +1,98 @@
+/**
+ * Recipient Service
+ *
+ * Looks up a recipient on the destination chain and warns about addresses
+ * that may not be able to use the tokens (contracts, unused addresses).
+ */
+
+import { SolanaAddress } from '@wormhole-foundation/sdk-solana';
+
+import type { BridgeConfig, RecipientWarning } from '../core/types';
+import { CHAIN_PLATFORMS, DEFAULT_NETWORK } from '../core/constants';
+import { ChainNotSupportedError, InvalidAddressError } from '../core/errors';
+import { getAddressError } from '../utils/validation';
+import { BridgeService } from './bridge-service';
+
+export class RecipientService {
+  private readonly bridge: BridgeService;
+
+  constructor(config: BridgeConfig = { network: DEFAULT_NETWORK }) {
+    this.bridge = new BridgeService(config);
+  }
+
+  /**
+   * Check a recipient address on the destination chain
+   *
+   * Throws InvalidAddressError for malformed addresses. Returns warnings for
+   * contracts (which may not control funds on this chain, e.g. a multisig
+   * deployed only on the source chain) and addresses with no history.
+   */
+  async checkRecipient(chain: string, address: string): Promise<RecipientWarning[]> {
+    const reason = getAddressError(address, chain);
+    if (reason) {
+      throw new InvalidAddressError(address, { chain, reason });
+    }
+
+    const wh = await this.bridge.getWormhole();
+    const rpc: any = await wh.getChain(chain as any).getRpc();
+
+    switch (CHAIN_PLATFORMS[chain]) {
+      case 'Evm':
+        return this.checkEvmRecipient(rpc, chain, address);
+      case 'Solana':
+        return this.checkSolanaRecipient(rpc, address);
+      default:
+        throw new ChainNotSupportedError(chain);
+    }
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private async checkEvmRecipient(rpc: any, chain: string, address: string): Promise<RecipientWarning[]> {
+    const [code, nonce, balance] = await Promise.all([
+      rpc.getCode(address) as Promise<string>,
+      rpc.getTransactionCount(address) as Promise<number>,
+      rpc.getBalance(address) as Promise<bigint>,
+    ]);
+
+    if (code && code !== '0x') {
+      return [
+        {
+          code: 'CONTRACT',
+          message: `Recipient is a contract on ${chain}. Make sure it can receive and move these tokens on ${chain}.`,
+        },
+      ];
+    }
+
+    if (nonce === 0 && balance === 0n) {
+      return [{ code: 'NO_HISTORY', message: `Recipient has never been used on ${chain}.` }];
+    }
+
+    return [];
+  }
+
+  private async checkSolanaRecipient(rpc: any, address: string): Promise<RecipientWarning[]> {
+    const publicKey = new SolanaAddress(address).unwrap();
+    const [account, signatures] = await Promise.all([
+      rpc.getAccountInfo(publicKey),
+      rpc.getSignaturesForAddress(publicKey, { limit: 1 }),
+    ]);
+
+    if (account?.executable) {
+      return [
+        {
+          code: 'CONTRACT',
+          message: 'Recipient is a Solana program, not a wallet. Tokens sent to it may be unrecoverable.',
+        },
+      ];
+    }
+
+    if (!account && signatures.length === 0) {
+      return [{ code: 'NO_HISTORY', message: 'Recipient has never been used on Solana.' }];
+    }
+
+    return [];
+  }
+}
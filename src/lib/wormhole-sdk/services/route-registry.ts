@@ -0,0 +1,55 @@
+/**
+ * Route Registry
+ *
+ * Maps RouteType values to the Wormhole SDK route implementations - the
+ * built-in routes and the Mayan route plugin.
+ */
+
+import { routes, type ChainContext, type Network as SdkNetwork } from '@wormhole-foundation/sdk';
+import { MayanRouteMCTP, MayanRouteSWIFT } from '@mayanfinance/wormhole-sdk-route';
+
+import { RouteType } from '../core/types';
+import { MAYAN_FORWARDER_ADDRESS } from '../core/constants';
+
+/**
+ * Wormhole SDK route implementations for each supported route type
+ */
+export const ROUTE_CONSTRUCTORS: Record<RouteType, routes.RouteConstructor> = {
+  [RouteType.AUTOMATIC_CCTP]: routes.AutomaticCCTPRoute,
+  [RouteType.CCTP_MANUAL]: routes.CCTPRoute,
+  [RouteType.TOKEN_BRIDGE_AUTO]: routes.AutomaticTokenBridgeRoute,
+  [RouteType.TOKEN_BRIDGE_MANUAL]: routes.TokenBridgeRoute,
+  [RouteType.MAYAN_SWIFT]: MayanRouteSWIFT,
+  [RouteType.MAYAN_MCTP]: MayanRouteMCTP,
+};
+
+type ChainContracts = ChainContext<SdkNetwork>['config']['contracts'];
+
+/**
+ * Contract each route pulls ERC-20 tokens through - the spender the sender approves
+ */
+const ROUTE_SPENDERS: Record<RouteType, (contracts: ChainContracts) => string | undefined> = {
+  [RouteType.AUTOMATIC_CCTP]: (contracts) => contracts.cctp?.wormholeRelayer,
+  [RouteType.CCTP_MANUAL]: (contracts) => contracts.cctp?.tokenMessenger,
+  [RouteType.TOKEN_BRIDGE_AUTO]: (contracts) => contracts.tokenBridgeRelayer,
+  [RouteType.TOKEN_BRIDGE_MANUAL]: (contracts) => contracts.tokenBridge,
+  // Mayan is not a Wormhole core contract - both routes use its forwarder
+  [RouteType.MAYAN_SWIFT]: () => MAYAN_FORWARDER_ADDRESS,
+  [RouteType.MAYAN_MCTP]: () => MAYAN_FORWARDER_ADDRESS,
+};
+
+/**
+ * Get the address a route needs an ERC-20 allowance for on a chain, or
+ * undefined when the route is not deployed there
+ */
+export function getRouteSpender(routeType: RouteType, contracts: ChainContracts): string | undefined {
+  return ROUTE_SPENDERS[routeType](contracts);
+}
+
+/**
+ * Get the route type of an SDK route instance, or null for unknown routes
+ */
+export function getRouteType(route: routes.Route<SdkNetwork>): RouteType | null {
+  const entry = Object.entries(ROUTE_CONSTRUCTORS).find(([, ctor]) => route.constructor === ctor);
+  return entry ? (entry[0] as RouteType) : null;
+}
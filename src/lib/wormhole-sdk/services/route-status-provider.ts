@@ -0,0 +1,98 @@
+/**
+ * Route Status Provider
+ *
+ * TransferStatusProvider backed by the transfer's own route: the receipt is
+ * looked up with `route.resume` and brought up to date with `route.track`,
+ * the same VAA and CCTP attestation lookups the manual claim flow uses. It
+ * needs the transfer's route and origin chain, so it only answers for
+ * tracked transfers that carry them.
+ */
+
+import {
+  isAttested,
+  isCompleted,
+  isFailed,
+  isRedeemed,
+  routes,
+  type Network as SdkNetwork,
+  type TransactionId,
+  type Wormhole,
+} from '@wormhole-foundation/sdk';
+
+import type { TrackedTransfer, TransferStatusProvider, TransferStatusSnapshot } from '../core/types';
+import { TIMING } from '../core/constants';
+import { getErrorMessage } from '../core/errors';
+import { ROUTE_CONSTRUCTORS } from './route-registry';
+
+export class RouteStatusProvider implements TransferStatusProvider {
+  constructor(
+    private readonly getWormhole: () => Promise<Wormhole<SdkNetwork>>,
+    /** How long one status request waits on the route for a newer state */
+    private readonly lookupTimeoutMs: number = TIMING.STATUS_POLLING_INTERVAL_MS
+  ) {}
+
+  async getStatus(txHash: string, transfer?: TrackedTransfer): Promise<TransferStatusSnapshot | null> {
+    const routeType = transfer?.route?.type;
+    const origin = transfer?.originTxs?.[transfer.originTxs.length - 1];
+    if (!routeType || !origin || !ROUTE_CONSTRUCTORS[routeType]) {
+      return null;
+    }
+
+    const route = new ROUTE_CONSTRUCTORS[routeType](await this.getWormhole());
+    if (!isResumable(route)) {
+      return null;
+    }
+
+    const receipt = await route.resume({ chain: origin.chain, txid: txHash } as TransactionId);
+    return toSnapshot(await this.getLatestReceipt(route, receipt));
+  }
+
+  /**
+   * The receipt once the route has had `lookupTimeoutMs` to attest, fail or
+   * complete it - the resumed receipt when nothing changed in that time
+   */
+  private async getLatestReceipt(
+    route: routes.Route<SdkNetwork>,
+    receipt: routes.Receipt
+  ): Promise<routes.Receipt> {
+    let latest = receipt;
+    if (hasSettled(latest)) return latest;
+
+    try {
+      for await (const update of route.track(receipt, this.lookupTimeoutMs)) {
+        latest = update;
+        if (hasSettled(latest)) break;
+      }
+    } catch {
+      // Attestation not available within the timeout - the resumed state stands
+    }
+    return latest;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isResumable(
+  route: routes.Route<SdkNetwork>
+): route is routes.Route<SdkNetwork> & Pick<routes.ManualRoute<SdkNetwork>, 'resume'> {
+  return typeof (route as Partial<routes.ManualRoute<SdkNetwork>>).resume === 'function';
+}
+
+function hasSettled(receipt: routes.Receipt): boolean {
+  return isAttested(receipt) || isRedeemed(receipt) || isCompleted(receipt) || isFailed(receipt);
+}
+
+function toSnapshot(receipt: routes.Receipt): TransferStatusSnapshot {
+  const redeemed = isRedeemed(receipt) || isCompleted(receipt);
+  const destinationTxs = 'destinationTxs' in receipt ? receipt.destinationTxs ?? [] : [];
+  const destinationTx = destinationTxs[destinationTxs.length - 1];
+
+  return {
+    sourceObserved: true,
+    attested: redeemed || isAttested(receipt),
+    destinationTx: redeemed && destinationTx ? { txid: destinationTx.txid, chain: destinationTx.chain } : undefined,
+    error: isFailed(receipt) ? getErrorMessage(receipt.error) : undefined,
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * RPC Manager
+ *
+ * Per-chain RPC URL lists for a network, ranked by periodic health checks.
+ * The configured URLs come first, then the Wormhole SDK's default for the
+ * chain. Healthy endpoints are ranked by latency, but the preferred endpoint
+ * only changes when health does: it stays first while it is as healthy as the
+ * best one, so latency jitter between checks does not switch it (and reset
+ * everything built on it).
+ */
+
+import {
+  applyWormholeConfigOverrides,
+  type Network as SdkNetwork,
+  type WormholeConfigOverrides,
+} from '@wormhole-foundation/sdk';
+
+import type { Network, RpcEndpointHealth, RpcUrlConfig, RpcUrls } from '../core/types';
+import { CHAIN_PLATFORMS, DEFAULT_NETWORK, RPC_HEALTH } from '../core/constants';
+import { getErrorMessage } from '../core/errors';
+import { getChainId, getNetworkChains, getSdkChain } from '../utils/chains';
+import { getLogger } from '../utils/logger';
+import { parseRpcUrls } from '../utils/rpc';
+
+const logger = getLogger('sdk:rpc');
+
+// Called with the chains whose preferred RPC URL changed after a health change
+type RpcChangeListener = (chains: string[]) => void;
+
+export class RpcManager {
+  private readonly urls: RpcUrls;
+  private readonly health = new Map<string, RpcEndpointHealth>();
+  private readonly preferred = new Map<string, string>();
+  private readonly listeners = new Set<RpcChangeListener>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(readonly network: Network = DEFAULT_NETWORK, rpcUrls: RpcUrlConfig = {}) {
+    this.urls = parseRpcUrls(rpcUrls, network);
+  }
+
+  /**
+   * RPC URLs for a chain, best first: healthy endpoints by latency, then
+   * unchecked ones, then unhealthy ones, each in configured order
+   *
+   * The preferred URL comes first instead while it is as healthy as the best.
+   */
+  getUrls(chain: string): string[] {
+    const urls = [...(this.urls[chain] ?? [])];
+    const sdkDefault = this.getSdkDefaultUrl(chain);
+    if (sdkDefault && !urls.includes(sdkDefault)) urls.push(sdkDefault);
+
+    const ranked = urls
+      .map((url, index) => ({ url, index, health: this.health.get(url) }))
+      .sort((a, b) => rank(a.health) - rank(b.health) || latency(a.health) - latency(b.health) || a.index - b.index)
+      .map(({ url }) => url);
+
+    const preferred = this.preferred.get(chain);
+    if (
+      preferred &&
+      ranked.includes(preferred) &&
+      rank(this.health.get(preferred)) <= rank(this.health.get(ranked[0]))
+    ) {
+      return [preferred, ...ranked.filter((url) => url !== preferred)];
+    }
+    return ranked;
+  }
+
+  /**
+   * The preferred RPC URL for a chain
+   */
+  getUrl(chain: string): string | undefined {
+    return this.getUrls(chain)[0];
+  }
+
+  /**
+   * Last health check result of each of a chain's endpoints, in rank order
+   */
+  getHealth(chain: string): RpcEndpointHealth[] {
+    return this.getUrls(chain)
+      .map((url) => this.health.get(url))
+      .filter((health): health is RpcEndpointHealth => health !== undefined);
+  }
+
+  /**
+   * Check every endpoint of a chain, or of every chain on the network
+   *
+   * Listeners are told about chains whose preferred URL changed - only when
+   * it became unhealthy, or when a healthy endpoint replaced an unhealthy one.
+   */
+  async checkHealth(chain?: string): Promise<RpcEndpointHealth[]> {
+    const chains = chain ? [chain] : getNetworkChains(this.network);
+    // Whatever is in use now stays preferred unless its health changes
+    for (const c of chains) {
+      const url = this.getUrl(c);
+      if (url && !this.preferred.has(c)) this.preferred.set(c, url);
+    }
+
+    const results = await Promise.all(
+      chains.map((c) => Promise.all(this.getUrls(c).map((url) => checkEndpoint(url, CHAIN_PLATFORMS[c]))))
+    );
+    results.flat().forEach((result) => this.health.set(result.url, result));
+
+    const changed = chains.filter((c) => {
+      const url = this.getUrl(c);
+      if (!url || url === this.preferred.get(c)) return false;
+      this.preferred.set(c, url);
+      return true;
+    });
+    if (changed.length > 0) {
+      this.listeners.forEach((listener) => listener(changed));
+    }
+
+    return results.flat();
+  }
+
+  /**
+   * Check every endpoint now and then every `intervalMs`, until stopped
+   */
+  startHealthChecks(intervalMs: number = RPC_HEALTH.CHECK_INTERVAL_MS): void {
+    this.stopHealthChecks();
+    const check = () => {
+      this.checkHealth().catch((error) => logger.warn('Health check failed', error));
+    };
+    check();
+    this.timer = setInterval(check, intervalMs);
+  }
+
+  stopHealthChecks(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Subscribe to preferred URL changes, which only follow health changes -
+   * returns the unsubscribe function
+   */
+  onChange(listener: RpcChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wormhole SDK config overrides pointing each chain at its preferred URL
+   */
+  getSdkConfig(): WormholeConfigOverrides<SdkNetwork> {
+    const chains: Record<string, { rpc: string }> = {};
+
+    for (const chain of getNetworkChains(this.network)) {
+      const sdkChain = this.toSdkChain(chain);
+      const url = this.getUrl(chain);
+      if (sdkChain && url) chains[sdkChain] = { rpc: url };
+    }
+
+    return { chains } as WormholeConfigOverrides<SdkNetwork>;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private toSdkChain(chain: string) {
+    const chainId = getChainId(chain, this.network);
+    return chainId === undefined ? undefined : getSdkChain(chainId, this.network);
+  }
+
+  private getSdkDefaultUrl(chain: string): string | undefined {
+    const sdkChain = this.toSdkChain(chain);
+    if (!sdkChain) return undefined;
+
+    const config = applyWormholeConfigOverrides(this.network).chains[sdkChain];
+    return config?.rpc || undefined;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Time a cheap JSON-RPC call - the latest block on EVM, the slot on Solana
+ */
+async function checkEndpoint(url: string, platform: string | undefined): Promise<RpcEndpointHealth> {
+  const method = platform === 'Solana' ? 'getSlot' : 'eth_blockNumber';
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), RPC_HEALTH.TIMEOUT_MS);
+  const start = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [] }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`RPC request failed with status ${response.status}`);
+    }
+
+    const body = (await response.json()) as { result?: unknown; error?: { message?: string } };
+    if (body.result === undefined) {
+      throw new Error(body.error?.message ?? 'RPC response has no result');
+    }
+
+    return { url, healthy: true, latencyMs: Date.now() - start, checkedAt: Date.now() };
+  } catch (error) {
+    return {
+      url,
+      healthy: false,
+      checkedAt: Date.now(),
+      error: controller.signal.aborted ? `Timed out after ${RPC_HEALTH.TIMEOUT_MS}ms` : getErrorMessage(error),
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Healthy endpoints first, then unchecked, then unhealthy
+function rank(health: RpcEndpointHealth | undefined): number {
+  if (!health) return 1;
+  return health.healthy ? 0 : 2;
+}
+
+function latency(health: RpcEndpointHealth | undefined): number {
+  return health?.latencyMs ?? 0;
+}
@@ -0,0 +1,263 @@
+/**
+ * Token Registry
+ *
+ * Loads token lists (Uniswap token-list format) and serves them as typed
+ * Token objects for the configured network. Tokens can be checked against the
+ * chain and looked up on each destination (CCTP or Wormhole-wrapped).
+ */
+
+import { TokenTransfer, Wormhole, circle } from '@wormhole-foundation/sdk';
+
+import type {
+  BridgeConfig,
+  Token,
+  TokenCounterpart,
+  TokenList,
+  TokenListSource,
+  TokenVerification,
+} from '../core/types';
+import { CHAIN_PLATFORMS, DEFAULT_NETWORK, NATIVE_TOKEN_ADDRESS } from '../core/constants';
+import { InvalidTokenListError, getErrorMessage } from '../core/errors';
+import { getChainId, getChainName, getNetworkChains, getSdkChain } from '../utils/chains';
+import { parseTokenList } from '../utils/token-list';
+import { getAddressError } from '../utils/validation';
+import { BridgeService } from './bridge-service';
+
+export class TokenRegistry {
+  private readonly bridge: BridgeService;
+  private readonly tokens = new Map<number, Token[]>();
+  private readonly counterparts = new Map<string, TokenCounterpart[]>();
+
+  constructor(config: BridgeConfig = { network: DEFAULT_NETWORK }) {
+    this.bridge = new BridgeService(config);
+  }
+
+  /**
+   * Load a token list from a URL, or add an already loaded list
+   *
+   * Node scripts can read a local file with `JSON.parse(await readFile(path, 'utf8'))`.
+   */
+  async load(source: TokenListSource): Promise<Token[]> {
+    const list = typeof source === 'string' ? await fetchTokenList(source) : source;
+    return this.addList(list);
+  }
+
+  /**
+   * Add a token list, keeping only tokens on chains of the configured network
+   *
+   * Throws InvalidTokenListError when the list is malformed, has an invalid
+   * address, or lists the same address twice on a chain. Tokens already in the
+   * registry are replaced by later lists.
+   */
+  addList(input: unknown): Token[] {
+    const list = parseTokenList(input);
+    const added: Token[] = [];
+
+    for (const entry of list.tokens) {
+      const chain = getChainName(entry.chainId, this.bridge.network);
+      if (!chain) continue;
+
+      const isNative = entry.address === NATIVE_TOKEN_ADDRESS;
+      const reason = isNative ? null : getAddressError(entry.address, chain);
+      if (reason) {
+        throw new InvalidTokenListError(`${entry.symbol} on ${chain} in '${list.name}': ${reason}`, {
+          token: entry,
+        });
+      }
+
+      const duplicate = added.find(
+        (token) => token.chainId === entry.chainId && sameAddress(token.address, entry.address)
+      );
+      if (duplicate) {
+        throw new InvalidTokenListError(
+          `${entry.symbol} and ${duplicate.symbol} on ${chain} in '${list.name}' share address ${entry.address}`,
+          { token: entry, duplicate }
+        );
+      }
+
+      added.push({
+        address: entry.address,
+        symbol: entry.symbol,
+        decimals: entry.decimals,
+        chainId: entry.chainId,
+        name: entry.name,
+        ...(entry.logoURI && { logoURI: entry.logoURI }),
+      });
+    }
+
+    for (const token of added) {
+      const chainTokens = this.tokens.get(token.chainId) ?? [];
+      const existing = chainTokens.findIndex((t) => sameAddress(t.address, token.address));
+      if (existing >= 0) {
+        chainTokens[existing] = token;
+      } else {
+        chainTokens.push(token);
+      }
+      this.tokens.set(token.chainId, chainTokens);
+    }
+
+    return added;
+  }
+
+  /**
+   * Tokens on a chain, in list order
+   */
+  getTokens(chainId: number): Token[] {
+    return [...(this.tokens.get(chainId) ?? [])];
+  }
+
+  getToken(chainId: number, address: string): Token | undefined {
+    return this.tokens.get(chainId)?.find((token) => sameAddress(token.address, address));
+  }
+
+  getTokenBySymbol(chainId: number, symbol: string): Token | undefined {
+    return this.tokens.get(chainId)?.find((token) => token.symbol === symbol);
+  }
+
+  /**
+   * Check a token against the chain: the address must hold a token contract
+   * (or mint) and its decimals must match the list
+   */
+  async verifyToken(token: Token): Promise<TokenVerification> {
+    const chain = this.toSdkChain(token.chainId);
+    if (!chain) {
+      return { token, valid: false, issues: [`Chain ${token.chainId} is not on ${this.bridge.network}`] };
+    }
+
+    const issues: string[] = [];
+    let onChainDecimals: number | undefined;
+
+    try {
+      const wh = await this.bridge.getWormhole();
+      const context = wh.getChain(chain);
+
+      if (token.address === NATIVE_TOKEN_ADDRESS) {
+        onChainDecimals = context.config.nativeTokenDecimals;
+      } else {
+        if (CHAIN_PLATFORMS[chain] === 'Evm') {
+          const rpc: any = await context.getRpc();
+          const code: string = await rpc.getCode(token.address);
+          if (!code || code === '0x') {
+            issues.push(`No contract at ${token.address} on ${chain}`);
+          }
+        }
+
+        if (issues.length === 0) {
+          onChainDecimals = await wh.getDecimals(chain, Wormhole.parseAddress(chain, token.address));
+        }
+      }
+    } catch (error) {
+      issues.push(`Could not read ${token.symbol} on ${chain}: ${getErrorMessage(error)}`);
+    }
+
+    if (onChainDecimals !== undefined && onChainDecimals !== token.decimals) {
+      issues.push(`${token.symbol} has ${onChainDecimals} decimals on-chain, the list says ${token.decimals}`);
+    }
+
+    return { token, valid: issues.length === 0, issues, onChainDecimals };
+  }
+
+  /**
+   * Verify every token in the registry, or every token on one chain
+   */
+  async verifyTokens(chainId?: number): Promise<TokenVerification[]> {
+    const tokens = chainId === undefined ? [...this.tokens.values()].flat() : this.getTokens(chainId);
+    return Promise.all(tokens.map((token) => this.verifyToken(token)));
+  }
+
+  /**
+   * The tokens a transfer of `token` can deliver on each destination chain
+   *
+   * USDC with a Circle deployment on both ends is flagged as CCTP. A
+   * Wormhole-wrapped counterpart is only listed once the token has been
+   * attested on the destination. Results are cached per token.
+   */
+  async getCounterparts(
+    token: Token,
+    destChains: string[] = getNetworkChains(this.bridge.network)
+  ): Promise<TokenCounterpart[]> {
+    const sourceChain = this.toSdkChain(token.chainId);
+    if (!sourceChain) return [];
+
+    const key = `${token.chainId}:${token.address.toLowerCase()}:${destChains.join(',')}`;
+    const cached = this.counterparts.get(key);
+    if (cached) return cached;
+
+    const network = this.bridge.network;
+    const wh = await this.bridge.getWormhole();
+    const sourceContext = wh.getChain(sourceChain);
+    const sourceUsdc = circle.usdcContract.get(network, sourceChain);
+    const tokenId = Wormhole.tokenId(
+      sourceChain,
+      token.address === NATIVE_TOKEN_ADDRESS ? 'native' : token.address
+    );
+
+    const results = await Promise.all(
+      destChains.map(async (destChain) => {
+        const destChainId = getChainId(destChain, network);
+        const destSdkChain = destChainId === undefined ? undefined : this.toSdkChain(destChainId);
+        if (!destSdkChain || destSdkChain === sourceChain) return [];
+
+        const found: TokenCounterpart[] = [];
+
+        const destUsdc = circle.usdcContract.get(network, destSdkChain);
+        if (sourceUsdc && destUsdc && sameAddress(sourceUsdc, token.address)) {
+          found.push({ chain: destChain, kind: 'CCTP', address: destUsdc });
+        }
+
+        try {
+          const wrapped = await TokenTransfer.lookupDestinationToken(
+            sourceContext,
+            wh.getChain(destSdkChain),
+            tokenId
+          );
+          found.push({
+            chain: destChain,
+            kind: 'WORMHOLE_WRAPPED',
+            address: wrapped.address === 'native' ? NATIVE_TOKEN_ADDRESS : wrapped.address.toString(),
+          });
+        } catch {
+          // Not attested on this destination yet
+        }
+
+        return found;
+      })
+    );
+
+    const counterparts = results.flat();
+    this.counterparts.set(key, counterparts);
+    return counterparts;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * SDK chain for a chain ID, so on-chain lookups use the SDK's chain names
+   */
+  private toSdkChain(chainId: number) {
+    return getSdkChain(chainId, this.bridge.network);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function fetchTokenList(url: string): Promise<TokenList> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new InvalidTokenListError(`Token list request to ${url} failed with status ${response.status}`, {
+      url,
+      status: response.status,
+    });
+  }
+
+  return parseTokenList(await response.json());
+}
+
+// EVM addresses are case-insensitive, Solana (base58) addresses are not
+function sameAddress(a: string, b: string): boolean {
+  return a.startsWith('0x') ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
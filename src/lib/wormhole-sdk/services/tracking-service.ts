@@ -0,0 +1,199 @@
+/**
+ * Tracking Service
+ *
+ * Moves a transfer through the TransferStatus states
+ * (TRANSFERRING → ATTESTING → RELAYING/CLAIMING → COMPLETED) by polling a
+ * pluggable TransferStatusProvider, emitting ATTESTATION_RECEIVED,
+ * TRANSFER_COMPLETED and ERROR_OCCURRED along the way.
+ */
+
+import {
+  BridgeEventType,
+  TransferStatus,
+  type TrackedTransfer,
+  type TransferProgress,
+  type TransferStatusProvider,
+  type TransferStatusSnapshot,
+} from '../core/types';
+import { TIMING } from '../core/constants';
+import { TransactionTimeoutError, TransferFailedError } from '../core/errors';
+import { sleep, withRetry } from '../utils/retry';
+import { BridgeEventBus, bridgeEvents } from './event-bus';
+
+export interface TrackTransferOptions {
+  onProgress?: (progress: TransferProgress) => void;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Progress range covered by each status
+ */
+const PROGRESS_RANGE: Partial<Record<TransferStatus, [number, number]>> = {
+  [TransferStatus.TRANSFERRING]: [5, 20],
+  [TransferStatus.ATTESTING]: [20, 75],
+  [TransferStatus.RELAYING]: [75, 95],
+  [TransferStatus.CLAIMING]: [75, 95],
+  [TransferStatus.COMPLETED]: [100, 100],
+};
+
+const STATUS_MESSAGES: Partial<Record<TransferStatus, string>> = {
+  [TransferStatus.TRANSFERRING]: 'Waiting for the source transaction to be observed',
+  [TransferStatus.ATTESTING]: 'Waiting for the attestation',
+  [TransferStatus.RELAYING]: 'Relayer is delivering the transfer to the destination chain',
+  [TransferStatus.CLAIMING]: 'Attestation ready - claim your tokens on the destination chain',
+  [TransferStatus.COMPLETED]: 'Transfer completed on the destination chain',
+};
+
+export class TrackingService {
+  constructor(
+    private readonly provider: TransferStatusProvider,
+    private readonly events: BridgeEventBus = bridgeEvents
+  ) {}
+
+  /**
+   * Get the current progress of a transfer
+   */
+  async getProgress(transfer: TrackedTransfer): Promise<TransferProgress> {
+    const snapshot = await this.provider.getStatus(transfer.txHash, transfer);
+    return toProgress(transfer, snapshot);
+  }
+
+  /**
+   * Poll until the transfer reaches a state that needs no more waiting
+   *
+   * Resolves on COMPLETED or FAILED, and on CLAIMING for manual routes since
+   * nothing happens after that without a claim. Failed status requests are
+   * retried until `timeoutMs`, backing off from the poll interval up to
+   * TIMING.STATUS_POLLING_MAX_BACKOFF_MS, so a status API outage only delays
+   * tracking. Throws TransactionTimeoutError once `timeoutMs` passes.
+   */
+  async track(transfer: TrackedTransfer, options: TrackTransferOptions = {}): Promise<TransferProgress> {
+    const {
+      onProgress,
+      pollIntervalMs = TIMING.STATUS_POLLING_INTERVAL_MS,
+      timeoutMs = TIMING.ATTESTATION_TIMEOUT_MS,
+      signal,
+    } = options;
+    const deadline = Date.now() + timeoutMs;
+    let lastProgress: TransferProgress | null = null;
+
+    while (!signal?.aborted) {
+      let progress: TransferProgress;
+      try {
+        progress = await withRetry(() => this.getProgress(transfer), {
+          // Any failure is worth polling again until the deadline
+          retries: Infinity,
+          shouldRetry: () => true,
+          delayMs: pollIntervalMs,
+          maxDelayMs: Math.max(pollIntervalMs, TIMING.STATUS_POLLING_MAX_BACKOFF_MS),
+          deadline,
+          signal,
+          label: 'getProgress',
+          txHash: transfer.txHash,
+        });
+      } catch (error) {
+        if (signal?.aborted) break;
+        if (error instanceof TransactionTimeoutError) {
+          this.events.emit(BridgeEventType.ERROR_OCCURRED, { error, txHash: transfer.txHash });
+        }
+        throw error;
+      }
+
+      if (
+        !lastProgress ||
+        lastProgress.status !== progress.status ||
+        lastProgress.percentage !== progress.percentage
+      ) {
+        onProgress?.(progress);
+      }
+      if (lastProgress?.status !== progress.status) {
+        this.emitStatusEvent(transfer.txHash, progress);
+      }
+      lastProgress = progress;
+
+      if (isFinalProgress(progress)) {
+        return progress;
+      }
+      if (Date.now() + pollIntervalMs > deadline) {
+        const error = new TransactionTimeoutError(transfer.txHash, { lastProgress });
+        this.events.emit(BridgeEventType.ERROR_OCCURRED, { error, txHash: transfer.txHash });
+        throw error;
+      }
+
+      await sleep(pollIntervalMs, signal);
+    }
+
+    return lastProgress ?? toProgress(transfer, null);
+  }
+
+  /**
+   * Emit the event for a status the transfer has just reached, if it has one
+   */
+  private emitStatusEvent(txHash: string, progress: TransferProgress): void {
+    switch (progress.status) {
+      case TransferStatus.RELAYING:
+      case TransferStatus.CLAIMING:
+        this.events.emit(BridgeEventType.ATTESTATION_RECEIVED, { txHash, progress });
+        break;
+      case TransferStatus.COMPLETED:
+        this.events.emit(BridgeEventType.TRANSFER_COMPLETED, { txHash, progress });
+        break;
+      case TransferStatus.FAILED:
+        this.events.emit(BridgeEventType.ERROR_OCCURRED, {
+          error: new TransferFailedError(progress.message, { txHash }),
+          txHash,
+        });
+        break;
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getStatus(transfer: TrackedTransfer, snapshot: TransferStatusSnapshot | null): TransferStatus {
+  if (snapshot?.error) return TransferStatus.FAILED;
+  if (snapshot?.destinationTx) return TransferStatus.COMPLETED;
+  if (snapshot?.attested) {
+    return transfer.route?.requiresManualClaim ? TransferStatus.CLAIMING : TransferStatus.RELAYING;
+  }
+  if (snapshot?.sourceObserved) return TransferStatus.ATTESTING;
+  return TransferStatus.TRANSFERRING;
+}
+
+function toProgress(transfer: TrackedTransfer, snapshot: TransferStatusSnapshot | null): TransferProgress {
+  const status = getStatus(transfer, snapshot);
+
+  if (status === TransferStatus.FAILED) {
+    return { status, message: snapshot?.error ?? 'Transfer failed', txHash: transfer.txHash };
+  }
+
+  // Interpolate within the status range by elapsed time over the route ETA
+  const eta = transfer.route?.estimatedTime;
+  const elapsed = transfer.timestamp ? Date.now() - transfer.timestamp : 0;
+  const [min, max] = PROGRESS_RANGE[status] ?? [0, 0];
+  const fraction = eta ? Math.min(elapsed / eta, 1) : 0;
+  const remaining =
+    status === TransferStatus.COMPLETED
+      ? 0
+      : eta !== undefined && transfer.timestamp
+      ? Math.max(eta - elapsed, 0)
+      : undefined;
+
+  return {
+    status,
+    message: STATUS_MESSAGES[status] ?? status,
+    txHash: transfer.txHash,
+    percentage: Math.round(min + (max - min) * fraction),
+    estimatedTimeRemaining: remaining,
+  };
+}
+
+function isFinalProgress(progress: TransferProgress): boolean {
+  return [TransferStatus.COMPLETED, TransferStatus.FAILED, TransferStatus.CLAIMING].includes(
+    progress.status
+  );
+}
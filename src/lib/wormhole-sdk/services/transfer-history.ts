@@ -0,0 +1,88 @@
+/**
+ * Transfer History
+ *
+ * Keeps every transfer receipt with its latest status so in-flight transfers
+ * can be tracked or claimed again after a reload.
+ */
+
+import {
+  isTransferPending,
+  type TransferHistoryStorage,
+  type TransferReceipt,
+  type TransferRecord,
+  type TransferStatus,
+} from '../core/types';
+import { MemoryHistoryStorage } from './history-storage';
+
+export class TransferHistory {
+  constructor(private readonly storage: TransferHistoryStorage = new MemoryHistoryStorage()) {}
+
+  /**
+   * Save a transfer, replacing any existing record for the same tx hash
+   */
+  async save(
+    receipt: TransferReceipt,
+    details: Partial<Omit<TransferRecord, 'receipt' | 'updatedAt'>> = {}
+  ): Promise<TransferRecord> {
+    const existing = await this.storage.get(receipt.txHash);
+    const record: TransferRecord = {
+      ...existing,
+      status: receipt.status,
+      ...details,
+      receipt,
+      updatedAt: Date.now(),
+    };
+
+    await this.storage.put(record);
+    return record;
+  }
+
+  /**
+   * Update the latest status of a saved transfer
+   *
+   * Returns null when the transfer is not in the history.
+   */
+  async updateStatus(
+    txHash: string,
+    status: TransferStatus,
+    destinationTxHash?: string
+  ): Promise<TransferRecord | null> {
+    const record = await this.storage.get(txHash);
+    if (!record) return null;
+    if (record.status === status && !destinationTxHash) return record;
+
+    const updated: TransferRecord = {
+      ...record,
+      status,
+      ...(destinationTxHash && { destinationTxHash }),
+      updatedAt: Date.now(),
+    };
+
+    await this.storage.put(updated);
+    return updated;
+  }
+
+  async get(txHash: string): Promise<TransferRecord | null> {
+    return this.storage.get(txHash);
+  }
+
+  /**
+   * All saved transfers, newest first
+   */
+  async list(): Promise<TransferRecord[]> {
+    const records = await this.storage.list();
+    return records.sort((a, b) => b.receipt.timestamp - a.receipt.timestamp);
+  }
+
+  /**
+   * Transfers that still need tracking or a claim
+   */
+  async listInFlight(): Promise<TransferRecord[]> {
+    const records = await this.list();
+    return records.filter((record) => isTransferPending(record.status));
+  }
+
+  async remove(txHash: string): Promise<void> {
+    await this.storage.remove(txHash);
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Transfer Service
+ *
+ * Implements ITransferService: initiating transfers, waiting for them to
+ * complete and claiming manual-route transfers (CCTPRoute, TokenBridgeRoute)
+ * on the destination chain.
+ */
+
+import {
+  routes,
+  isAttested,
+  isCompleted,
+  isFailed,
+  isRedeemed,
+  type TransactionId,
+} from '@wormhole-foundation/sdk';
+
+import {
+  BridgeEventType,
+  TransferStatus,
+  type BridgeConfig,
+  type ITransferService,
+  type RouteType,
+  type TransferParams,
+  type TransferProgress,
+  type TransferReceipt,
+  type WormholeSigner,
+} from '../core/types';
+import { DEFAULT_NETWORK, ROUTE_METADATA, TIMING } from '../core/constants';
+import {
+  QuoteExpiredError,
+  RouteValidationFailedError,
+  TransactionTimeoutError,
+  TransferFailedError,
+  classifyError,
+  getErrorMessage,
+} from '../core/errors';
+import { toTransferReceipt } from '../utils/receipts';
+import { isQuoteExpired, toQuoteRequest } from '../utils/quotes';
+import { toRetryOptions, withRetry, type RetryOptions } from '../utils/retry';
+import { assertChainSigner } from '../utils/signers';
+import { BridgeService, type BridgeServiceOptions } from './bridge-service';
+import { ROUTE_CONSTRUCTORS } from './route-registry';
+import { TrackingService } from './tracking-service';
+import { createStatusProvider } from './fallback-status-provider';
+
+/**
+ * Identifies a transfer by its origin transaction
+ */
+export interface OriginTransaction {
+  chain: string;
+  txHash: string;
+  routeType: RouteType;
+}
+
+export class TransferService implements ITransferService {
+  private readonly bridge: BridgeService;
+  private readonly tracker: TrackingService;
+  private readonly retryOptions: RetryOptions;
+
+  constructor(config: BridgeConfig = { network: DEFAULT_NETWORK }, options: BridgeServiceOptions = {}) {
+    this.bridge = new BridgeService(config, options);
+    this.retryOptions = toRetryOptions(config);
+    this.tracker = new TrackingService(
+      options.statusProvider ?? createStatusProvider(config.network, () => this.bridge.getWormhole()),
+      this.bridge.events
+    );
+  }
+
+  /**
+   * Initiate a transfer, reporting progress as it is submitted
+   *
+   * A stale `params.quote` is refused: the route is re-quoted and a
+   * QuoteExpiredError carrying the fresh quote (`details.quote`) is thrown, so
+   * the user can confirm the new price before anything is signed.
+   */
+  async initiateTransfer(
+    params: TransferParams,
+    signer: WormholeSigner,
+    onProgress?: (progress: TransferProgress) => void
+  ): Promise<TransferReceipt> {
+    if (params.quote && isQuoteExpired(params.quote)) {
+      const quote = await this.bridge.getQuote(toQuoteRequest(params));
+      throw new QuoteExpiredError({ expiredQuote: params.quote, quote });
+    }
+
+    onProgress?.({ status: TransferStatus.TRANSFERRING, message: 'Submitting transfer', percentage: 5 });
+
+    const receipt = await this.bridge.executeTransfer(params, signer);
+
+    onProgress?.({
+      status: receipt.status,
+      message: 'Transfer submitted on the source chain',
+      txHash: receipt.txHash,
+      percentage: 10,
+    });
+
+    return receipt;
+  }
+
+  /**
+   * Wait until a transfer completes, or is ready to claim for manual routes
+   *
+   * Throws TransferFailedError if the transfer fails.
+   */
+  async waitForCompletion(
+    receipt: TransferReceipt,
+    onProgress?: (progress: TransferProgress) => void
+  ): Promise<void> {
+    const progress = await this.tracker.track(receipt, { onProgress });
+
+    if (progress.status === TransferStatus.FAILED) {
+      throw new TransferFailedError(progress.message, { txHash: receipt.txHash });
+    }
+  }
+
+  /**
+   * Rebuild a receipt from an origin transaction hash
+   *
+   * Lets a manual transfer be claimed when only the source tx hash was kept.
+   */
+  async resumeTransfer(origin: OriginTransaction): Promise<TransferReceipt> {
+    const route = await this.getManualRoute(origin.routeType);
+    const txid = { chain: origin.chain, txid: origin.txHash } as TransactionId;
+
+    try {
+      const receipt = await this.resume(route, txid);
+      return toTransferReceipt(receipt, origin.routeType, this.bridge.network);
+    } catch (error) {
+      throw new TransferFailedError(`Could not find transfer ${origin.txHash}`, {
+        origin,
+        originalError: error,
+      });
+    }
+  }
+
+  /**
+   * Claim a manual-route transfer on the destination chain
+   *
+   * Waits for the VAA or CCTP attestation, then redeems it with a signer for
+   * the destination chain, emitting CLAIM_STARTED and CLAIM_CONFIRMED. Pass a
+   * function for `signer` to create it only once the attestation is ready,
+   * e.g. to switch the wallet to the destination chain right before the claim.
+   * Returns the destination transaction hash - undefined when the transfer
+   * was already claimed (before or while waiting) and the SDK does not report
+   * the claiming transaction.
+   */
+  async claimOnDestination(
+    receipt: TransferReceipt,
+    signer: WormholeSigner | (() => Promise<WormholeSigner>),
+    onProgress?: (progress: TransferProgress) => void
+  ): Promise<string | undefined> {
+    const route = await this.getManualRoute(receipt.route.type);
+    const origin = receipt.originTxs[receipt.originTxs.length - 1];
+    const txid = { chain: origin?.chain, txid: receipt.txHash } as TransactionId;
+
+    onProgress?.({
+      status: TransferStatus.ATTESTING,
+      message: 'Waiting for the attestation',
+      txHash: receipt.txHash,
+      percentage: 25,
+    });
+
+    let sdkReceipt: routes.Receipt;
+    try {
+      sdkReceipt = await this.resume(route, txid);
+    } catch (error) {
+      throw new TransferFailedError(`Could not find transfer ${receipt.txHash}`, {
+        receipt,
+        originalError: error,
+      });
+    }
+
+    // Already claimed - nothing left to do
+    if (isRedeemed(sdkReceipt) || isCompleted(sdkReceipt)) {
+      return this.completeProgress(receipt, sdkReceipt, onProgress);
+    }
+
+    sdkReceipt = await this.waitForAttestation(route, sdkReceipt, receipt.txHash);
+
+    // Claimed by someone else while we waited - redeeming again would fail
+    if (isRedeemed(sdkReceipt) || isCompleted(sdkReceipt)) {
+      return this.completeProgress(receipt, sdkReceipt, onProgress);
+    }
+
+    const claimSigner = typeof signer === 'function' ? await signer() : signer;
+    assertChainSigner(claimSigner, sdkReceipt.to, { txHash: receipt.txHash });
+
+    onProgress?.({
+      status: TransferStatus.CLAIMING,
+      message: `Claiming on ${sdkReceipt.to}`,
+      txHash: receipt.txHash,
+      percentage: 80,
+    });
+
+    const { txHash } = receipt;
+    const chain = sdkReceipt.to;
+    this.bridge.events.emit(BridgeEventType.CLAIM_STARTED, { txHash, chain });
+
+    // Not retried - complete signs and sends the redeem transaction
+    let destinationTxHash: string | undefined;
+    try {
+      const completed = await route.complete(claimSigner, sdkReceipt);
+      destinationTxHash = this.completeProgress(receipt, completed, onProgress);
+    } catch (error) {
+      const classified = classifyError(error, { stage: 'claim', chain, txHash });
+      this.bridge.events.emitError(classified, 'claim', txHash);
+      throw classified;
+    }
+
+    this.bridge.events.emit(BridgeEventType.CLAIM_CONFIRMED, { txHash, chain, destinationTxHash });
+    return destinationTxHash;
+  }
+
+  /**
+   * The Wormhole instance used for transfers (e.g. to build platform signers)
+   */
+  async getWormhole() {
+    return this.bridge.getWormhole();
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private async getManualRoute(routeType: RouteType): Promise<routes.ManualRoute<any>> {
+    const metadata = ROUTE_METADATA[routeType];
+    if (!metadata?.requiresManualClaim) {
+      throw new RouteValidationFailedError(
+        metadata?.name ?? routeType,
+        'Route does not require a manual claim'
+      );
+    }
+
+    const wh = await this.bridge.getWormhole();
+    const route = new ROUTE_CONSTRUCTORS[routeType](wh);
+    if (!routes.isManual(route)) {
+      throw new RouteValidationFailedError(metadata.name, 'Route does not support manual claims');
+    }
+
+    return route;
+  }
+
+  /**
+   * Look up a transfer's receipt by its origin transaction, retrying lookup failures
+   */
+  private resume(route: routes.ManualRoute<any>, txid: TransactionId): Promise<routes.Receipt> {
+    return withRetry(() => route.resume(txid), { ...this.retryOptions, label: 'resume', txHash: txid.txid });
+  }
+
+  private async waitForAttestation(
+    route: routes.ManualRoute<any>,
+    receipt: routes.Receipt,
+    txHash: string
+  ): Promise<routes.Receipt> {
+    if (isAttested(receipt)) return receipt;
+
+    for await (const update of route.track(receipt, TIMING.ATTESTATION_TIMEOUT_MS)) {
+      if (isFailed(update)) {
+        throw new TransferFailedError(getErrorMessage(update.error), { txHash });
+      }
+      if (isAttested(update) || isRedeemed(update) || isCompleted(update)) {
+        return update;
+      }
+    }
+
+    throw new TransactionTimeoutError(txHash, { reason: 'Attestation not available yet' });
+  }
+
+  private completeProgress(
+    receipt: TransferReceipt,
+    sdkReceipt: routes.Receipt,
+    onProgress?: (progress: TransferProgress) => void
+  ): string | undefined {
+    const destinationTxs = 'destinationTxs' in sdkReceipt ? sdkReceipt.destinationTxs ?? [] : [];
+    const destinationTxHash = destinationTxs[destinationTxs.length - 1]?.txid;
+
+    onProgress?.({
+      status: TransferStatus.COMPLETED,
+      message: `Claimed on ${sdkReceipt.to}`,
+      txHash: receipt.txHash,
+      percentage: 100,
+      estimatedTimeRemaining: 0,
+    });
+
+    return destinationTxHash;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Wormhole Context
+ *
+ * Long-lived Wormhole SDK instance for a network. The SDK, route resolvers,
+ * chain contexts and supported destination tokens (and their details) are built once and shared
+ * by every service on that network, instead of costing RPC round trips on
+ * every quote. RPC endpoints come from the context's RpcManager; the SDK is
+ * rebuilt when a health check changes a chain's preferred endpoint.
+ */
+
+import {
+  Wormhole,
+  wormhole,
+  type ChainContext,
+  type Chain as SdkChain,
+  type Network as SdkNetwork,
+  type TokenId,
+  type routes,
+} from '@wormhole-foundation/sdk';
+import evm from '@wormhole-foundation/sdk/evm';
+import solana from '@wormhole-foundation/sdk/solana';
+
+import type { DestinationToken, Network, RouteType, RpcUrlConfig } from '../core/types';
+import { DEFAULT_NETWORK, NATIVE_TOKEN_ADDRESS, NATIVE_TOKEN_SYMBOLS } from '../core/constants';
+import { getChainId } from '../utils/chains';
+import { parseRpcUrls } from '../utils/rpc';
+import { ROUTE_CONSTRUCTORS } from './route-registry';
+import { RpcManager } from './rpc-manager';
+
+export class WormholeContext {
+  private wh: Promise<Wormhole<SdkNetwork>> | null = null;
+  private readonly chains = new Map<string, ChainContext<SdkNetwork>>();
+  private readonly resolvers = new Map<string, routes.RouteResolver<SdkNetwork>>();
+  private readonly destinationTokens = new Map<string, Promise<TokenId[]>>();
+  private readonly destinationTokenDetails = new Map<string, Promise<DestinationToken[]>>();
+
+  constructor(
+    readonly network: Network,
+    readonly rpc: RpcManager = new RpcManager(network)
+  ) {
+    rpc.onChange(() => this.reset());
+  }
+
+  /**
+   * The Wormhole SDK instance, created on first use
+   */
+  async getWormhole(): Promise<Wormhole<SdkNetwork>> {
+    if (!this.wh) {
+      const pending = wormhole(this.network, [evm, solana], this.rpc.getSdkConfig());
+      this.wh = pending;
+      // Let the next call retry instead of caching the failure
+      pending.catch(() => {
+        if (this.wh === pending) this.wh = null;
+      });
+    }
+    return this.wh;
+  }
+
+  /**
+   * Chain context for a chain - throws if the SDK does not know the chain
+   */
+  async getChain(chain: string): Promise<ChainContext<SdkNetwork>> {
+    const cached = this.chains.get(chain);
+    if (cached) return cached;
+
+    const wh = await this.getWormhole();
+    const context = wh.getChain(chain as SdkChain);
+    this.chains.set(chain, context);
+    return context;
+  }
+
+  /**
+   * Route resolver for a list of route types, in priority order
+   */
+  async getResolver(routeTypes: RouteType[]): Promise<routes.RouteResolver<SdkNetwork>> {
+    const key = routeTypes.join(',');
+    const cached = this.resolvers.get(key);
+    if (cached) return cached;
+
+    const wh = await this.getWormhole();
+    const resolver = wh.resolver(routeTypes.map((type) => ROUTE_CONSTRUCTORS[type]));
+    this.resolvers.set(key, resolver);
+    return resolver;
+  }
+
+  /**
+   * Destination tokens the routes support for a source token
+   *
+   * Cached per route list, source token and destination chain. Failed lookups
+   * are not cached.
+   */
+  async supportedDestinationTokens(
+    routeTypes: RouteType[],
+    token: TokenId,
+    destChain: string
+  ): Promise<TokenId[]> {
+    const key = destinationTokensKey(routeTypes, token, destChain);
+    const cached = this.destinationTokens.get(key);
+    if (cached) return cached;
+
+    const pending = (async () => {
+      const [resolver, fromChain, toChain] = await Promise.all([
+        this.getResolver(routeTypes),
+        this.getChain(token.chain),
+        this.getChain(destChain),
+      ]);
+      return resolver.supportedDestinationTokens(token, fromChain, toChain);
+    })();
+
+    this.destinationTokens.set(key, pending);
+    pending.catch(() => {
+      if (this.destinationTokens.get(key) === pending) this.destinationTokens.delete(key);
+    });
+    return pending;
+  }
+
+  /**
+   * supportedDestinationTokens with each token's symbol, decimals and whether
+   * it is Wormhole-wrapped, in the same order
+   *
+   * Tokens in the SDK's token list are described from it; others are looked
+   * up on-chain and left out when that fails. Cached like
+   * supportedDestinationTokens.
+   */
+  async getDestinationTokens(
+    routeTypes: RouteType[],
+    token: TokenId,
+    destChain: string
+  ): Promise<DestinationToken[]> {
+    const key = destinationTokensKey(routeTypes, token, destChain);
+    const cached = this.destinationTokenDetails.get(key);
+    if (cached) return cached;
+
+    const pending = (async () => {
+      const [tokenIds, wh, chain] = await Promise.all([
+        this.supportedDestinationTokens(routeTypes, token, destChain),
+        this.getWormhole(),
+        this.getChain(destChain),
+      ]);
+      const described = await Promise.all(
+        tokenIds.map((tokenId) => describeDestinationToken(wh, chain, tokenId, this.network).catch(() => null))
+      );
+      return described.filter((destination): destination is DestinationToken => destination !== null);
+    })();
+
+    this.destinationTokenDetails.set(key, pending);
+    pending.catch(() => {
+      if (this.destinationTokenDetails.get(key) === pending) this.destinationTokenDetails.delete(key);
+    });
+    return pending;
+  }
+
+  /**
+   * Drop the SDK instance and everything cached from it
+   *
+   * The next call builds a fresh SDK with the currently preferred RPC endpoints.
+   */
+  reset(): void {
+    this.wh = null;
+    this.chains.clear();
+    this.resolvers.clear();
+    this.destinationTokens.clear();
+    this.destinationTokenDetails.clear();
+  }
+}
+
+// ============================================================================
+// Shared Contexts
+// ============================================================================
+
+const contexts = new Map<string, WormholeContext>();
+
+/**
+ * The shared context for a network and RPC configuration
+ */
+export function getWormholeContext(
+  network: Network = DEFAULT_NETWORK,
+  rpcUrls: RpcUrlConfig = {}
+): WormholeContext {
+  const urls = parseRpcUrls(rpcUrls, network);
+  const key = [network, ...Object.keys(urls).sort().map((chain) => `${chain}=${urls[chain].join(',')}`)].join('|');
+
+  let context = contexts.get(key);
+  if (!context) {
+    context = new WormholeContext(network, new RpcManager(network, urls));
+    contexts.set(key, context);
+  }
+  return context;
+}
+
+/**
+ * Reset every shared context
+ */
+export function resetWormholeContexts(): void {
+  contexts.forEach((context) => context.reset());
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function destinationTokensKey(routeTypes: RouteType[], token: TokenId, destChain: string): string {
+  return [routeTypes.join(','), token.chain, Wormhole.canonicalAddress(token), destChain].join('|');
+}
+
+/**
+ * Symbol, decimals and kind of a destination token - from the SDK token list
+ * when it is listed, otherwise from the chain (with a shortened address as
+ * symbol, as there is no chain-agnostic symbol lookup)
+ */
+async function describeDestinationToken(
+  wh: Wormhole<SdkNetwork>,
+  chain: ChainContext<SdkNetwork>,
+  tokenId: TokenId,
+  network: Network
+): Promise<DestinationToken> {
+  const chainId = getChainId(chain.chain, network) ?? 0;
+
+  if (tokenId.address === 'native') {
+    return {
+      token: {
+        address: NATIVE_TOKEN_ADDRESS,
+        symbol: NATIVE_TOKEN_SYMBOLS[chain.chain] ?? 'native',
+        decimals: chain.config.nativeTokenDecimals,
+        chainId,
+      },
+      kind: 'NATIVE',
+    };
+  }
+
+  const address = tokenId.address.toString();
+  const listed = Object.values(chain.config.tokenMap ?? {}).find(
+    (token) => token.address.toLowerCase() === address.toLowerCase()
+  );
+  if (listed) {
+    return {
+      token: { address, symbol: listed.symbol, decimals: listed.decimals, chainId },
+      kind: listed.original ? 'WRAPPED' : 'NATIVE',
+    };
+  }
+
+  const [decimals, isWrapped] = await Promise.all([
+    wh.getDecimals(chain.chain, tokenId.address),
+    // Chains without a Token Bridge have no wrapped tokens
+    chain
+      .getTokenBridge()
+      .then((tokenBridge) => tokenBridge.isWrappedAsset(tokenId.address))
+      .catch(() => false),
+  ]);
+  return {
+    token: { address, symbol: `${address.slice(0, 6)}…${address.slice(-4)}`, decimals, chainId },
+    kind: isWrapped ? 'WRAPPED' : 'NATIVE',
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Wormholescan Status Provider
+ *
+ * TransferStatusProvider backed by the Wormholescan operations API.
+ */
+
+import { toChain } from '@wormhole-foundation/sdk';
+
+import type {
+  Network,
+  TransferStatusProvider,
+  TransferStatusSnapshot,
+} from '../core/types';
+import { URLS } from '../core/constants';
+
+/**
+ * The subset of a Wormholescan operation used for tracking
+ */
+interface WormholescanOperation {
+  vaa?: { raw?: string } | null;
+  sourceChain?: { status?: string } | null;
+  targetChain?: {
+    chainId: number;
+    status?: string;
+    transaction?: { txHash: string } | null;
+  } | null;
+}
+
+export class WormholescanStatusProvider implements TransferStatusProvider {
+  private readonly apiUrl: string;
+
+  constructor(network: Network, apiUrl: string = URLS.WORMHOLE_SCAN_API[network]) {
+    this.apiUrl = apiUrl;
+  }
+
+  async getStatus(txHash: string): Promise<TransferStatusSnapshot | null> {
+    const response = await fetch(`${this.apiUrl}/api/v1/operations?txHash=${txHash}`);
+
+    // Not indexed yet
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Wormholescan request failed with status ${response.status}`);
+    }
+
+    const { operations } = (await response.json()) as { operations?: WormholescanOperation[] };
+    const operation = operations?.[0];
+    if (!operation) {
+      return null;
+    }
+
+    const { targetChain } = operation;
+    const destinationTxHash = targetChain?.transaction?.txHash;
+    const completed = targetChain?.status === 'completed' && destinationTxHash;
+
+    return {
+      sourceObserved: true,
+      attested: Boolean(operation.vaa?.raw),
+      destinationTx: completed
+        ? { txid: destinationTxHash, chain: toChain(targetChain.chainId) }
+        : undefined,
+      error: targetChain?.status === 'failed' ? 'Destination transaction failed' : undefined,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Chain Lookup Utilities
+ *
+ * Resolves chain IDs and Wormhole chain names for a given network.
+ */
+
+import { nativeChainIds, type Chain as SdkChain } from '@wormhole-foundation/sdk';
+
+import type { Network } from '../core/types';
+import { DEFAULT_NETWORK, NETWORK_EVM_CHAIN_IDS, SOLANA_CHAIN_ID } from '../core/constants';
+
+/**
+ * EVM chain ID of a chain on a network, if it is an EVM chain on that network
+ */
+export function getEvmChainId(chain: string, network: Network = DEFAULT_NETWORK): number | undefined {
+  return NETWORK_EVM_CHAIN_IDS[network][chain];
+}
+
+/**
+ * Chain ID used in Token.chainId - the EVM chain ID, or SOLANA_CHAIN_ID for Solana
+ */
+export function getChainId(chain: string, network: Network = DEFAULT_NETWORK): number | undefined {
+  return chain === 'Solana' ? SOLANA_CHAIN_ID : getEvmChainId(chain, network);
+}
+
+/**
+ * Wormhole chain name for a chain ID on a network
+ */
+export function getChainName(chainId: number, network: Network = DEFAULT_NETWORK): string | undefined {
+  if (chainId === SOLANA_CHAIN_ID) return 'Solana';
+
+  const entry = Object.entries(NETWORK_EVM_CHAIN_IDS[network]).find(([, id]) => id === chainId);
+  return entry?.[0];
+}
+
+/**
+ * Wormhole SDK chain name for a chain ID on a network
+ *
+ * Resolved through the SDK's own chain ID table, so names the SDK spells
+ * differently (BSC is 'Bsc') match what the SDK expects.
+ */
+export function getSdkChain(chainId: number, network: Network = DEFAULT_NETWORK): SdkChain | undefined {
+  if (chainId === SOLANA_CHAIN_ID) return 'Solana';
+
+  try {
+    const [chainNetwork, chain] = nativeChainIds.platformNativeChainIdToNetworkChain('Evm', BigInt(chainId));
+    if (chainNetwork === network) return chain;
+  } catch {
+    // Not in the SDK table (e.g. a local devnet chain)
+  }
+
+  return getChainName(chainId, network) as SdkChain | undefined;
+}
+
+/**
+ * Wormhole chain names available on a network
+ */
+export function getNetworkChains(network: Network = DEFAULT_NETWORK): string[] {
+  return [...Object.keys(NETWORK_EVM_CHAIN_IDS[network]), 'Solana'];
+}
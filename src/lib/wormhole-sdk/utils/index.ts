@@ -0,0 +1,21 @@
+/**
+ * Wormhole Bridge SDK - Utils Module
+ *
+ * Framework-agnostic helper functions
+ *
+ * @module utils
+ */
+
+export * from './validation';
+export * from './route-helpers';
+export * from './route-comparison';
+export * from './receipts';
+export * from './chains';
+export * from './token-list';
+export * from './quotes';
+export * from './swaps';
+export * from './prices';
+export * from './rpc';
+export * from './retry';
+export * from './logger';
+export * from './signers';
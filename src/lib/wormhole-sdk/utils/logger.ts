@@ -0,0 +1,195 @@
+/**
+ * Logging Utilities
+ *
+ * Namespaced, levelled logger shared by the SDK and the app. Output goes to
+ * the console (pretty or one JSON object per line) or to a custom sink, and
+ * logged data is redacted by default: EVM addresses are shortened and
+ * calldata is replaced by its length. Production builds log warnings and
+ * errors only.
+ */
+
+import type { LogEntry, LogLevel, LoggerConfig } from '../core/types';
+import { InvalidConfigError } from '../core/errors';
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const MAX_DEPTH = 5;
+
+// Keys whose string values identify a wallet - shortened even when not EVM addresses
+const ADDRESS_KEYS = /(address|sender|recipient|receiver|owner|spender|account|wallet)$/i;
+const EVM_ADDRESS = /\b0x[0-9a-fA-F]{40}\b/g;
+// Longer than a 32-byte hash, so transaction hashes are kept
+const CALLDATA = /\b0x[0-9a-fA-F]{65,}\b/g;
+
+const config: LoggerConfig = {
+  level: typeof process !== 'undefined' && process.env?.NODE_ENV === 'production' ? 'warn' : 'debug',
+  format: 'pretty',
+  redact: true,
+};
+
+/**
+ * Change the global logger config - applies to existing loggers too
+ */
+export function configureLogger(overrides: Partial<LoggerConfig>): void {
+  Object.assign(config, overrides);
+}
+
+export function getLoggerConfig(): Readonly<LoggerConfig> {
+  return config;
+}
+
+export class Logger {
+  /**
+   * @param level - overrides the global level for this logger (e.g. from `config.debug`)
+   */
+  constructor(
+    readonly namespace: string,
+    private readonly level?: LogLevel
+  ) {}
+
+  debug(message: string, data?: unknown): void {
+    this.log('debug', message, data);
+  }
+
+  info(message: string, data?: unknown): void {
+    this.log('info', message, data);
+  }
+
+  warn(message: string, data?: unknown): void {
+    this.log('warn', message, data);
+  }
+
+  error(message: string, data?: unknown): void {
+    this.log('error', message, data);
+  }
+
+  isEnabled(level: LogEntry['level']): boolean {
+    return LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[this.level ?? config.level];
+  }
+
+  /**
+   * Logger for a sub-namespace, e.g. `wormhole:quotes`
+   */
+  child(name: string): Logger {
+    return new Logger(`${this.namespace}:${name}`, this.level);
+  }
+
+  private log(level: LogEntry['level'], message: string, data?: unknown): void {
+    if (!this.isEnabled(level)) return;
+
+    const entry: LogEntry = {
+      level,
+      namespace: this.namespace,
+      message,
+      data: data === undefined ? undefined : sanitize(data, config.redact),
+      timestamp: Date.now(),
+    };
+    (config.sink ?? consoleSink)(entry);
+  }
+}
+
+/**
+ * Logger for a namespace
+ *
+ * Pass `debug: true` (as from `WormholeConfig.debug`) to log debug output
+ * whatever the global level.
+ */
+export function getLogger(namespace: string, options: { debug?: boolean } = {}): Logger {
+  return new Logger(namespace, options.debug ? 'debug' : undefined);
+}
+
+/**
+ * Parse a log level from config such as an environment variable - undefined
+ * when unset
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  if (!value) return undefined;
+
+  const level = value.toLowerCase();
+  if (!(level in LEVEL_PRIORITY)) {
+    throw new InvalidConfigError(`Log level must be one of ${Object.keys(LEVEL_PRIORITY).join(', ')}`, { value });
+  }
+  return level as LogLevel;
+}
+
+/**
+ * Copy of a value that is safe to log: addresses shortened, calldata replaced
+ * by its length, bigints as strings, errors as `{ name, code, message }`
+ */
+export function redact(value: unknown): unknown {
+  return sanitize(value, true);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function consoleSink(entry: LogEntry): void {
+  const method = entry.level === 'error' ? console.error : entry.level === 'warn' ? console.warn : console.log;
+
+  if (config.format === 'json') {
+    const { timestamp, ...rest } = entry;
+    method(JSON.stringify({ time: new Date(timestamp).toISOString(), ...rest }));
+    return;
+  }
+
+  const prefix = `[${entry.namespace}] ${entry.message}`;
+  if (entry.data === undefined) {
+    method(prefix);
+  } else {
+    method(prefix, entry.data);
+  }
+}
+
+function sanitize(value: unknown, redactValues: boolean, key = '', depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'string') return redactValues ? redactString(value, key) : value;
+  if (typeof value !== 'object' || value === null) return value;
+
+  if (value instanceof Error) {
+    const code = (value as { code?: unknown }).code;
+    const message = redactValues ? redactString(value.message) : value.message;
+    return { name: value.name, ...(code !== undefined && { code }), message };
+  }
+  if (ArrayBuffer.isView(value)) return `[${value.byteLength} bytes]`;
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? '[Array]' : '[Object]';
+
+  // `seen` holds the current path only, so an object logged twice is not mistaken for a cycle
+  seen.add(value);
+  let result: unknown;
+  if (Array.isArray(value)) {
+    result = value.map((item) => sanitize(item, redactValues, key, depth + 1, seen));
+  } else {
+    const copy: Record<string, unknown> = {};
+    for (const [entryKey, entryValue] of Object.entries(value)) {
+      if (typeof entryValue === 'function') continue;
+      copy[entryKey] = sanitize(entryValue, redactValues, entryKey, depth + 1, seen);
+    }
+    result = copy;
+  }
+  seen.delete(value);
+  return result;
+}
+
+function redactString(value: string, key = ''): string {
+  const redacted = value
+    .replace(CALLDATA, (data) => `0x…(${(data.length - 2) / 2} bytes)`)
+    .replace(EVM_ADDRESS, shorten);
+
+  // Solana and other non-hex addresses
+  if (redacted === value && ADDRESS_KEYS.test(key) && /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value)) {
+    return shorten(value);
+  }
+  return redacted;
+}
+
+function shorten(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Price Utilities
+ *
+ * USD values of token amounts and quotes, from a synchronous price lookup.
+ * PriceService fetches and caches the prices; these only do the arithmetic.
+ */
+
+import type { BridgeQuote, QuoteUsdValues, Token, TokenAmount, UsdPriceLookup } from '../core/types';
+
+// The parts of a quote that are priced - BridgeQuote has them all
+type PricedQuote = Pick<
+  BridgeQuote,
+  'sourceToken' | 'destinationToken' | 'relayFee' | 'destinationNativeGas' | 'gasFee'
+>;
+
+/**
+ * Key a token's price is cached and looked up under - its chain ID and address
+ */
+export function getPriceKey(token: Pick<Token, 'chainId' | 'address'>): string {
+  return `${token.chainId}:${token.address.toLowerCase()}`;
+}
+
+/**
+ * USD value of a token amount, or undefined when the token has no price
+ */
+export function toUsd(amount: TokenAmount, getUsdPrice: UsdPriceLookup): number | undefined {
+  const price = getUsdPrice(amount.token);
+  return price === undefined ? undefined : (Number(amount.amount.amount) / 10 ** amount.amount.decimals) * price;
+}
+
+/**
+ * Tokens the USD values of a quote need prices for
+ */
+export function getQuoteTokens(quote: PricedQuote): Token[] {
+  return [quote.sourceToken, quote.destinationToken, quote.relayFee, quote.destinationNativeGas, quote.gasFee]
+    .filter((amount): amount is TokenAmount => amount !== undefined)
+    .map(({ token }) => token);
+}
+
+/**
+ * USD value of what a quote sends, charges and delivers
+ *
+ * A relay fee in the transferred token is already taken out of the amount
+ * received; one in another token (usually the native token) is paid on top,
+ * so it adds to the cost, as does source chain gas. Native gas dropped off
+ * counts as received.
+ */
+export function getQuoteUsdValues(quote: PricedQuote, getUsdPrice: UsdPriceLookup): QuoteUsdValues {
+  const sent = toUsd(quote.sourceToken, getUsdPrice);
+  const received = toUsd(quote.destinationToken, getUsdPrice);
+  const relayFee = quote.relayFee ? toUsd(quote.relayFee, getUsdPrice) : 0;
+  const destinationNativeGas = quote.destinationNativeGas ? toUsd(quote.destinationNativeGas, getUsdPrice) : 0;
+  const gasFee = quote.gasFee ? toUsd(quote.gasFee, getUsdPrice) : 0;
+
+  const feeOnTop = quote.relayFee && !isSameToken(quote.relayFee.token, quote.sourceToken.token) ? relayFee : 0;
+  const parts = [sent, received, feeOnTop, destinationNativeGas, gasFee];
+  const cost = parts.some((value) => value === undefined)
+    ? undefined
+    : sent! + feeOnTop! + gasFee! - received! - destinationNativeGas!;
+
+  return { sent, received, relayFee, destinationNativeGas, gasFee, cost };
+}
+
+/**
+ * Quotes cheapest first by USD cost, with failed quotes last
+ *
+ * Successful quotes keep their order when any of them has no cost, since
+ * costs cannot be compared without every price. The sort is stable.
+ */
+export function sortQuotesByUsdCost<Q extends PricedQuote & Pick<BridgeQuote, 'success'>>(
+  quotes: Q[],
+  getUsdPrice: UsdPriceLookup
+): Q[] {
+  const successful = quotes.filter((quote) => quote.success);
+  const failed = quotes.filter((quote) => !quote.success);
+
+  const costs = new Map(successful.map((quote) => [quote, getQuoteUsdValues(quote, getUsdPrice).cost]));
+  if ([...costs.values()].some((cost) => cost === undefined)) {
+    return [...successful, ...failed];
+  }
+  return [...successful.sort((a, b) => costs.get(a)! - costs.get(b)!), ...failed];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isSameToken(a: Token, b: Token): boolean {
+  return getPriceKey(a) === getPriceKey(b);
+}
@@ -0,0 +1,61 @@
+/**
+ * Quote Expiry Utilities
+ */
+
+import type { BridgeQuote, QuoteRequest, TransferParams } from '../core/types';
+import { TIMING } from '../core/constants';
+import { QuoteExpiredError } from '../core/errors';
+
+/**
+ * When a quote expires - `expiresAt`, or TIMING.QUOTE_EXPIRATION_MS after it was fetched
+ */
+export function getQuoteExpiry(quote: Pick<BridgeQuote, 'expiresAt' | 'timestamp'>): number | undefined {
+  if (quote.expiresAt !== undefined) return quote.expiresAt;
+  return quote.timestamp !== undefined ? quote.timestamp + TIMING.QUOTE_EXPIRATION_MS : undefined;
+}
+
+/**
+ * Milliseconds until a quote expires (0 once expired, Infinity if it has no expiry)
+ */
+export function getQuoteTimeRemaining(
+  quote: Pick<BridgeQuote, 'expiresAt' | 'timestamp'>,
+  now: number = Date.now()
+): number {
+  const expiry = getQuoteExpiry(quote);
+  return expiry === undefined ? Infinity : Math.max(0, expiry - now);
+}
+
+export function isQuoteExpired(quote: Pick<BridgeQuote, 'expiresAt' | 'timestamp'>, now: number = Date.now()): boolean {
+  return getQuoteTimeRemaining(quote, now) === 0;
+}
+
+/**
+ * Throw QuoteExpiredError if a quote is no longer valid
+ */
+export function assertQuoteNotExpired(
+  quote: Pick<BridgeQuote, 'expiresAt' | 'timestamp'>,
+  now: number = Date.now()
+): void {
+  if (isQuoteExpired(quote, now)) {
+    throw new QuoteExpiredError({ expiresAt: getQuoteExpiry(quote) });
+  }
+}
+
+/**
+ * The quote request matching a transfer, pinned to the transfer's route
+ */
+export function toQuoteRequest(params: TransferParams): QuoteRequest {
+  return {
+    sourceChain: params.sourceChain,
+    destChain: params.destChain,
+    token: params.token,
+    amount: params.amount,
+    senderAddress: params.senderAddress,
+    recipientAddress: params.recipientAddress,
+    routeType: params.route?.type ?? params.quote?.route.type,
+    nativeGas: params.nativeGas,
+    destinationToken: params.destinationToken,
+    slippage: params.slippage,
+    deadline: params.deadline,
+  };
+}
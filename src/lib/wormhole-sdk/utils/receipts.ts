@@ -0,0 +1,87 @@
+/**
+ * Transfer Receipt Utilities
+ *
+ * Converts Wormhole SDK route receipts into the framework-agnostic
+ * TransferReceipt shape.
+ */
+
+import { TransferState, type routes } from '@wormhole-foundation/sdk';
+
+import { TransferStatus, type Network, type RouteType, type TransferReceipt } from '../core/types';
+import { DEFAULT_NETWORK, ROUTE_METADATA, URLS } from '../core/constants';
+import { getRouteInfo } from './route-helpers';
+
+/**
+ * Wormholescan URL for a source transaction
+ */
+export function getWormholeScanUrl(txHash: string, network: Network): string {
+  return `${URLS.WORMHOLE_SCAN}/#/tx/${txHash}?network=${network}`;
+}
+
+/**
+ * Block explorer URL for a transaction, or an empty string for unknown chains
+ */
+export function getBlockExplorerUrl(
+  txHash: string,
+  chain: string,
+  network: Network = DEFAULT_NETWORK
+): string {
+  const explorers: Record<string, string> = URLS.EXPLORERS[network];
+  const explorer = explorers[chain];
+  if (!explorer) return '';
+
+  // Solana explorers pick the cluster from the query string
+  const cluster = chain === 'Solana' && network !== 'Mainnet' ? '?cluster=devnet' : '';
+  return `${explorer}/tx/${txHash}${cluster}`;
+}
+
+/**
+ * Map an SDK transfer state to a TransferStatus
+ */
+export function toTransferStatus(state: TransferState, routeType: RouteType): TransferStatus {
+  const { requiresManualClaim } = ROUTE_METADATA[routeType];
+
+  switch (state) {
+    case TransferState.Created:
+      return TransferStatus.PENDING;
+    case TransferState.SourceInitiated:
+      return TransferStatus.TRANSFERRING;
+    case TransferState.SourceFinalized:
+    case TransferState.InReview:
+      return TransferStatus.ATTESTING;
+    case TransferState.Attested:
+    case TransferState.DestinationInitiated:
+    case TransferState.DestinationQueued:
+      return requiresManualClaim ? TransferStatus.CLAIMING : TransferStatus.RELAYING;
+    case TransferState.DestinationFinalized:
+      return TransferStatus.COMPLETED;
+    case TransferState.Refunded:
+    case TransferState.Failed:
+    default:
+      return TransferStatus.FAILED;
+  }
+}
+
+/**
+ * Convert an SDK route receipt into a TransferReceipt
+ */
+export function toTransferReceipt(
+  receipt: routes.Receipt,
+  routeType: RouteType,
+  network: Network
+): TransferReceipt {
+  const originTxs = 'originTxs' in receipt ? receipt.originTxs : [];
+  // For routes with an approval the bridge transaction is the last one
+  const txHash = originTxs.length > 0 ? originTxs[originTxs.length - 1].txid : '';
+
+  return {
+    txHash,
+    originTxs: originTxs.map((tx) => ({ txid: tx.txid, chain: tx.chain })),
+    destChain: receipt.to,
+    route: getRouteInfo(routeType),
+    wormholeScanUrl: getWormholeScanUrl(txHash, network),
+    blockExplorerUrl: getBlockExplorerUrl(txHash, receipt.from, network),
+    status: toTransferStatus(receipt.state, routeType),
+    timestamp: Date.now(),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Retry & Timeout Utilities
+ *
+ * Retries idempotent calls (quotes, validation, lookups, receipt waits) with
+ * exponential backoff from TIMING. Never wrap a call that submits a
+ * transaction - a retry could submit it twice.
+ */
+
+import type { WormholeConfig } from '../core/types';
+import { TIMING } from '../core/constants';
+import { TransactionTimeoutError, isRecoverableError } from '../core/errors';
+
+export interface RetryOptions {
+  /** Retries after the first attempt - defaults to TIMING.MAX_RETRIES */
+  retries?: number;
+  /** Delay before the first retry - defaults to TIMING.RETRY_DELAY_MS */
+  delayMs?: number;
+  /** Factor the delay grows by on each retry - defaults to TIMING.RETRY_BACKOFF_MULTIPLIER */
+  backoffMultiplier?: number;
+  /** Longest delay between retries - defaults to no limit */
+  maxDelayMs?: number;
+  /** Time limit for each attempt - defaults to TIMING.REQUEST_TIMEOUT_MS, 0 for none */
+  timeoutMs?: number;
+  /** Unix ms after which no attempt is started and a running one times out */
+  deadline?: number;
+  /** Whether an error is worth another attempt - defaults to isRecoverableError */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Called before waiting for retry number `attempt` */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  /** What is being attempted, reported in timeout errors */
+  label?: string;
+  /** Transaction being waited for, reported in timeout errors */
+  txHash?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run an operation, retrying recoverable failures with exponential backoff
+ *
+ * Attempts that run past `timeoutMs` or `deadline` fail with
+ * TransactionTimeoutError. Per-attempt timeouts are retried; when the
+ * deadline would pass before the next attempt, TransactionTimeoutError is
+ * thrown with the last failure in `details.lastError`.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { retries = TIMING.MAX_RETRIES, shouldRetry = isRecoverableError, onRetry, deadline, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    const remaining = deadline === undefined ? Infinity : deadline - Date.now();
+    if (remaining <= 0) {
+      throw new TransactionTimeoutError(options.txHash, { label: options.label, deadline, attempts: attempt });
+    }
+
+    const timeoutMs = options.timeoutMs ?? TIMING.REQUEST_TIMEOUT_MS;
+    const attemptTimeout = Math.min(timeoutMs > 0 ? timeoutMs : Infinity, remaining);
+
+    try {
+      return await withTimeout(
+        Promise.resolve().then(() => operation(attempt)),
+        attemptTimeout,
+        options
+      );
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(attempt, options);
+      if (deadline !== undefined && Date.now() + delayMs >= deadline) {
+        if (error instanceof TransactionTimeoutError) throw error;
+        throw new TransactionTimeoutError(options.txHash, {
+          label: options.label,
+          deadline,
+          attempts: attempt + 1,
+          lastError: error,
+        });
+      }
+
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+      if (signal?.aborted) throw error;
+    }
+  }
+}
+
+/**
+ * Reject with TransactionTimeoutError if a promise has not settled within
+ * `timeoutMs` (Infinity waits forever)
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  context: Pick<RetryOptions, 'label' | 'txHash'> = {}
+): Promise<T> {
+  if (!Number.isFinite(timeoutMs)) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new TransactionTimeoutError(context.txHash, { label: context.label, timeoutMs }));
+    }, timeoutMs);
+
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Delay before the retry after attempt `attempt` (0-based)
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: Pick<RetryOptions, 'delayMs' | 'backoffMultiplier' | 'maxDelayMs'> = {}
+): number {
+  const {
+    delayMs = TIMING.RETRY_DELAY_MS,
+    backoffMultiplier = TIMING.RETRY_BACKOFF_MULTIPLIER,
+    maxDelayMs = Infinity,
+  } = options;
+  return Math.min(delayMs * backoffMultiplier ** attempt, maxDelayMs);
+}
+
+/**
+ * Retry options from a service config's `retries` and `timeout`
+ */
+export function toRetryOptions(config: Pick<WormholeConfig, 'retries' | 'timeout'>): RetryOptions {
+  return { retries: config.retries, timeoutMs: config.timeout };
+}
+
+/**
+ * Wait `ms` milliseconds, or until the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
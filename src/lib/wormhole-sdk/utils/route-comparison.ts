@@ -0,0 +1,165 @@
+/**
+ * Route Comparison Utilities
+ *
+ * Scores quoted routes against each other on the amount received, the relay
+ * fee, the ETA, whether a manual claim is needed and the route's reliability.
+ * Each criterion is scaled 0-1 across the quotes being compared, weighted,
+ * and summed into a 0-100 score, with pros and cons to show next to it.
+ */
+
+import type {
+  ComparableQuote,
+  RouteComparisonOptions,
+  RouteScore,
+  RouteScoreBreakdown,
+  RouteScoreWeights,
+  TokenAmount,
+} from '../core/types';
+import { ROUTE_SCORING } from '../core/constants';
+import { formatDuration } from './route-helpers';
+
+/**
+ * Relay fee of each quote in a common unit, or null when they cannot be compared
+ */
+interface RelayFeeCosts {
+  costs: number[];
+  usd: boolean;
+}
+
+/**
+ * Score quotes against each other, best first
+ *
+ * Only compare successful quotes for the same transfer. Relay fees are
+ * compared in USD when `getUsdPrice` knows every fee token, otherwise in the
+ * transferred token when every fee is paid in it, and left out of the score
+ * when neither is possible.
+ */
+export function compareQuotes<Q extends ComparableQuote>(
+  quotes: Q[],
+  options: RouteComparisonOptions = {}
+): RouteScore<Q>[] {
+  const weights: RouteScoreWeights = { ...ROUTE_SCORING.DEFAULT_WEIGHTS, ...options.weights };
+
+  const received = quotes.map((quote) => toNumber(quote.destinationToken));
+  const fees = getRelayFeeCosts(quotes, options.getUsdPrice);
+  const etas = quotes.map((quote) => Math.max(quote.eta, 1));
+
+  const criteria: Record<keyof RouteScoreWeights, number[] | null> = {
+    netAmount: scaleHigherBetter(received),
+    relayFee: fees && scaleLowerBetter(fees.costs),
+    // Log scale, so minutes against hours still matters next to hours against days
+    eta: scaleLowerBetter(etas.map(Math.log)),
+    manualClaim: quotes.map((quote) => (quote.route.requiresManualClaim ? 0 : 1)),
+    reliability: quotes.map((quote) => ROUTE_SCORING.RELIABILITY_SCORES[quote.route.reliability ?? 'medium']),
+  };
+
+  const bestReceived = Math.max(...received);
+  const fastest = Math.min(...etas);
+
+  return quotes
+    .map((quote, index) => {
+      const breakdown: RouteScoreBreakdown = {};
+      let total = 0;
+      let totalWeight = 0;
+
+      for (const [criterion, scores] of Object.entries(criteria) as [keyof RouteScoreWeights, number[] | null][]) {
+        if (!scores || weights[criterion] <= 0) continue;
+        breakdown[criterion] = scores[index];
+        total += weights[criterion] * scores[index];
+        totalWeight += weights[criterion];
+      }
+
+      const pros: string[] = [];
+      const cons: string[] = [];
+      const symbol = quote.destinationToken.token.symbol;
+
+      if (new Set(received).size > 1) {
+        if (received[index] === bestReceived) {
+          pros.push(`Most received (${formatNumber(received[index])} ${symbol})`);
+        } else {
+          cons.push(`${formatNumber(bestReceived - received[index])} ${symbol} less than the best route`);
+        }
+      }
+
+      if (!quote.relayFee || toNumber(quote.relayFee) === 0) {
+        pros.push('No relay fee');
+      } else if (fees?.usd) {
+        cons.push(`Relay fee of ~$${fees.costs[index].toFixed(2)}`);
+      } else {
+        cons.push(`Relay fee of ${formatNumber(toNumber(quote.relayFee))} ${quote.relayFee.token.symbol}`);
+      }
+
+      if (new Set(etas).size > 1 && etas[index] === fastest) {
+        pros.push(`Fastest (${formatDuration(quote.eta)})`);
+      } else if (quote.eta >= ROUTE_SCORING.SLOW_ETA_MS) {
+        cons.push(`Slow (${formatDuration(quote.eta)})`);
+      }
+
+      if (quote.route.requiresManualClaim) {
+        cons.push('Requires a manual claim on the destination chain');
+      } else {
+        pros.push('Delivered automatically by a relayer');
+      }
+
+      if (quote.route.reliability === 'high') {
+        pros.push('High reliability');
+      } else if (quote.route.reliability === 'low') {
+        cons.push('Lower reliability');
+      }
+
+      return {
+        quote,
+        score: totalWeight > 0 ? Math.round((100 * total) / totalWeight) : 0,
+        breakdown,
+        pros,
+        cons,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getRelayFeeCosts(
+  quotes: ComparableQuote[],
+  getUsdPrice: RouteComparisonOptions['getUsdPrice']
+): RelayFeeCosts | null {
+  const usd = quotes.map(({ relayFee }) => {
+    if (!relayFee) return 0;
+    const price = getUsdPrice?.(relayFee.token);
+    return price === undefined ? undefined : toNumber(relayFee) * price;
+  });
+  if (usd.every((cost) => cost !== undefined)) {
+    return { costs: usd as number[], usd: true };
+  }
+
+  // Without prices, fees can still be compared when they are all in the transferred token
+  const inSourceToken = quotes.every(
+    ({ relayFee, sourceToken }) =>
+      !relayFee || relayFee.token.address.toLowerCase() === sourceToken.token.address.toLowerCase()
+  );
+  return inSourceToken
+    ? { costs: quotes.map(({ relayFee }) => (relayFee ? toNumber(relayFee) : 0)), usd: false }
+    : null;
+}
+
+// Scale to 0-1, 1 for the highest value - all 1 when the values are equal
+function scaleHigherBetter(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map((value) => (max === min ? 1 : (value - min) / (max - min)));
+}
+
+function scaleLowerBetter(values: number[]): number[] {
+  return scaleHigherBetter(values.map((value) => -value));
+}
+
+function toNumber({ amount }: TokenAmount): number {
+  return Number(amount.amount) / 10 ** amount.decimals;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toPrecision(4)).toString();
+}
@@ -0,0 +1,46 @@
+/**
+ * Route Helper Utilities
+ */
+
+import { RouteType, type Route, type TokenAmount } from '../core/types';
+import { ROUTE_METADATA } from '../core/constants';
+
+/**
+ * Build a Route from the metadata of a route type
+ */
+export function getRouteInfo(type: RouteType, relayFee?: TokenAmount): Route {
+  const metadata = ROUTE_METADATA[type];
+  return {
+    type,
+    name: metadata.name,
+    description: metadata.description,
+    estimatedTime: metadata.averageTime,
+    relayFee,
+    isAutomatic: metadata.isAutomatic,
+    requiresManualClaim: metadata.requiresManualClaim,
+    reliability: metadata.reliability,
+    isSwap: metadata.isSwap,
+  };
+}
+
+/**
+ * Human-readable duration for an ETA in milliseconds, e.g. "~15 min"
+ */
+export function formatDuration(milliseconds: number): string {
+  const seconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) return `~${days} day${days > 1 ? 's' : ''}`;
+  if (hours > 0) return `~${hours} hour${hours > 1 ? 's' : ''}`;
+  if (minutes > 0) return `~${minutes} min`;
+  return `~${seconds} sec`;
+}
+
+/**
+ * Check if a string is a known route type
+ */
+export function isRouteType(value: unknown): value is RouteType {
+  return (Object.values(RouteType) as unknown[]).includes(value);
+}
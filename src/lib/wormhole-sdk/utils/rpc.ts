@@ -0,0 +1,83 @@
+/**
+ * RPC Configuration Utilities
+ *
+ * Parses and merges per-chain RPC URL lists.
+ */
+
+import type { Network, RpcUrlConfig, RpcUrls } from '../core/types';
+import { DEFAULT_NETWORK } from '../core/constants';
+import { InvalidConfigError } from '../core/errors';
+import { getNetworkChains } from './chains';
+
+/**
+ * Parse RPC URLs for a network
+ *
+ * Accepts an RpcUrlConfig, or the same object as a JSON string (as read from
+ * an environment variable). Throws InvalidConfigError for chains that are not
+ * on the network and for URLs that are not http(s).
+ */
+export function parseRpcUrls(input: unknown, network: Network = DEFAULT_NETWORK): RpcUrls {
+  if (input === undefined || input === null || input === '') return {};
+
+  let config: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      config = JSON.parse(input);
+    } catch {
+      throw new InvalidConfigError('RPC URLs must be a JSON object of chain names to URLs', { input });
+    }
+  }
+
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new InvalidConfigError('RPC URLs must be an object of chain names to URLs', { input });
+  }
+
+  const chains = getNetworkChains(network);
+  const rpcUrls: RpcUrls = {};
+
+  for (const [chain, value] of Object.entries(config)) {
+    if (!chains.includes(chain)) {
+      throw new InvalidConfigError(`RPC URLs given for '${chain}', which is not a ${network} chain`, {
+        chain,
+        chains,
+      });
+    }
+
+    const urls = Array.isArray(value) ? value : [value];
+    for (const url of urls) {
+      if (!isHttpUrl(url)) {
+        throw new InvalidConfigError(`Invalid RPC URL for ${chain}: ${String(url)}`, { chain, url });
+      }
+    }
+
+    if (urls.length > 0) rpcUrls[chain] = dedupe(urls as string[]);
+  }
+
+  return rpcUrls;
+}
+
+/**
+ * Merge RPC URL configs (objects or JSON strings) - a chain listed in a later
+ * config replaces that chain's URLs from earlier ones
+ */
+export function mergeRpcUrls(network: Network, ...configs: (RpcUrlConfig | string | undefined)[]): RpcUrls {
+  return Object.assign({}, ...configs.map((config) => parseRpcUrls(config, network)));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function dedupe(urls: string[]): string[] {
+  return [...new Set(urls)];
+}
@@ -0,0 +1,28 @@
+/**
+ * Signer Utilities
+ */
+
+import {
+  isSignAndSendSigner,
+  type Chain,
+  type Network as SdkNetwork,
+  type SignAndSendSigner,
+} from '@wormhole-foundation/sdk';
+
+import type { WormholeSigner } from '../core/types';
+import { WalletWrongNetworkError } from '../core/errors';
+
+/**
+ * Throw WalletWrongNetworkError unless a signer is one the SDK routes accept -
+ * one that signs and sends on `chain`
+ */
+export function assertChainSigner(
+  signer: WormholeSigner,
+  chain: Chain,
+  details?: any
+): asserts signer is WormholeSigner & SignAndSendSigner<SdkNetwork, Chain> {
+  const actual = signer.chain();
+  if (!isSignAndSendSigner(signer) || actual !== chain) {
+    throw new WalletWrongNetworkError(chain, actual, details);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Swap Quote Utilities
+ *
+ * Reads the swap terms (slippage, minimum received, deadline) out of the
+ * quotes of routes that change the token on the way, and checks them against
+ * the limits the user set. Mayan routes return Mayan's own quote as the SDK
+ * quote's `details`, with amounts as decimal numbers rather than base units.
+ */
+
+import type { BridgeQuote, QuoteRequest, SwapDetails, Token, TokenAmount } from '../core/types';
+import { FEATURES } from '../core/constants';
+import { formatDuration } from './route-helpers';
+
+// The fields of a Mayan quote (from @mayanfinance/swap-sdk) that are read here
+interface MayanQuoteDetails {
+  slippageBps: number;
+  expectedAmountOut: number;
+  minReceived?: number;
+  minAmountOut?: number;
+  deadline64?: string; // unix seconds
+  toToken?: { symbol?: string; decimals?: number };
+}
+
+/**
+ * Swap terms of an SDK route quote, or undefined when the route does not swap
+ *
+ * `destinationToken` is the token the quote delivers; its symbol and decimals
+ * are taken from the swap quote when it has them.
+ */
+export function getSwapDetails(quote: unknown, destinationToken: Token): SwapDetails | undefined {
+  const details = (quote as { details?: unknown } | null)?.details;
+  if (!isMayanQuote(details)) return undefined;
+
+  const token: Token = {
+    ...destinationToken,
+    symbol: details.toToken?.symbol ?? destinationToken.symbol,
+    decimals: details.toToken?.decimals ?? destinationToken.decimals,
+  };
+  const minReceived = details.minReceived ?? details.minAmountOut ?? details.expectedAmountOut;
+
+  return {
+    slippageBps: details.slippageBps,
+    expectedReceived: toTokenAmount(details.expectedAmountOut, token),
+    minReceived: toTokenAmount(minReceived, token),
+    deadline: details.deadline64 ? Number(details.deadline64) * 1000 : undefined,
+  };
+}
+
+/**
+ * Why a quote cannot honor a request's slippage and deadline, or undefined
+ * when it can
+ *
+ * Swap routes must quote within `slippage`. Every route must be expected to
+ * deliver before `deadline`, and a swap must be filled by then.
+ */
+export function getSwapConstraintError(
+  quote: Pick<BridgeQuote, 'eta'> & { swap?: Pick<SwapDetails, 'slippageBps' | 'deadline'> },
+  constraints: Pick<QuoteRequest, 'slippage' | 'deadline'>,
+  now: number = Date.now()
+): string | undefined {
+  const { slippage, deadline } = constraints;
+  const { swap } = quote;
+
+  if (FEATURES.ENABLE_SLIPPAGE_PROTECTION && slippage !== undefined && swap && swap.slippageBps > slippage) {
+    return `Slippage of ${formatBps(swap.slippageBps)} is over the ${formatBps(slippage)} limit`;
+  }
+
+  if (FEATURES.ENABLE_DEADLINE && deadline !== undefined) {
+    if (now + quote.eta > deadline) {
+      return `Takes ${formatDuration(quote.eta)}, past the deadline`;
+    }
+    if (swap?.deadline !== undefined && swap.deadline > deadline) {
+      return 'Swap may be filled after the deadline';
+    }
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatBps(bps: number): string {
+  return `${bps / 100}%`;
+}
+
+function isMayanQuote(details: unknown): details is MayanQuoteDetails {
+  if (!details || typeof details !== 'object') return false;
+  const { slippageBps, expectedAmountOut } = details as Partial<MayanQuoteDetails>;
+  return typeof slippageBps === 'number' && typeof expectedAmountOut === 'number';
+}
+
+// Decimal number to base units, without going through a float multiplication
+function toTokenAmount(value: number, token: Token): TokenAmount {
+  const [whole, fraction = ''] = value.toFixed(token.decimals).split('.');
+  return {
+    token,
+    amount: { amount: BigInt(whole + fraction).toString(), decimals: token.decimals },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Token List Parsing
+ *
+ * Checks that untrusted JSON is a token list in the Uniswap token-list format.
+ * Addresses and decimals are checked against the chain by TokenRegistry.
+ */
+
+import type { TokenList, TokenListEntry } from '../core/types';
+import { VALIDATION } from '../core/constants';
+import { InvalidTokenListError } from '../core/errors';
+
+/**
+ * Parse a token list, throwing InvalidTokenListError when it is malformed
+ */
+export function parseTokenList(input: unknown): TokenList {
+  if (!input || typeof input !== 'object') {
+    throw new InvalidTokenListError('Token list must be a JSON object');
+  }
+
+  const list = input as Record<string, unknown>;
+  if (typeof list.name !== 'string' || !list.name) {
+    throw new InvalidTokenListError('Token list is missing a name');
+  }
+  if (!Array.isArray(list.tokens)) {
+    throw new InvalidTokenListError(`Token list '${list.name}' has no tokens array`);
+  }
+
+  const tokens = list.tokens.map((entry, index) => parseTokenListEntry(entry, index, list.name as string));
+
+  return {
+    name: list.name,
+    timestamp: typeof list.timestamp === 'string' ? list.timestamp : new Date(0).toISOString(),
+    version: isVersion(list.version) ? list.version : { major: 0, minor: 0, patch: 0 },
+    tokens,
+    ...(typeof list.logoURI === 'string' && { logoURI: list.logoURI }),
+    ...(Array.isArray(list.keywords) && { keywords: list.keywords.map(String) }),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseTokenListEntry(input: unknown, index: number, listName: string): TokenListEntry {
+  const fail = (reason: string): never => {
+    throw new InvalidTokenListError(`Token ${index} in '${listName}' ${reason}`, { index, token: input });
+  };
+
+  if (!input || typeof input !== 'object') fail('is not an object');
+
+  const entry = input as Record<string, unknown>;
+  if (!Number.isSafeInteger(entry.chainId) || (entry.chainId as number) <= 0) {
+    fail('has an invalid chainId');
+  }
+  if (typeof entry.address !== 'string' || !entry.address) fail('has no address');
+  if (typeof entry.symbol !== 'string' || !entry.symbol) fail('has no symbol');
+  if (
+    !Number.isInteger(entry.decimals) ||
+    (entry.decimals as number) < 0 ||
+    (entry.decimals as number) > VALIDATION.MAX_DECIMALS
+  ) {
+    fail(`has invalid decimals (${String(entry.decimals)})`);
+  }
+
+  return {
+    chainId: entry.chainId as number,
+    address: entry.address as string,
+    symbol: entry.symbol as string,
+    name: typeof entry.name === 'string' ? entry.name : (entry.symbol as string),
+    decimals: entry.decimals as number,
+    ...(typeof entry.logoURI === 'string' && { logoURI: entry.logoURI }),
+    ...(Array.isArray(entry.tags) && { tags: entry.tags.map(String) }),
+    ...(isRecord(entry.extensions) && { extensions: entry.extensions }),
+  };
+}
+
+function isVersion(value: unknown): value is TokenList['version'] {
+  if (!isRecord(value)) return false;
+  return [value.major, value.minor, value.patch].every(Number.isInteger);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
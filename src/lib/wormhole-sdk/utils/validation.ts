@@ -0,0 +1,287 @@
+/**
+ * Input Validation Utilities
+ *
+ * Validates untrusted input (HTTP bodies, script arguments) against the rules
+ * in `VALIDATION` before it reaches the Wormhole SDK.
+ */
+
+import { encoding, keccak256 } from '@wormhole-foundation/sdk';
+
+import { RouteType, type ChainPlatform, type Network, type QuoteRequest, type Token } from '../core/types';
+import { CHAIN_PLATFORMS, DEFAULT_NETWORK, FEES, NATIVE_TOKEN_ADDRESS, VALIDATION } from '../core/constants';
+import {
+  ChainNotSupportedError,
+  InvalidAddressError,
+  InvalidAmountError,
+  InvalidRequestError,
+  InvalidTokenAddressError,
+} from '../core/errors';
+import { getChainId } from './chains';
+import { isRouteType } from './route-helpers';
+
+/**
+ * Check if a string is a well-formed EVM address with a valid checksum (if it has one)
+ */
+export function isValidEvmAddress(address: unknown): address is string {
+  return (
+    typeof address === 'string' &&
+    VALIDATION.EVM_ADDRESS_REGEX.test(address) &&
+    hasValidChecksum(address)
+  );
+}
+
+/**
+ * EIP-55 checksummed form of an EVM address
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.slice(2).toLowerCase();
+  const hash = encoding.hex.encode(keccak256(encoding.bytes.encode(lower)), false);
+
+  return `0x${[...lower].map((char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char)).join('')}`;
+}
+
+/**
+ * Check the EIP-55 checksum of a mixed-case EVM address
+ *
+ * All-lowercase and all-uppercase addresses carry no checksum and pass.
+ */
+export function hasValidChecksum(address: string): boolean {
+  const body = address.slice(2);
+  if (body === body.toLowerCase() || body === body.toUpperCase()) return true;
+  return toChecksumAddress(address) === address;
+}
+
+/**
+ * Check if a string is a base58 Solana address (32-byte public key)
+ */
+export function isValidSolanaAddress(address: unknown): address is string {
+  if (typeof address !== 'string' || !VALIDATION.SOLANA_ADDRESS_REGEX.test(address)) {
+    return false;
+  }
+
+  try {
+    return encoding.b58.decode(address).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if an address is well-formed for the platform of a chain
+ */
+export function isValidAddress(address: unknown, chain: string): address is string {
+  switch (CHAIN_PLATFORMS[chain]) {
+    case 'Evm':
+      return isValidEvmAddress(address);
+    case 'Solana':
+      return isValidSolanaAddress(address);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Explain why an address is invalid for a chain, or null if it is valid
+ */
+export function getAddressError(address: string, chain: string): string | null {
+  const platform = CHAIN_PLATFORMS[chain];
+
+  if (platform === 'Evm') {
+    if (!VALIDATION.EVM_ADDRESS_REGEX.test(address)) {
+      return `Not a valid ${chain} address (expected 0x followed by 40 hex characters)`;
+    }
+    if (!hasValidChecksum(address)) {
+      return 'Address checksum does not match - check it for typos';
+    }
+    return null;
+  }
+
+  if (platform === 'Solana') {
+    return isValidSolanaAddress(address) ? null : 'Not a valid Solana address (expected a base58 public key)';
+  }
+
+  return `${chain} is not supported`;
+}
+
+/**
+ * Check if a string is a positive integer amount in base units
+ */
+export function isValidBaseUnitAmount(amount: unknown): amount is string {
+  return typeof amount === 'string' && /^\d+$/.test(amount) && BigInt(amount) > 0n;
+}
+
+/**
+ * Check if a native gas drop-off is a fraction between 0 and 1
+ */
+export function isValidNativeGas(nativeGas: unknown): nativeGas is number {
+  return (
+    typeof nativeGas === 'number' &&
+    nativeGas >= VALIDATION.MIN_NATIVE_GAS &&
+    nativeGas <= VALIDATION.MAX_NATIVE_GAS
+  );
+}
+
+/**
+ * Check if a slippage limit is a whole number of basis points within
+ * FEES.MIN_SLIPPAGE_BPS and FEES.MAX_SLIPPAGE_BPS
+ */
+export function isValidSlippage(slippage: unknown): slippage is number {
+  return (
+    typeof slippage === 'number' &&
+    Number.isInteger(slippage) &&
+    slippage >= FEES.MIN_SLIPPAGE_BPS &&
+    slippage <= FEES.MAX_SLIPPAGE_BPS
+  );
+}
+
+/**
+ * Check if a chain name is supported by the bridge on a network
+ */
+export function isSupportedChain(chain: unknown, network: Network = DEFAULT_NETWORK): chain is string {
+  return typeof chain === 'string' && chain in CHAIN_PLATFORMS && getChainId(chain, network) !== undefined;
+}
+
+/**
+ * Validate a token definition
+ *
+ * Native tokens use NATIVE_TOKEN_ADDRESS on every platform.
+ */
+export function validateToken(token: unknown, platform: ChainPlatform = 'Evm'): Token {
+  if (!token || typeof token !== 'object') {
+    throw new InvalidRequestError('token is required');
+  }
+
+  const { address, symbol, decimals, chainId, name, logoURI } = token as Record<string, unknown>;
+
+  const isValidTokenAddress =
+    address === NATIVE_TOKEN_ADDRESS ||
+    (platform === 'Solana' ? isValidSolanaAddress(address) : isValidEvmAddress(address));
+  if (!isValidTokenAddress || typeof address !== 'string') {
+    throw new InvalidTokenAddressError(String(address));
+  }
+  if (typeof symbol !== 'string' || symbol.length === 0) {
+    throw new InvalidRequestError('token.symbol is required');
+  }
+  if (
+    typeof decimals !== 'number' ||
+    !Number.isInteger(decimals) ||
+    decimals < 0 ||
+    decimals > VALIDATION.MAX_DECIMALS
+  ) {
+    throw new InvalidRequestError(
+      `token.decimals must be an integer between 0 and ${VALIDATION.MAX_DECIMALS}`,
+      { decimals }
+    );
+  }
+  if (typeof chainId !== 'number' || !Number.isInteger(chainId)) {
+    throw new InvalidRequestError('token.chainId must be an integer', { chainId });
+  }
+
+  return {
+    address,
+    symbol,
+    decimals,
+    chainId,
+    ...(typeof name === 'string' && { name }),
+    ...(typeof logoURI === 'string' && { logoURI }),
+  };
+}
+
+/**
+ * Validate an untrusted quote request
+ *
+ * Throws the matching WormholeError subclass for the first invalid field.
+ */
+export function validateQuoteRequest(input: unknown, network: Network = DEFAULT_NETWORK): QuoteRequest {
+  if (!input || typeof input !== 'object') {
+    throw new InvalidRequestError('Request body must be a JSON object');
+  }
+
+  const body = input as Record<string, unknown>;
+
+  if (!isSupportedChain(body.sourceChain, network)) {
+    throw new ChainNotSupportedError(String(body.sourceChain));
+  }
+  if (!isSupportedChain(body.destChain, network)) {
+    throw new ChainNotSupportedError(String(body.destChain));
+  }
+  if (body.sourceChain === body.destChain) {
+    throw new InvalidRequestError('sourceChain and destChain must be different');
+  }
+
+  const token = validateToken(body.token, CHAIN_PLATFORMS[body.sourceChain]);
+  if (token.chainId !== getChainId(body.sourceChain, network)) {
+    throw new InvalidRequestError('token.chainId does not match sourceChain', {
+      chainId: token.chainId,
+      sourceChain: body.sourceChain,
+    });
+  }
+
+  if (!isValidBaseUnitAmount(body.amount)) {
+    throw new InvalidAmountError(String(body.amount), {
+      reason: 'amount must be a positive integer string in base units',
+    });
+  }
+  if (!isValidAddress(body.senderAddress, body.sourceChain)) {
+    throw new InvalidAddressError(String(body.senderAddress), {
+      field: 'senderAddress',
+      reason: getAddressError(String(body.senderAddress), body.sourceChain),
+    });
+  }
+  if (!isValidAddress(body.recipientAddress, body.destChain)) {
+    throw new InvalidAddressError(String(body.recipientAddress), {
+      field: 'recipientAddress',
+      reason: getAddressError(String(body.recipientAddress), body.destChain),
+    });
+  }
+
+  if (body.routeType !== undefined && !isRouteType(body.routeType)) {
+    throw new InvalidRequestError(`routeType must be one of: ${Object.values(RouteType).join(', ')}`, {
+      routeType: body.routeType,
+    });
+  }
+
+  if (body.nativeGas !== undefined && !isValidNativeGas(body.nativeGas)) {
+    throw new InvalidRequestError(
+      `nativeGas must be a number between ${VALIDATION.MIN_NATIVE_GAS} and ${VALIDATION.MAX_NATIVE_GAS}`,
+      { nativeGas: body.nativeGas }
+    );
+  }
+
+  let destinationToken: Token | undefined;
+  if (body.destinationToken !== undefined) {
+    destinationToken = validateToken(body.destinationToken, CHAIN_PLATFORMS[body.destChain]);
+    if (destinationToken.chainId !== getChainId(body.destChain, network)) {
+      throw new InvalidRequestError('destinationToken.chainId does not match destChain', {
+        chainId: destinationToken.chainId,
+        destChain: body.destChain,
+      });
+    }
+  }
+
+  if (body.slippage !== undefined && !isValidSlippage(body.slippage)) {
+    throw new InvalidRequestError(
+      `slippage must be a whole number of basis points between ${FEES.MIN_SLIPPAGE_BPS} and ${FEES.MAX_SLIPPAGE_BPS}`,
+      { slippage: body.slippage }
+    );
+  }
+  if (body.deadline !== undefined && (typeof body.deadline !== 'number' || body.deadline <= Date.now())) {
+    throw new InvalidRequestError('deadline must be a future unix timestamp in milliseconds', {
+      deadline: body.deadline,
+    });
+  }
+
+  return {
+    sourceChain: body.sourceChain,
+    destChain: body.destChain,
+    token,
+    amount: body.amount,
+    senderAddress: body.senderAddress,
+    recipientAddress: body.recipientAddress,
+    ...(body.routeType !== undefined && { routeType: body.routeType }),
+    ...(body.nativeGas !== undefined && { nativeGas: body.nativeGas }),
+    ...(destinationToken && { destinationToken }),
+    ...(body.slippage !== undefined && { slippage: body.slippage }),
+    ...(body.deadline !== undefined && { deadline: body.deadline }),
+  };
+}